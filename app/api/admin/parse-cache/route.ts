@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import { isAdmin } from "@/lib/admin";
+import { purgeParseCache } from "@/lib/parse-cache";
+
+// Empties the parse cache, e.g. after a parser fix that the prompt
+// fingerprint does not capture. With ?expired_only=true only expired entries
+// are removed.
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Security: the cache holds every user's parsed resumes
+    if (!isAdmin(session.user.sub)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const expiredOnly =
+      request.nextUrl.searchParams.get("expired_only") === "true";
+
+    const deleted = await purgeParseCache(expiredOnly);
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    console.error("Error purging parse cache:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,7 @@ import {
   linkBulletPointToSkill,
   getSkillsForBulletPoint,
 } from "@/lib/database";
+import { withProvenance } from "@/lib/provenance";
 
 export async function GET(request: NextRequest) {
   try {
@@ -22,11 +23,15 @@ export async function GET(request: NextRequest) {
 
     const bulletPoints = await getBulletPointsByUserId(user.id);
     
-    // Fetch skills for each bullet point
+    // Fetch skills for each bullet point. Imported bullet points and skills
+    // carry the span of document text they came from and a confidence score.
     const bulletPointsWithSkills = await Promise.all(
       bulletPoints.map(async (bp) => {
         const skills = bp.id ? await getSkillsForBulletPoint(bp.id) : [];
-        return { ...bp, skills };
+        return {
+          ...withProvenance(bp),
+          skills: skills.map((skill) => withProvenance(skill)),
+        };
       })
     );
     
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import {
+  updateCertification,
+  deleteCertification,
+  getCertificationById,
+  getOrCreateUser,
+} from "@/lib/database";
+import {
+  replaceSectionBulletPoints,
+  withEntryBulletPoints,
+} from "@/lib/profile-sections";
+import {
+  parseCertificationInput,
+  parseSectionBulletPointsInput,
+} from "@/lib/resume-import";
+
+// Updates a certification. Bullet points are replaced when `bullet_points` is
+// sent and left as they are otherwise.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const body = await request.json();
+
+    // Security: Validate input
+    const parsed = parseCertificationInput(body);
+    if (parsed.error !== null) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const bulletPoints =
+      body.bullet_points === undefined
+        ? null
+        : parseSectionBulletPointsInput(body.bullet_points);
+    if (bulletPoints && bulletPoints.error !== null) {
+      return NextResponse.json({ error: bulletPoints.error }, { status: 400 });
+    }
+
+    const certificationId = parseInt(params.id);
+    if (isNaN(certificationId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    // Check if the certification exists and belongs to user
+    const existing = await getCertificationById(certificationId, user.id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Certification not found" },
+        { status: 404 }
+      );
+    }
+
+    const certification = await updateCertification(
+      certificationId,
+      user.id,
+      parsed.certification
+    );
+    if (!certification) {
+      return NextResponse.json(
+        { error: "Certification not found" },
+        { status: 404 }
+      );
+    }
+    if (bulletPoints) {
+      await replaceSectionBulletPoints(
+        user.id,
+        "certification",
+        certification.id,
+        bulletPoints.bulletPoints
+      );
+    }
+
+    return NextResponse.json({
+      certification: await withEntryBulletPoints(
+        user.id,
+        "certification",
+        certification
+      ),
+    });
+  } catch (error) {
+    console.error("Error updating certification:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const certificationId = parseInt(params.id);
+    if (isNaN(certificationId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    // Bullet points and their skill links are deleted with it
+    const success = await deleteCertification(certificationId, user.id);
+    if (!success) {
+      return NextResponse.json(
+        { error: "Certification not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting certification:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import {
+  getCertificationsByUserId,
+  createCertification,
+  getOrCreateUser,
+} from "@/lib/database";
+import {
+  replaceSectionBulletPoints,
+  withEntryBulletPoints,
+  withSectionBulletPoints,
+} from "@/lib/profile-sections";
+import {
+  parseCertificationInput,
+  parseSectionBulletPointsInput,
+} from "@/lib/resume-import";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const certifications = await withSectionBulletPoints(
+      user.id,
+      "certification",
+      await getCertificationsByUserId(user.id)
+    );
+    return NextResponse.json({ certifications });
+  } catch (error) {
+    console.error("Error fetching certifications:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Creates a certification with its bullet points: [{ content, skills }]
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const body = await request.json();
+
+    // Security: Validate input
+    const parsed = parseCertificationInput(body);
+    if (parsed.error !== null) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const bulletPoints = parseSectionBulletPointsInput(
+      body.bullet_points ?? []
+    );
+    if (bulletPoints.error !== null) {
+      return NextResponse.json({ error: bulletPoints.error }, { status: 400 });
+    }
+
+    const certification = await createCertification(
+      user.id,
+      parsed.certification
+    );
+    await replaceSectionBulletPoints(
+      user.id,
+      "certification",
+      certification.id,
+      bulletPoints.bulletPoints
+    );
+
+    return NextResponse.json(
+      {
+        certification: await withEntryBulletPoints(
+          user.id,
+          "certification",
+          certification
+        ),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating certification:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,9 +4,47 @@ import {
   updateCompany,
   deleteCompany,
   getCompanyById,
+  getCompanyWithRoles,
   getOrCreateUser,
 } from "@/lib/database";
 
+// A company and the roles held there, most recent first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const companyId = parseInt(params.id);
+    if (isNaN(companyId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    const company = await getCompanyWithRoles(companyId, user.id);
+    if (!company) {
+      return NextResponse.json(
+        { error: "Company not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ company });
+  } catch (error) {
+    console.error("Error fetching company:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
 export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@auth0/nextjs-auth0";
 import {
-  getCompaniesByUserId,
+  getCompaniesWithRoles,
   createCompany,
   getOrCreateUser,
 } from "@/lib/database";
@@ -16,7 +16,8 @@ export async function GET(request: NextRequest) {
 
     const user = await getOrCreateUser(session.user.sub);
 
-    const companies = await getCompaniesByUserId(user.id);
+    // Each company lists its roles, most recent first
+    const companies = await getCompaniesWithRoles(user.id);
     return NextResponse.json({ companies });
   } catch (error) {
     console.error("Error fetching companies:", error);
@@ -62,7 +63,10 @@ export async function POST(request: NextRequest) {
       state,
       is_remote
     );
-    return NextResponse.json({ company }, { status: 201 });
+    return NextResponse.json(
+      { company: { ...company, roles: [] } },
+      { status: 201 }
+    );
   } catch (error) {
     console.error("Error creating company:", error);
     return NextResponse.json(
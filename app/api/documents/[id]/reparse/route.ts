@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import {
+  createResumeImport,
+  deleteExpiredResumeImports,
+  getDocumentById,
+  getOrCreateUser,
+} from "@/lib/database";
+import { inspectDocument } from "@/lib/document-formats";
+import { readDocumentFile } from "@/lib/documents";
+import { startUploadImport, toStatusReport } from "@/lib/import-jobs";
+import { PENDING_IMPORT_TTL_HOURS } from "@/lib/resume-import";
+import { consumeUsage } from "@/lib/usage";
+
+// Seconds the import may keep running after the response on hosts that
+// allow it; see lib/import-jobs.ts
+export const maxDuration = 300;
+
+// Parses a stored document again with the current parser. This starts a new
+// import exactly like an upload does: it is reviewed and committed the same
+// way, and committing it only adds what is not saved yet.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const documentId = parseInt(params.id);
+    if (isNaN(documentId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    const document = await getDocumentById(documentId, user.id);
+    if (!document) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    // Security: Documents stored before uploads were checked by content may
+    // not be importable, so they are checked here as well
+    const buffer = await readDocumentFile(document);
+    let inspected;
+    try {
+      inspected = await inspectDocument(buffer, document.file_name);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to read the document",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Security: Enforce per-user rate limits and daily quotas on parsing. One
+    // part is counted now, before the parse is accepted, so concurrent
+    // requests cannot all get through; the rest of a long resume is counted
+    // once it is known how many parts the LLM is asked to parse.
+    const usage = await consumeUsage(user.id, "parse");
+    if (!usage.allowed) {
+      return NextResponse.json(
+        { error: usage.error },
+        {
+          status: 429,
+          headers: { "Retry-After": String(usage.retryAfterSeconds) },
+        }
+      );
+    }
+
+    await deleteExpiredResumeImports();
+
+    const expiresAt = new Date(
+      Date.now() + PENDING_IMPORT_TTL_HOURS * 60 * 60 * 1000
+    );
+    const resumeImport = await createResumeImport(
+      user.id,
+      document.file_name,
+      expiresAt,
+      document.id
+    );
+
+    await startUploadImport(resumeImport, buffer, inspected.format);
+
+    return NextResponse.json(toStatusReport(resumeImport), { status: 202 });
+  } catch (error) {
+    console.error("Error re-parsing document:", error);
+    return NextResponse.json(
+      { error: "Failed to parse document. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import { getDocumentsByUserId, getOrCreateUser } from "@/lib/database";
+
+// Lists the user's uploaded documents, newest first, without their text
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const documents = await getDocumentsByUserId(user.id);
+    return NextResponse.json({ documents });
+  } catch (error) {
+    console.error("Error fetching documents:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
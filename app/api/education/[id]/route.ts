@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import {
+  updateEducation,
+  deleteEducation,
+  getOrCreateUser,
+} from "@/lib/database";
+import { parseEducationInput } from "@/lib/resume-import";
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    // Security: Validate input
+    const parsed = parseEducationInput(await request.json());
+    if (parsed.error !== null) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const educationId = parseInt(params.id);
+    if (isNaN(educationId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    // Only updates an entry that belongs to the user
+    const education = await updateEducation(
+      educationId,
+      user.id,
+      parsed.education
+    );
+    if (!education) {
+      return NextResponse.json(
+        { error: "Education not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ education });
+  } catch (error) {
+    console.error("Error updating education:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const educationId = parseInt(params.id);
+    if (isNaN(educationId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    const success = await deleteEducation(educationId, user.id);
+    if (!success) {
+      return NextResponse.json(
+        { error: "Education not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting education:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import {
+  getEducationByUserId,
+  createEducation,
+  getOrCreateUser,
+} from "@/lib/database";
+import { parseEducationInput } from "@/lib/resume-import";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const education = await getEducationByUserId(user.id);
+    return NextResponse.json({ education });
+  } catch (error) {
+    console.error("Error fetching education:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    // Security: Validate input
+    const parsed = parseEducationInput(await request.json());
+    if (parsed.error !== null) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const education = await createEducation(user.id, parsed.education);
+    return NextResponse.json({ education }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating education:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import { getOrCreateUser } from "@/lib/database";
+import { importParsedResume } from "@/lib/resume-import";
+import { linkedInArchiveToParsedResume } from "@/lib/linkedin-import";
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const formData = await request.formData();
+    const file = formData.get("file") as File;
+
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+
+    // Security: Enforce file size limit (10MB)
+    const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: "File too large. Maximum size is 10MB." },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !file.type.includes("zip") &&
+      !file.name.toLowerCase().endsWith(".zip")
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Invalid file type. Please upload the LinkedIn data archive (.zip).",
+        },
+        { status: 400 }
+      );
+    }
+
+    const bytes = await file.arrayBuffer();
+    const buffer = Buffer.from(bytes);
+
+    let converted;
+    try {
+      converted = await linkedInArchiveToParsedResume(buffer);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error:
+            error instanceof Error
+              ? error.message
+              : "Failed to read LinkedIn archive",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (converted.resume.jobs.length === 0) {
+      return NextResponse.json(
+        { error: "No positions found in the LinkedIn archive." },
+        { status: 400 }
+      );
+    }
+
+    const summary = await importParsedResume(user.id, converted.resume);
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      skippedPositionCount: converted.skipped,
+    });
+  } catch (error) {
+    console.error("Error importing LinkedIn archive:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
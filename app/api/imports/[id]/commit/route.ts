@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import {
+  getOrCreateUser,
+  getResumeImportById,
+  updateResumeImportStatus,
+} from "@/lib/database";
+import { startImportCommit, toStatusReport } from "@/lib/import-jobs";
+import { parseReviewedResume } from "@/lib/resume-import";
+
+// Seconds the import may keep running after the response on hosts that
+// allow it; see lib/import-jobs.ts
+export const maxDuration = 300;
+
+// Saves the reviewed version of a pending import in the background. The body
+// carries the edited preview; unchecked jobs and bullet points are skipped.
+// Progress and the final summary are reported by /api/imports/[id]/status.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const importId = parseInt(params.id);
+    if (isNaN(importId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    const resumeImport = await getResumeImportById(importId, user.id);
+    if (!resumeImport) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
+    if (resumeImport.status !== "pending") {
+      return NextResponse.json(
+        {
+          error:
+            resumeImport.status === "committed" ||
+            resumeImport.status === "saving"
+              ? "Import has already been committed"
+              : "Import is not ready to commit",
+        },
+        { status: 409 }
+      );
+    }
+
+    if (new Date(resumeImport.expires_at).getTime() < Date.now()) {
+      return NextResponse.json(
+        { error: "Import has expired. Please upload the file again." },
+        { status: 410 }
+      );
+    }
+
+    const body = await request.json();
+
+    // Security: Validate the edited resume before anything is written
+    const reviewed = parseReviewedResume(body.resume);
+    if (reviewed.error !== null) {
+      return NextResponse.json({ error: reviewed.error }, { status: 400 });
+    }
+
+    if (reviewed.resume.jobs.length === 0) {
+      return NextResponse.json(
+        { error: "Select at least one job to import" },
+        { status: 400 }
+      );
+    }
+
+    // Claim the import first so a second commit request cannot save it twice
+    const claimed = await updateResumeImportStatus(
+      importId,
+      user.id,
+      "pending",
+      "saving",
+      { error: null, progress: {} }
+    );
+    if (!claimed) {
+      return NextResponse.json(
+        { error: "Import has already been committed" },
+        { status: 409 }
+      );
+    }
+
+    await startImportCommit(claimed, reviewed.resume);
+
+    return NextResponse.json(toStatusReport(claimed), { status: 202 });
+  } catch (error) {
+    console.error("Error committing import:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import {
+  deleteResumeImport,
+  getOrCreateUser,
+  getResumeImportById,
+} from "@/lib/database";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const importId = parseInt(params.id);
+    if (isNaN(importId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    const resumeImport = await getResumeImportById(importId, user.id);
+    if (!resumeImport) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(resumeImport);
+  } catch (error) {
+    console.error("Error fetching import:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Discards an import without saving any of it. An upload that is still being
+// parsed stops at its next stage.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const importId = parseInt(params.id);
+    if (isNaN(importId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    const resumeImport = await getResumeImportById(importId, user.id);
+    if (!resumeImport) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
+    if (resumeImport.status === "committed") {
+      return NextResponse.json(
+        { error: "Import has already been committed" },
+        { status: 409 }
+      );
+    }
+
+    if (resumeImport.status === "saving") {
+      return NextResponse.json(
+        { error: "Import is being saved" },
+        { status: 409 }
+      );
+    }
+
+    await deleteResumeImport(importId, user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting import:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
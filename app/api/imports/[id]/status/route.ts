@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import { getOrCreateUser, getResumeImportById } from "@/lib/database";
+import {
+  checkForStalledImport,
+  isImportRunning,
+  toStatusReport,
+} from "@/lib/import-jobs";
+
+const POLL_INTERVAL_MS = 1000;
+// Streams are closed after this long; EventSource reconnects on its own
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+// Reports an import's stage, counts and error. Requests that accept
+// text/event-stream (EventSource) get Server-Sent Events: a "status" event
+// whenever the import changes, ending once it stops running.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const importId = parseInt(params.id);
+    if (isNaN(importId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    const found = await getResumeImportById(importId, user.id);
+    const resumeImport = found && (await checkForStalledImport(found));
+    if (!resumeImport) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
+    if (!request.headers.get("accept")?.includes("text/event-stream")) {
+      return NextResponse.json(toStatusReport(resumeImport));
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async start(controller) {
+        const deadline = Date.now() + MAX_STREAM_MS;
+        let current = resumeImport;
+        let lastSent = "";
+
+        controller.enqueue(encoder.encode(`retry: ${POLL_INTERVAL_MS}\n\n`));
+        try {
+          while (!request.signal.aborted) {
+            const report = JSON.stringify(toStatusReport(current));
+            if (report !== lastSent) {
+              controller.enqueue(
+                encoder.encode(`event: status\ndata: ${report}\n\n`)
+              );
+              lastSent = report;
+            }
+
+            if (!isImportRunning(current.status) || Date.now() > deadline) {
+              break;
+            }
+
+            await new Promise((resolve) =>
+              setTimeout(resolve, POLL_INTERVAL_MS)
+            );
+            const next = await getResumeImportById(importId, user.id);
+            const checked = next && (await checkForStalledImport(next));
+            if (!checked) break;
+            current = checked;
+          }
+        } catch (error) {
+          console.error("Error streaming import status:", error);
+        }
+        controller.close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching import status:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
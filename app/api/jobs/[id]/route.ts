@@ -7,6 +7,7 @@ import {
   getOrCreateUser,
   getCompanyById,
 } from "@/lib/database";
+import { comparePartialDates, parsePartialDate } from "@/lib/dates";
 
 export async function PUT(
   request: NextRequest,
@@ -39,6 +40,37 @@ export async function PUT(
       );
     }
 
+    const startDate = parsePartialDate(start_date);
+    if (!startDate) {
+      return NextResponse.json(
+        { error: "Invalid start date (use YYYY, YYYY-MM or YYYY-MM-DD)" },
+        { status: 400 }
+      );
+    }
+
+    // A current job has no end date
+    const endDate = is_current || !end_date ? null : parsePartialDate(end_date);
+    if (!is_current && end_date && !endDate) {
+      return NextResponse.json(
+        { error: "Invalid end date (use YYYY, YYYY-MM or YYYY-MM-DD)" },
+        { status: 400 }
+      );
+    }
+
+    if (endDate && comparePartialDates(endDate, startDate) < 0) {
+      return NextResponse.json(
+        { error: "End date must not be before start date" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof is_current !== "boolean") {
+      return NextResponse.json(
+        { error: "is_current must be a boolean" },
+        { status: 400 }
+      );
+    }
+
     if (title.length > 255) {
       return NextResponse.json(
         { error: "Job title too long (max 255 characters)" },
@@ -61,8 +93,8 @@ export async function PUT(
       jobId,
       user.id,
       title.trim(),
-      new Date(start_date),
-      end_date ? new Date(end_date) : null,
+      startDate,
+      endDate,
       is_current
     );
     return NextResponse.json({ job });
@@ -6,6 +6,7 @@ import {
   getOrCreateUser,
   getCompanyById,
 } from "@/lib/database";
+import { comparePartialDates, parsePartialDate } from "@/lib/dates";
 
 export async function GET(request: NextRequest) {
   try {
@@ -69,6 +70,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const startDate = parsePartialDate(start_date);
+    if (!startDate) {
+      return NextResponse.json(
+        { error: "Invalid start date (use YYYY, YYYY-MM or YYYY-MM-DD)" },
+        { status: 400 }
+      );
+    }
+
+    // A current job has no end date
+    const endDate = is_current || !end_date ? null : parsePartialDate(end_date);
+    if (!is_current && end_date && !endDate) {
+      return NextResponse.json(
+        { error: "Invalid end date (use YYYY, YYYY-MM or YYYY-MM-DD)" },
+        { status: 400 }
+      );
+    }
+
+    if (endDate && comparePartialDates(endDate, startDate) < 0) {
+      return NextResponse.json(
+        { error: "End date must not be before start date" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof is_current !== "boolean") {
+      return NextResponse.json(
+        { error: "is_current must be a boolean" },
+        { status: 400 }
+      );
+    }
+
     // Verify company belongs to user
     const company = await getCompanyById(company_id, user.id);
     if (!company) {
@@ -89,8 +121,8 @@ export async function POST(request: NextRequest) {
       user.id,
       company_id,
       title.trim(),
-      new Date(start_date),
-      end_date ? new Date(end_date) : null,
+      startDate,
+      endDate,
       is_current
     );
     return NextResponse.json({ job }, { status: 201 });
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import { getOrCreateUser } from "@/lib/database";
+import { buildFullResume, loadResumeSource } from "@/lib/resume";
+import { importParsedResume } from "@/lib/resume-import";
+import {
+  jsonResumeToParsedResume,
+  resumeToJsonResume,
+} from "@/lib/json-resume";
+
+// Exports all of the user's experience as a JSON Resume document
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const source = await loadResumeSource(user.id);
+    const document = resumeToJsonResume(buildFullResume(source, "Resume"));
+
+    return new NextResponse(JSON.stringify(document, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="resume.json"',
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting JSON Resume:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Imports work history and skills from a JSON Resume document
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Request body must be valid JSON" },
+        { status: 400 }
+      );
+    }
+
+    let converted;
+    try {
+      converted = jsonResumeToParsedResume(body);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: error instanceof Error ? error.message : "Invalid JSON Resume",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (converted.resume.jobs.length === 0) {
+      return NextResponse.json(
+        { error: "No work experience found in the document." },
+        { status: 400 }
+      );
+    }
+
+    const summary = await importParsedResume(user.id, converted.resume);
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+      skippedWorkCount: converted.skipped,
+    });
+  } catch (error) {
+    console.error("Error importing JSON Resume:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
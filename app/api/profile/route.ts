@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import {
+  getOrCreateUser,
+  getProfileByUserId,
+  saveProfile,
+} from "@/lib/database";
+import { parseProfileInput } from "@/lib/resume-import";
+
+// The profile is null until it is first saved or filled in by an import
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const profile = await getProfileByUserId(user.id);
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error("Error fetching profile:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Replaces the whole profile; fields left out are cleared
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    // Security: Validate input
+    const parsed = parseProfileInput(await request.json());
+    if (parsed.error !== null) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const profile = await saveProfile(user.id, parsed.profile);
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error("Error updating profile:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
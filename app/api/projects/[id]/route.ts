@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import {
+  updateProject,
+  deleteProject,
+  getProjectById,
+  getOrCreateUser,
+} from "@/lib/database";
+import {
+  replaceSectionBulletPoints,
+  withEntryBulletPoints,
+} from "@/lib/profile-sections";
+import {
+  parseProjectInput,
+  parseSectionBulletPointsInput,
+} from "@/lib/resume-import";
+
+// Updates a project. Bullet points are replaced when `bullet_points` is
+// sent and left as they are otherwise.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const body = await request.json();
+
+    // Security: Validate input
+    const parsed = parseProjectInput(body);
+    if (parsed.error !== null) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const bulletPoints =
+      body.bullet_points === undefined
+        ? null
+        : parseSectionBulletPointsInput(body.bullet_points);
+    if (bulletPoints && bulletPoints.error !== null) {
+      return NextResponse.json({ error: bulletPoints.error }, { status: 400 });
+    }
+
+    const projectId = parseInt(params.id);
+    if (isNaN(projectId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    // Check if the project exists and belongs to user
+    const existing = await getProjectById(projectId, user.id);
+    if (!existing) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const project = await updateProject(projectId, user.id, parsed.project);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    if (bulletPoints) {
+      await replaceSectionBulletPoints(
+        user.id,
+        "project",
+        project.id,
+        bulletPoints.bulletPoints
+      );
+    }
+
+    return NextResponse.json({
+      project: await withEntryBulletPoints(user.id, "project", project),
+    });
+  } catch (error) {
+    console.error("Error updating project:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const projectId = parseInt(params.id);
+    if (isNaN(projectId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    // Bullet points and their skill links are deleted with it
+    const success = await deleteProject(projectId, user.id);
+    if (!success) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting project:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import {
+  getProjectsByUserId,
+  createProject,
+  getOrCreateUser,
+} from "@/lib/database";
+import {
+  replaceSectionBulletPoints,
+  withEntryBulletPoints,
+  withSectionBulletPoints,
+} from "@/lib/profile-sections";
+import {
+  parseProjectInput,
+  parseSectionBulletPointsInput,
+} from "@/lib/resume-import";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const projects = await withSectionBulletPoints(
+      user.id,
+      "project",
+      await getProjectsByUserId(user.id)
+    );
+    return NextResponse.json({ projects });
+  } catch (error) {
+    console.error("Error fetching projects:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Creates a project with its bullet points: [{ content, skills }]
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const body = await request.json();
+
+    // Security: Validate input
+    const parsed = parseProjectInput(body);
+    if (parsed.error !== null) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const bulletPoints = parseSectionBulletPointsInput(
+      body.bullet_points ?? []
+    );
+    if (bulletPoints.error !== null) {
+      return NextResponse.json({ error: bulletPoints.error }, { status: 400 });
+    }
+
+    const project = await createProject(user.id, parsed.project);
+    await replaceSectionBulletPoints(
+      user.id,
+      "project",
+      project.id,
+      bulletPoints.bulletPoints
+    );
+
+    return NextResponse.json(
+      { project: await withEntryBulletPoints(user.id, "project", project) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating project:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import {
+  updatePublication,
+  deletePublication,
+  getPublicationById,
+  getOrCreateUser,
+} from "@/lib/database";
+import {
+  replaceSectionBulletPoints,
+  withEntryBulletPoints,
+} from "@/lib/profile-sections";
+import {
+  parsePublicationInput,
+  parseSectionBulletPointsInput,
+} from "@/lib/resume-import";
+
+// Updates a publication. Bullet points are replaced when `bullet_points` is
+// sent and left as they are otherwise.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const body = await request.json();
+
+    // Security: Validate input
+    const parsed = parsePublicationInput(body);
+    if (parsed.error !== null) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const bulletPoints =
+      body.bullet_points === undefined
+        ? null
+        : parseSectionBulletPointsInput(body.bullet_points);
+    if (bulletPoints && bulletPoints.error !== null) {
+      return NextResponse.json({ error: bulletPoints.error }, { status: 400 });
+    }
+
+    const publicationId = parseInt(params.id);
+    if (isNaN(publicationId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    // Check if the publication exists and belongs to user
+    const existing = await getPublicationById(publicationId, user.id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Publication not found" },
+        { status: 404 }
+      );
+    }
+
+    const publication = await updatePublication(
+      publicationId,
+      user.id,
+      parsed.publication
+    );
+    if (!publication) {
+      return NextResponse.json(
+        { error: "Publication not found" },
+        { status: 404 }
+      );
+    }
+    if (bulletPoints) {
+      await replaceSectionBulletPoints(
+        user.id,
+        "publication",
+        publication.id,
+        bulletPoints.bulletPoints
+      );
+    }
+
+    return NextResponse.json({
+      publication: await withEntryBulletPoints(
+        user.id,
+        "publication",
+        publication
+      ),
+    });
+  } catch (error) {
+    console.error("Error updating publication:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const publicationId = parseInt(params.id);
+    if (isNaN(publicationId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    // Bullet points and their skill links are deleted with it
+    const success = await deletePublication(publicationId, user.id);
+    if (!success) {
+      return NextResponse.json(
+        { error: "Publication not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting publication:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import {
+  getPublicationsByUserId,
+  createPublication,
+  getOrCreateUser,
+} from "@/lib/database";
+import {
+  replaceSectionBulletPoints,
+  withEntryBulletPoints,
+  withSectionBulletPoints,
+} from "@/lib/profile-sections";
+import {
+  parsePublicationInput,
+  parseSectionBulletPointsInput,
+} from "@/lib/resume-import";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const publications = await withSectionBulletPoints(
+      user.id,
+      "publication",
+      await getPublicationsByUserId(user.id)
+    );
+    return NextResponse.json({ publications });
+  } catch (error) {
+    console.error("Error fetching publications:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Creates a publication with its bullet points: [{ content, skills }]
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const body = await request.json();
+
+    // Security: Validate input
+    const parsed = parsePublicationInput(body);
+    if (parsed.error !== null) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const bulletPoints = parseSectionBulletPointsInput(
+      body.bullet_points ?? []
+    );
+    if (bulletPoints.error !== null) {
+      return NextResponse.json({ error: bulletPoints.error }, { status: 400 });
+    }
+
+    const publication = await createPublication(user.id, parsed.publication);
+    await replaceSectionBulletPoints(
+      user.id,
+      "publication",
+      publication.id,
+      bulletPoints.bulletPoints
+    );
+
+    return NextResponse.json(
+      {
+        publication: await withEntryBulletPoints(
+          user.id,
+          "publication",
+          publication
+        ),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating publication:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import {
+  updateSavedResume,
+  deleteSavedResume,
+  getSavedResumeById,
+  SavedResumeSelectionRows,
+  getOrCreateUser,
+} from "@/lib/database";
+import { loadResumeSource } from "@/lib/resume";
+import {
+  loadSavedResume,
+  parseResumeSelection,
+  toSelectionRows,
+} from "@/lib/saved-resumes";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const resumeId = parseInt(params.id);
+    if (isNaN(resumeId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    const loaded = await loadSavedResume(resumeId, user.id);
+    if (!loaded) {
+      return NextResponse.json({ error: "Resume not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(loaded);
+  } catch (error) {
+    console.error("Error fetching resume:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const body = await request.json();
+    const { name, jobs } = body;
+
+    // Security: Validate input
+    if (!name || typeof name !== "string" || !name.trim()) {
+      return NextResponse.json(
+        { error: "Resume name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (name.length > 255) {
+      return NextResponse.json(
+        { error: "Resume name too long (max 255 characters)" },
+        { status: 400 }
+      );
+    }
+
+    const resumeId = parseInt(params.id);
+    if (isNaN(resumeId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    // Check if resume exists and belongs to user
+    const existing = await getSavedResumeById(resumeId, user.id);
+    if (!existing) {
+      return NextResponse.json({ error: "Resume not found" }, { status: 404 });
+    }
+
+    // The selection is only replaced when one is sent, so renaming a resume
+    // does not require resending it
+    let rows: SavedResumeSelectionRows | null = null;
+    if (jobs !== undefined) {
+      const source = await loadResumeSource(user.id);
+      const selection = parseResumeSelection(jobs, source);
+      if (selection.error !== null) {
+        return NextResponse.json({ error: selection.error }, { status: 400 });
+      }
+      rows = toSelectionRows(selection.jobs);
+    }
+
+    // The name and selection are saved together, so neither is left
+    // half-updated when the other fails
+    const updated = await updateSavedResume(
+      resumeId,
+      user.id,
+      name.trim(),
+      rows
+    );
+    if (!updated) {
+      return NextResponse.json({ error: "Resume not found" }, { status: 404 });
+    }
+
+    const loaded = await loadSavedResume(resumeId, user.id);
+    return NextResponse.json(loaded);
+  } catch (error) {
+    console.error("Error updating resume:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const resumeId = parseInt(params.id);
+    if (isNaN(resumeId)) {
+      return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+    }
+
+    const success = await deleteSavedResume(resumeId, user.id);
+    if (!success) {
+      return NextResponse.json({ error: "Resume not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting resume:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
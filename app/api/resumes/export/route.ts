@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import { getOrCreateUser } from "@/lib/database";
+import { Resume } from "@/lib/resume";
+import { generateResume } from "@/lib/resume-generator";
+import { consumeUsage } from "@/lib/usage";
+import { loadSavedResume } from "@/lib/saved-resumes";
+import {
+  RESUME_EXPORT_FORMATS,
+  exportResume,
+  isResumeExportFormat,
+} from "@/lib/exporters";
+import { PDF_TEMPLATES, isPdfTemplateId } from "@/lib/exporters/pdf";
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const body = await request.json();
+    const { format, template, resume_id, job_description } = body;
+
+    // Security: Validate input
+    if (!isResumeExportFormat(format)) {
+      return NextResponse.json(
+        {
+          error: `Format must be one of: ${RESUME_EXPORT_FORMATS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (template !== undefined && !isPdfTemplateId(template)) {
+      return NextResponse.json(
+        {
+          error: `Template must be one of: ${Object.keys(PDF_TEMPLATES).join(
+            ", "
+          )}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Export either a saved resume or one generated on the fly from a posting
+    let resume: Resume;
+    if (resume_id !== undefined) {
+      if (typeof resume_id !== "number") {
+        return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+      }
+
+      const loaded = await loadSavedResume(resume_id, user.id);
+      if (!loaded) {
+        return NextResponse.json(
+          { error: "Resume not found" },
+          { status: 404 }
+        );
+      }
+      resume = loaded.rendered;
+    } else if (typeof job_description === "string" && job_description.trim()) {
+      if (job_description.length > 50000) {
+        return NextResponse.json(
+          { error: "Job description too long (max 50000 characters)" },
+          { status: 400 }
+        );
+      }
+
+      // Security: Generating on the fly counts against the generation quota
+      const usage = await consumeUsage(user.id, "generate");
+      if (!usage.allowed) {
+        return NextResponse.json(
+          { error: usage.error },
+          {
+            status: 429,
+            headers: { "Retry-After": String(usage.retryAfterSeconds) },
+          }
+        );
+      }
+
+      resume = await generateResume(user.id, job_description);
+    } else {
+      return NextResponse.json(
+        { error: "Either resume_id or job_description is required" },
+        { status: 400 }
+      );
+    }
+
+    const exported = await exportResume(resume, format, { template });
+
+    return new NextResponse(new Uint8Array(exported.body), {
+      headers: {
+        "Content-Type": exported.contentType,
+        "Content-Disposition": `attachment; filename="${exported.fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting resume:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import { getOrCreateUser } from "@/lib/database";
+import { generateResume } from "@/lib/resume-generator";
+import { consumeUsage } from "@/lib/usage";
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const body = await request.json();
+    const { job_description, max_bullet_points_per_job } = body;
+
+    // Security: Validate input
+    if (
+      !job_description ||
+      typeof job_description !== "string" ||
+      !job_description.trim()
+    ) {
+      return NextResponse.json(
+        { error: "Job description is required" },
+        { status: 400 }
+      );
+    }
+
+    // Security: Enforce reasonable limits
+    if (job_description.length > 50000) {
+      return NextResponse.json(
+        { error: "Job description too long (max 50000 characters)" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      max_bullet_points_per_job !== undefined &&
+      (typeof max_bullet_points_per_job !== "number" ||
+        !Number.isInteger(max_bullet_points_per_job) ||
+        max_bullet_points_per_job < 1 ||
+        max_bullet_points_per_job > 20)
+    ) {
+      return NextResponse.json(
+        { error: "max_bullet_points_per_job must be an integer from 1 to 20" },
+        { status: 400 }
+      );
+    }
+
+    // Security: Enforce per-user rate limits and daily quotas on generation
+    const usage = await consumeUsage(user.id, "generate");
+    if (!usage.allowed) {
+      return NextResponse.json(
+        { error: usage.error },
+        {
+          status: 429,
+          headers: { "Retry-After": String(usage.retryAfterSeconds) },
+        }
+      );
+    }
+
+    const resume = await generateResume(user.id, job_description, {
+      maxBulletPointsPerJob: max_bullet_points_per_job,
+    });
+
+    return NextResponse.json({ resume });
+  } catch (error) {
+    console.error("Error generating resume:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
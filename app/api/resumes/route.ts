@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import {
+  getSavedResumesByUserId,
+  createSavedResume,
+  getOrCreateUser,
+} from "@/lib/database";
+import { loadResumeSource } from "@/lib/resume";
+import {
+  loadSavedResume,
+  parseResumeSelection,
+  toSelectionRows,
+} from "@/lib/saved-resumes";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const resumes = await getSavedResumesByUserId(user.id);
+    return NextResponse.json({ resumes });
+  } catch (error) {
+    console.error("Error fetching resumes:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const body = await request.json();
+    const { name, jobs = [] } = body;
+
+    // Security: Validate input
+    if (!name || typeof name !== "string" || !name.trim()) {
+      return NextResponse.json(
+        { error: "Resume name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (name.length > 255) {
+      return NextResponse.json(
+        { error: "Resume name too long (max 255 characters)" },
+        { status: 400 }
+      );
+    }
+
+    // Verify every selected job and bullet point belongs to user
+    const source = await loadResumeSource(user.id);
+    const selection = parseResumeSelection(jobs, source);
+    if (selection.error !== null) {
+      return NextResponse.json({ error: selection.error }, { status: 400 });
+    }
+
+    const resumeId = await createSavedResume(
+      user.id,
+      name.trim(),
+      toSelectionRows(selection.jobs)
+    );
+
+    const loaded = await loadSavedResume(resumeId, user.id);
+    return NextResponse.json(loaded, { status: 201 });
+  } catch (error) {
+    console.error("Error creating resume:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
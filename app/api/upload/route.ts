@@ -1,18 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@auth0/nextjs-auth0";
 import {
+  createResumeImport,
+  deleteExpiredResumeImports,
   getOrCreateUser,
-  createCompany,
-  createJob,
-  createBulletPoint,
-  getOrCreateSkill,
-  linkBulletPointToSkill,
 } from "@/lib/database";
-import {
-  extractTextFromPDF,
-  extractTextFromWord,
-  parseResumeContent,
-} from "@/lib/resume-parser";
+import { inspectDocument } from "@/lib/document-formats";
+import { storeDocument } from "@/lib/documents";
+import { startUploadImport, toStatusReport } from "@/lib/import-jobs";
+import { PENDING_IMPORT_TTL_HOURS } from "@/lib/resume-import";
+import { consumeUsage } from "@/lib/usage";
+
+// Seconds the import may keep running after the response on hosts that
+// allow it; see lib/import-jobs.ts
+export const maxDuration = 300;
 
 export async function POST(request: NextRequest) {
   try {
@@ -40,121 +41,73 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check file type
-    const fileType = file.type;
-    const fileName = file.name.toLowerCase();
-
-    if (
-      !fileType.includes("pdf") &&
-      !fileType.includes("word") &&
-      !fileType.includes("document") &&
-      !fileName.endsWith(".pdf") &&
-      !fileName.endsWith(".doc") &&
-      !fileName.endsWith(".docx")
-    ) {
-      return NextResponse.json(
-        { error: "Invalid file type. Please upload a PDF or Word document." },
-        { status: 400 }
-      );
-    }
-
     // Convert file to buffer
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
 
-    // Extract text based on file type
-    let text: string;
-    if (fileType.includes("pdf") || fileName.endsWith(".pdf")) {
-      text = await extractTextFromPDF(buffer);
-    } else {
-      text = await extractTextFromWord(buffer);
-    }
-
-    // Parse resume to extract structured data
-    const parsedResume = await parseResumeContent(text);
-
-    if (parsedResume.jobs.length === 0) {
+    // Security: Detect the file type from its content rather than the
+    // client-supplied type and name, and enforce the format's size and page
+    // limits before anything is stored or parsed
+    let inspected;
+    try {
+      inspected = await inspectDocument(buffer, file.name);
+    } catch (error) {
       return NextResponse.json(
-        { error: "No work experience found in the document." },
+        {
+          error:
+            error instanceof Error ? error.message : "Failed to read the file",
+        },
         { status: 400 }
       );
     }
 
-    // Create all skills first
-    const skillMap = new Map<string, number>();
-    for (const skillName of parsedResume.skills) {
-      if (skillName && skillName.trim()) {
-        const skill = await getOrCreateSkill(user.id, skillName.trim());
-        skillMap.set(skillName.trim().toLowerCase(), skill.id);
-      }
-    }
-
-    // Create companies, jobs, and bullet points
-    let totalBulletPoints = 0;
-    const createdJobs = [];
-
-    for (const jobData of parsedResume.jobs) {
-      // Create company
-      const company = await createCompany(
-        user.id,
-        jobData.company,
-        jobData.city,
-        jobData.state,
-        jobData.is_remote
-      );
-
-      // Create job
-      const job = await createJob(
-        user.id,
-        company.id,
-        jobData.title,
-        new Date(jobData.start_date),
-        jobData.end_date ? new Date(jobData.end_date) : null,
-        jobData.is_current
-      );
-
-      // Create bullet points for this job
-      for (const bpData of jobData.bullet_points) {
-        const bulletPoint = await createBulletPoint(
-          user.id,
-          job.id,
-          bpData.text
-        );
-
-        // Link bullet point to skills
-        for (const skillName of bpData.skills) {
-          const skillId = skillMap.get(skillName.toLowerCase());
-          if (skillId && bulletPoint.id) {
-            await linkBulletPointToSkill(bulletPoint.id, skillId);
-          }
+    // Security: Enforce per-user rate limits and daily quotas on parsing. One
+    // part is counted now, before the parse is accepted, so concurrent
+    // requests cannot all get through; the rest of a long resume is counted
+    // once it is known how many parts the LLM is asked to parse.
+    const usage = await consumeUsage(user.id, "parse");
+    if (!usage.allowed) {
+      return NextResponse.json(
+        { error: usage.error },
+        {
+          status: 429,
+          headers: { "Retry-After": String(usage.retryAfterSeconds) },
         }
-
-        totalBulletPoints++;
-      }
-
-      createdJobs.push({
-        company: company.name,
-        title: job.title,
-        bulletPointCount: jobData.bullet_points.length,
-      });
+      );
     }
 
-    return NextResponse.json({
-      success: true,
-      jobCount: parsedResume.jobs.length,
-      bulletPointCount: totalBulletPoints,
-      skillCount: skillMap.size,
-      jobs: createdJobs,
-    });
+    // The original file is kept so it can be parsed again later via
+    // /api/documents/[id]/reparse
+    const document = await storeDocument(
+      user.id,
+      file.name,
+      inspected.contentType,
+      buffer
+    );
+
+    // Extraction and parsing run in the background. The client follows them
+    // via /api/imports/[id]/status, and nothing is saved until the user
+    // reviews and commits the import via /api/imports/[id]/commit.
+    await deleteExpiredResumeImports();
+
+    const expiresAt = new Date(
+      Date.now() + PENDING_IMPORT_TTL_HOURS * 60 * 60 * 1000
+    );
+    const resumeImport = await createResumeImport(
+      user.id,
+      file.name.substring(0, 255),
+      expiresAt,
+      document.id
+    );
+
+    await startUploadImport(resumeImport, buffer, inspected.format);
+
+    return NextResponse.json(toStatusReport(resumeImport), { status: 202 });
   } catch (error) {
-    console.error("Error parsing resume:", error);
-
-    // Provide specific error message if available
-    const errorMessage =
-      error instanceof Error
-        ? error.message
-        : "Failed to parse resume. Please try again.";
-
-    return NextResponse.json({ error: errorMessage }, { status: 500 });
+    console.error("Error uploading resume:", error);
+    return NextResponse.json(
+      { error: "Failed to upload resume. Please try again." },
+      { status: 500 }
+    );
   }
 }
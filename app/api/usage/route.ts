@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@auth0/nextjs-auth0";
+import { getOrCreateUser } from "@/lib/database";
+import { getUsage } from "@/lib/usage";
+
+// How many parses and generations the user has left today, and how many they
+// can make right now
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session || !session.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(session.user.sub);
+
+    const usage = await getUsage(user.id);
+    return NextResponse.json({ usage });
+  } catch (error) {
+    console.error("Error fetching usage:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
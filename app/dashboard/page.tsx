@@ -13,15 +13,43 @@ interface BulletPoint {
   skills?: Skill[];
 }
 
+type DatePrecision = "year" | "month" | "day";
+
 interface Job {
   id: number;
   company_id: number;
   title: string;
+  // The first day of the year or month for coarser precisions
   start_date: string;
+  start_date_precision: DatePrecision;
   end_date: string | null;
+  end_date_precision: DatePrecision | null;
   is_current: boolean;
 }
 
+// Job dates are entered as "2019", "2019-06" or "2019-06-15"
+const JOB_DATE_PLACEHOLDER = "e.g. 2019 or 2019-06";
+
+// A stored job date as it was entered: "2019", "2019-06" or "2019-06-15"
+function toJobDateInput(date: string, precision: DatePrecision): string {
+  return date.substring(0, { year: 4, month: 7, day: 10 }[precision]);
+}
+
+// "2019", "Jun 2019" or "Jun 15, 2019". Dates are read as UTC so they do not
+// shift with the browser's time zone.
+function formatJobDate(date: string, precision: DatePrecision): string {
+  if (precision === "year") return date.substring(0, 4);
+  return new Date(`${date.substring(0, 10)}T00:00:00Z`).toLocaleDateString(
+    "en-US",
+    {
+      month: "short",
+      ...(precision === "day" ? { day: "numeric" } : {}),
+      year: "numeric",
+      timeZone: "UTC",
+    }
+  );
+}
+
 interface Company {
   id: number;
   name: string;
@@ -30,6 +58,12 @@ interface Company {
   is_remote: boolean;
 }
 
+// As returned by /api/companies: the roles held at a company, most recent
+// first
+interface CompanyWithRoles extends Company {
+  roles: Job[];
+}
+
 interface Skill {
   id: number;
   name: string;
@@ -39,6 +73,344 @@ interface CompanyWithJobs extends Company {
   jobs: (Job & { bullet_points: BulletPoint[] })[];
 }
 
+// How closely a parsed row matches the uploaded document, from 0 to 1
+interface ReviewProvenance {
+  source_span: { start: number; end: number } | null;
+  confidence: number;
+}
+
+// Rows scoring below this are highlighted in the review modal so they are
+// checked first
+const LOW_CONFIDENCE = 0.7;
+
+function isLowConfidence(provenance?: ReviewProvenance): boolean {
+  return provenance !== undefined && provenance.confidence < LOW_CONFIDENCE;
+}
+
+// Parsed upload awaiting review. Rows can be edited or unchecked before the
+// import is committed.
+interface ReviewBulletPoint {
+  text: string;
+  skills: string[];
+  include: boolean;
+  provenance?: ReviewProvenance;
+}
+
+interface ReviewJob {
+  company: string;
+  city: string | null;
+  state: string | null;
+  is_remote: boolean;
+  title: string;
+  start_date: string;
+  end_date: string | null;
+  is_current: boolean;
+  include: boolean;
+  bullet_points: ReviewBulletPoint[];
+  provenance?: ReviewProvenance;
+}
+
+interface ReviewEducation {
+  institution: string;
+  degree: string | null;
+  field: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  gpa: string | null;
+  honors: string | null;
+  include: boolean;
+}
+
+// Only fields the user's profile does not have yet are filled in on commit
+interface ReviewProfile {
+  display_name: string | null;
+  headline: string | null;
+  email: string | null;
+  phone: string | null;
+  location: string | null;
+  github_url: string | null;
+  linkedin_url: string | null;
+  portfolio_url: string | null;
+  summary: string | null;
+  include: boolean;
+}
+
+// Projects, certifications and publications keep their bullet points as
+// parsed; only whole entries can be unchecked
+interface ReviewProject {
+  name: string;
+  role: string | null;
+  url: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  bullet_points: { text: string; skills: string[] }[];
+  include: boolean;
+}
+
+interface ReviewCertification {
+  name: string;
+  issuer: string | null;
+  credential_id: string | null;
+  url: string | null;
+  issue_date: string | null;
+  expiry_date: string | null;
+  bullet_points: { text: string; skills: string[] }[];
+  include: boolean;
+}
+
+interface ReviewPublication {
+  kind: "publication" | "talk";
+  title: string;
+  venue: string | null;
+  url: string | null;
+  published_on: string | null;
+  bullet_points: { text: string; skills: string[] }[];
+  include: boolean;
+}
+
+type ReviewSection =
+  "education" | "projects" | "certifications" | "publications";
+
+interface PendingImport {
+  id: number;
+  file_name: string | null;
+  profile: ReviewProfile | null;
+  jobs: ReviewJob[];
+  education: ReviewEducation[];
+  projects: ReviewProject[];
+  certifications: ReviewCertification[];
+  publications: ReviewPublication[];
+  skills: { name: string; include: boolean; provenance?: ReviewProvenance }[];
+}
+
+// Heading and one-line details shown for an entry in the review modal
+function describeReviewEntry(
+  section: Exclude<ReviewSection, "education">,
+  entry: ReviewProject | ReviewCertification | ReviewPublication
+): { heading: string; details: string } {
+  const join = (parts: (string | null | false)[], separator: string) =>
+    parts.filter(Boolean).join(separator);
+
+  if (section === "projects") {
+    const project = entry as ReviewProject;
+    return {
+      heading: project.name,
+      details: join(
+        [
+          project.role,
+          join([project.start_date, project.end_date], " – "),
+          project.url,
+        ],
+        " · "
+      ),
+    };
+  }
+  if (section === "certifications") {
+    const certification = entry as ReviewCertification;
+    return {
+      heading: certification.name,
+      details: join(
+        [
+          certification.issuer,
+          certification.issue_date,
+          certification.expiry_date && `expires ${certification.expiry_date}`,
+        ],
+        " · "
+      ),
+    };
+  }
+  const publication = entry as ReviewPublication;
+  return {
+    heading: publication.title,
+    details: join(
+      [
+        publication.kind === "talk" ? "Talk" : "Publication",
+        publication.venue,
+        publication.published_on,
+      ],
+      " · "
+    ),
+  };
+}
+
+const REVIEW_SECTIONS: {
+  section: Exclude<ReviewSection, "education">;
+  label: string;
+}[] = [
+  { section: "projects", label: "Projects" },
+  { section: "certifications", label: "Certifications" },
+  { section: "publications", label: "Publications & Talks" },
+];
+
+interface ImportSummary {
+  jobsCreated: number;
+  jobsMatched: number;
+  bulletPointCount: number;
+  bulletPointsSkipped: number;
+  skillCount: number;
+  education: { matched: number; created: number };
+  projects: { matched: number; created: number };
+  certifications: { matched: number; created: number };
+  publications: { matched: number; created: number };
+  profileUpdated?: boolean;
+}
+
+function describeImport(summary: ImportSummary): string {
+  const parts = [
+    `${summary.jobsCreated} new jobs`,
+    `${summary.bulletPointCount} new bullet points`,
+    `${summary.skillCount} skills`,
+  ];
+  if (summary.education.created > 0) {
+    parts.push(`${summary.education.created} new education entries`);
+  }
+  if (summary.projects.created > 0) {
+    parts.push(`${summary.projects.created} new projects`);
+  }
+  if (summary.certifications.created > 0) {
+    parts.push(`${summary.certifications.created} new certifications`);
+  }
+  if (summary.publications.created > 0) {
+    parts.push(`${summary.publications.created} new publications and talks`);
+  }
+  if (summary.profileUpdated) {
+    parts.push("profile details filled in");
+  }
+  if (summary.jobsMatched > 0) {
+    parts.push(`${summary.jobsMatched} existing jobs matched`);
+  }
+  if (summary.bulletPointsSkipped > 0) {
+    parts.push(
+      `${summary.bulletPointsSkipped} duplicate bullet points skipped`
+    );
+  }
+  return `Import complete: ${parts.join(", ")}.`;
+}
+
+// Reported by /api/imports/[id]/status while an upload is parsed or an
+// import is saved
+interface ImportStatusReport {
+  id: number;
+  status:
+    "extracting" | "parsing" | "pending" | "saving" | "committed" | "failed";
+  progress: {
+    chunksParsed?: number;
+    chunkCount?: number;
+    jobCount?: number;
+    bulletPointCount?: number;
+    jobsSaved?: number;
+    bulletPointsSaved?: number;
+  };
+  error: string | null;
+  summary: ImportSummary | null;
+}
+
+function describeImportProgress(report: ImportStatusReport): string {
+  const { progress } = report;
+  switch (report.status) {
+    case "extracting":
+      return "Reading document...";
+    case "parsing":
+      return progress.chunkCount
+        ? `Parsing resume (part ${Math.min(
+            (progress.chunksParsed ?? 0) + 1,
+            progress.chunkCount
+          )} of ${progress.chunkCount})...`
+        : "Parsing resume...";
+    case "saving":
+      return `Saving: ${progress.jobsSaved ?? 0} of ${
+        progress.jobCount ?? 0
+      } jobs, ${progress.bulletPointsSaved ?? 0} bullet points...`;
+    default:
+      return "";
+  }
+}
+
+// Follows an import's status stream until it stops running
+function watchImport(
+  id: number,
+  onUpdate: (report: ImportStatusReport) => void
+): Promise<ImportStatusReport> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/imports/${id}/status`);
+    source.addEventListener("status", (event) => {
+      const report: ImportStatusReport = JSON.parse(
+        (event as MessageEvent).data
+      );
+      onUpdate(report);
+      if (!["extracting", "parsing", "saving"].includes(report.status)) {
+        source.close();
+        resolve(report);
+      }
+    });
+    // EventSource reconnects after dropped connections; it only gives up
+    // when the endpoint answers with an error
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error("Lost track of the import"));
+      }
+    };
+  });
+}
+
+type ParsedUpload = {
+  id: number;
+  file_name: string | null;
+  parsed_resume: {
+    profile?: Omit<ReviewProfile, "include"> | null;
+    jobs: (Omit<ReviewJob, "include" | "bullet_points"> & {
+      bullet_points: Omit<ReviewBulletPoint, "include">[];
+    })[];
+    education?: Omit<ReviewEducation, "include">[];
+    projects?: Omit<ReviewProject, "include">[];
+    certifications?: Omit<ReviewCertification, "include">[];
+    publications?: Omit<ReviewPublication, "include">[];
+    skills: string[];
+    skill_provenance?: Record<string, ReviewProvenance>;
+  };
+};
+
+// Everything starts checked in the review modal
+function toPendingImport(data: ParsedUpload): PendingImport {
+  return {
+    id: data.id,
+    file_name: data.file_name,
+    profile: data.parsed_resume.profile
+      ? { ...data.parsed_resume.profile, include: true }
+      : null,
+    jobs: data.parsed_resume.jobs.map((job) => ({
+      ...job,
+      include: true,
+      bullet_points: job.bullet_points.map((bp) => ({
+        ...bp,
+        include: true,
+      })),
+    })),
+    // Imports parsed before education was extracted have none
+    education: (data.parsed_resume.education ?? []).map((entry) => ({
+      ...entry,
+      include: true,
+    })),
+    projects: (data.parsed_resume.projects ?? []).map((entry) => ({
+      ...entry,
+      include: true,
+    })),
+    certifications: (data.parsed_resume.certifications ?? []).map((entry) => ({
+      ...entry,
+      include: true,
+    })),
+    publications: (data.parsed_resume.publications ?? []).map((entry) => ({
+      ...entry,
+      include: true,
+    })),
+    skills: data.parsed_resume.skills.map((name) => ({
+      name,
+      include: true,
+      provenance: data.parsed_resume.skill_provenance?.[name.toLowerCase()],
+    })),
+  };
+}
+
 export default function Dashboard() {
   const { user, error, isLoading } = useUser();
   const router = useRouter();
@@ -53,6 +425,11 @@ export default function Dashboard() {
   const [editTags, setEditTags] = useState("");
   const [uploadingFile, setUploadingFile] = useState(false);
   const [uploadMessage, setUploadMessage] = useState("");
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(
+    null
+  );
+  const [committingImport, setCommittingImport] = useState(false);
+  const [importProgress, setImportProgress] = useState("");
   const [loadingTimeout, setLoadingTimeout] = useState(false);
 
   // Company management states
@@ -98,17 +475,15 @@ export default function Dashboard() {
 
   const fetchData = async () => {
     try {
-      // Fetch companies, jobs, bullet points, and skills in parallel
-      const [companiesRes, jobsRes, bulletPointsRes, skillsRes] =
-        await Promise.all([
-          fetch("/api/companies"),
-          fetch("/api/jobs"),
-          fetch("/api/bullet-points"),
-          fetch("/api/skills"),
-        ]);
-
-      let companiesData = [];
-      let jobsData = [];
+      // Fetch companies with their roles, bullet points, and skills in
+      // parallel
+      const [companiesRes, bulletPointsRes, skillsRes] = await Promise.all([
+        fetch("/api/companies"),
+        fetch("/api/bullet-points"),
+        fetch("/api/skills"),
+      ]);
+
+      let companiesData: CompanyWithRoles[] = [];
       let bulletPointsData = [];
       let skillsData = [];
 
@@ -117,11 +492,6 @@ export default function Dashboard() {
         companiesData = data.companies || [];
       }
 
-      if (jobsRes.ok) {
-        const data = await jobsRes.json();
-        jobsData = data.jobs || [];
-      }
-
       if (bulletPointsRes.ok) {
         const data = await bulletPointsRes.json();
         bulletPointsData = data.bulletPoints || [];
@@ -141,29 +511,14 @@ export default function Dashboard() {
         return acc;
       }, {});
 
-      // Attach bullet points to jobs
-      const jobsWithBullets = jobsData.map((job: Job) => ({
-        ...job,
-        bullet_points: bulletPointsByJob[job.id] || [],
-      }));
-
-      // Group jobs by company_id
-      const jobsByCompany = jobsWithBullets.reduce((acc: any, job: any) => {
-        if (!acc[job.company_id]) {
-          acc[job.company_id] = [];
-        }
-        acc[job.company_id].push(job);
-        return acc;
-      }, {});
-
-      // Attach jobs to companies and sort by start date
-      const companiesWithJobs = companiesData.map((company: Company) => ({
+      // Attach bullet points to each company's roles, which are already in
+      // order
+      const companiesWithJobs = companiesData.map(({ roles, ...company }) => ({
         ...company,
-        jobs: (jobsByCompany[company.id] || []).sort((a: Job, b: Job) => {
-          return (
-            new Date(b.start_date).getTime() - new Date(a.start_date).getTime()
-          );
-        }),
+        jobs: roles.map((job) => ({
+          ...job,
+          bullet_points: bulletPointsByJob[job.id] || [],
+        })),
       }));
 
       setCompanies(companiesWithJobs);
@@ -348,6 +703,9 @@ export default function Dashboard() {
         setNewJobEndDate("");
         setNewJobIsCurrent(false);
         fetchData();
+      } else {
+        const data = await response.json();
+        alert(data.error || "Error adding job. Please try again.");
       }
     } catch (error) {
       console.error("Error adding job:", error);
@@ -378,6 +736,9 @@ export default function Dashboard() {
         setNewJobEndDate("");
         setNewJobIsCurrent(false);
         fetchData();
+      } else {
+        const data = await response.json();
+        alert(data.error || "Error updating job. Please try again.");
       }
     } catch (error) {
       console.error("Error updating job:", error);
@@ -425,8 +786,14 @@ export default function Dashboard() {
   const startEditingJob = (job: Job) => {
     setEditingJobId(job.id);
     setNewJobTitle(job.title);
-    setNewJobStartDate(job.start_date.split("T")[0]);
-    setNewJobEndDate(job.end_date ? job.end_date.split("T")[0] : "");
+    setNewJobStartDate(
+      toJobDateInput(job.start_date, job.start_date_precision)
+    );
+    setNewJobEndDate(
+      job.end_date
+        ? toJobDateInput(job.end_date, job.end_date_precision || "day")
+        : ""
+    );
     setNewJobIsCurrent(job.is_current);
     setShowEditJobModal(true);
   };
@@ -478,7 +845,10 @@ export default function Dashboard() {
     }
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+    endpoint: string = "/api/upload"
+  ) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
@@ -489,17 +859,32 @@ export default function Dashboard() {
       const formData = new FormData();
       formData.append("file", file);
 
-      const response = await fetch("/api/upload", {
+      const response = await fetch(endpoint, {
         method: "POST",
         body: formData,
       });
 
       const data = await response.json();
 
-      if (response.ok) {
-        setUploadMessage(
-          `Successfully extracted ${data.jobCount} jobs with ${data.bulletPointCount} bullet points and ${data.skillCount} skills!`
+      if (response.status === 202) {
+        // Uploads are parsed in the background into a pending import to
+        // review before saving
+        const report = await watchImport(data.id, (update) =>
+          setImportProgress(describeImportProgress(update))
         );
+        if (report.status === "pending") {
+          const importResponse = await fetch(`/api/imports/${data.id}`);
+          const parsed = await importResponse.json();
+          if (importResponse.ok) {
+            setPendingImport(toPendingImport(parsed));
+          } else {
+            setUploadMessage(`Error: ${parsed.error}`);
+          }
+        } else {
+          setUploadMessage(`Error: ${report.error || "Upload failed"}`);
+        }
+      } else if (response.ok) {
+        setUploadMessage(describeImport(data));
         fetchData();
       } else {
         setUploadMessage(`Error: ${data.error}`);
@@ -509,11 +894,148 @@ export default function Dashboard() {
       setUploadMessage("Error uploading file. Please try again.");
     } finally {
       setUploadingFile(false);
+      setImportProgress("");
       // Reset file input
       e.target.value = "";
     }
   };
 
+  const updateReviewJob = (jobIndex: number, changes: Partial<ReviewJob>) => {
+    setPendingImport((current) =>
+      current
+        ? {
+            ...current,
+            jobs: current.jobs.map((job, i) =>
+              i === jobIndex ? { ...job, ...changes } : job
+            ),
+          }
+        : current
+    );
+  };
+
+  const updateReviewBulletPoint = (
+    jobIndex: number,
+    bulletIndex: number,
+    changes: Partial<ReviewBulletPoint>
+  ) => {
+    setPendingImport((current) =>
+      current
+        ? {
+            ...current,
+            jobs: current.jobs.map((job, i) =>
+              i === jobIndex
+                ? {
+                    ...job,
+                    bullet_points: job.bullet_points.map((bp, j) =>
+                      j === bulletIndex ? { ...bp, ...changes } : bp
+                    ),
+                  }
+                : job
+            ),
+          }
+        : current
+    );
+  };
+
+  const toggleReviewSkill = (skillIndex: number) => {
+    setPendingImport((current) =>
+      current
+        ? {
+            ...current,
+            skills: current.skills.map((skill, i) =>
+              i === skillIndex ? { ...skill, include: !skill.include } : skill
+            ),
+          }
+        : current
+    );
+  };
+
+  const toggleReviewEntry = (section: ReviewSection, entryIndex: number) => {
+    setPendingImport((current) =>
+      current
+        ? {
+            ...current,
+            [section]: current[section].map(
+              (entry: { include: boolean }, i: number) =>
+                i === entryIndex ? { ...entry, include: !entry.include } : entry
+            ),
+          }
+        : current
+    );
+  };
+
+  const toggleReviewProfile = () => {
+    setPendingImport((current) =>
+      current?.profile
+        ? {
+            ...current,
+            profile: { ...current.profile, include: !current.profile.include },
+          }
+        : current
+    );
+  };
+
+  const handleCommitImport = async () => {
+    if (!pendingImport) return;
+
+    setCommittingImport(true);
+    try {
+      const response = await fetch(`/api/imports/${pendingImport.id}/commit`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          resume: {
+            profile: pendingImport.profile,
+            jobs: pendingImport.jobs,
+            education: pendingImport.education,
+            projects: pendingImport.projects,
+            certifications: pendingImport.certifications,
+            publications: pendingImport.publications,
+            skills: pendingImport.skills
+              .filter((skill) => skill.include)
+              .map((skill) => skill.name),
+          },
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(`Error: ${data.error}`);
+        return;
+      }
+
+      const report = await watchImport(pendingImport.id, (update) =>
+        setImportProgress(describeImportProgress(update))
+      );
+      if (report.status === "committed" && report.summary) {
+        setPendingImport(null);
+        setUploadMessage(describeImport(report.summary));
+      } else {
+        alert(`Error: ${report.error || "Failed to save the import"}`);
+      }
+      fetchData();
+    } catch (error) {
+      console.error("Error committing import:", error);
+      alert("Error saving import. Please try again.");
+    } finally {
+      setCommittingImport(false);
+      setImportProgress("");
+    }
+  };
+
+  const handleDiscardImport = async () => {
+    if (!pendingImport) return;
+    if (!confirm("Discard this upload without saving anything?")) return;
+
+    try {
+      await fetch(`/api/imports/${pendingImport.id}`, { method: "DELETE" });
+    } catch (error) {
+      console.error("Error discarding import:", error);
+    }
+    setPendingImport(null);
+  };
+
   if ((isLoading || loading) && !loadingTimeout) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -551,20 +1073,34 @@ export default function Dashboard() {
             Upload Resume
           </h2>
           <p className="text-gray-600 mb-4">
-            Upload a PDF or Word document to automatically extract bullet points
+            Upload a PDF, Word (.docx), OpenDocument, RTF, HTML, Markdown or
+            text file to automatically extract bullet points
           </p>
           <div className="flex items-center gap-4">
             <label className="cursor-pointer inline-block bg-indigo-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors">
               {uploadingFile ? "Uploading..." : "Choose File"}
               <input
                 type="file"
-                accept=".pdf,.doc,.docx,application/pdf,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
-                onChange={handleFileUpload}
+                accept=".pdf,.docx,.odt,.rtf,.html,.htm,.zip,.md,.markdown,.txt,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/vnd.oasis.opendocument.text,application/rtf,text/html,text/markdown,text/plain"
+                onChange={(e) => handleFileUpload(e)}
                 disabled={uploadingFile}
                 className="hidden"
               />
             </label>
-            {uploadMessage && (
+            <label className="cursor-pointer inline-block bg-white text-indigo-600 border border-indigo-600 px-6 py-2 rounded-lg font-medium hover:bg-indigo-50 transition-colors">
+              Import LinkedIn Archive
+              <input
+                type="file"
+                accept=".zip,application/zip"
+                onChange={(e) => handleFileUpload(e, "/api/import/linkedin")}
+                disabled={uploadingFile}
+                className="hidden"
+              />
+            </label>
+            {importProgress && (
+              <span className="text-sm text-gray-600">{importProgress}</span>
+            )}
+            {uploadMessage && !importProgress && (
               <span
                 className={`text-sm ${
                   uploadMessage.includes("Error")
@@ -695,6 +1231,8 @@ export default function Dashboard() {
                           : company.city && company.state
                           ? `${company.city}, ${company.state}`
                           : "Location not specified"}
+                        {company.jobs.length > 1 &&
+                          ` · ${company.jobs.length} roles`}
                       </p>
                     </div>
                     <div className="flex gap-2">
@@ -736,23 +1274,17 @@ export default function Dashboard() {
                                 {job.title}
                               </h4>
                               <p className="text-sm text-gray-600">
-                                {new Date(job.start_date).toLocaleDateString(
-                                  "en-US",
-                                  {
-                                    month: "short",
-                                    year: "numeric",
-                                  }
+                                {formatJobDate(
+                                  job.start_date,
+                                  job.start_date_precision
                                 )}{" "}
                                 -{" "}
                                 {job.is_current
                                   ? "Present"
                                   : job.end_date
-                                  ? new Date(job.end_date).toLocaleDateString(
-                                      "en-US",
-                                      {
-                                        month: "short",
-                                        year: "numeric",
-                                      }
+                                  ? formatJobDate(
+                                      job.end_date,
+                                      job.end_date_precision || "day"
                                     )
                                   : "N/A"}
                               </p>
@@ -1042,9 +1574,10 @@ export default function Dashboard() {
                   Start Date *
                 </label>
                 <input
-                  type="date"
+                  type="text"
                   value={newJobStartDate}
                   onChange={(e) => setNewJobStartDate(e.target.value)}
+                  placeholder={JOB_DATE_PLACEHOLDER}
                   className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-gray-900"
                   required
                 />
@@ -1068,9 +1601,10 @@ export default function Dashboard() {
                     End Date
                   </label>
                   <input
-                    type="date"
+                    type="text"
                     value={newJobEndDate}
                     onChange={(e) => setNewJobEndDate(e.target.value)}
+                    placeholder={JOB_DATE_PLACEHOLDER}
                     className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-gray-900"
                   />
                 </div>
@@ -1127,9 +1661,10 @@ export default function Dashboard() {
                   Start Date *
                 </label>
                 <input
-                  type="date"
+                  type="text"
                   value={newJobStartDate}
                   onChange={(e) => setNewJobStartDate(e.target.value)}
+                  placeholder={JOB_DATE_PLACEHOLDER}
                   className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-gray-900"
                   required
                 />
@@ -1153,9 +1688,10 @@ export default function Dashboard() {
                     End Date
                   </label>
                   <input
-                    type="date"
+                    type="text"
                     value={newJobEndDate}
                     onChange={(e) => setNewJobEndDate(e.target.value)}
+                    placeholder={JOB_DATE_PLACEHOLDER}
                     className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-gray-900"
                   />
                 </div>
@@ -1186,6 +1722,343 @@ export default function Dashboard() {
           </div>
         </div>
       )}
+
+      {/* Review Import Modal */}
+      {pendingImport && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-semibold mb-1 text-gray-900">
+              Review Import
+            </h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {pendingImport.file_name ? `${pendingImport.file_name}: ` : ""}
+              Edit anything that was parsed incorrectly and uncheck rows you
+              don&apos;t want. Nothing is saved until you confirm.
+            </p>
+
+            {pendingImport.profile && (
+              <label
+                className={`flex items-start gap-2 border rounded-lg p-4 mb-4 cursor-pointer ${
+                  pendingImport.profile.include
+                    ? "border-gray-300"
+                    : "border-gray-200 opacity-50"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={pendingImport.profile.include}
+                  onChange={toggleReviewProfile}
+                  className="mt-1"
+                />
+                <div className="text-sm">
+                  <div className="font-medium text-gray-900">
+                    {pendingImport.profile.display_name || "Contact details"}
+                  </div>
+                  <div className="text-gray-600">
+                    {[
+                      pendingImport.profile.headline,
+                      pendingImport.profile.location,
+                      pendingImport.profile.email,
+                      pendingImport.profile.phone,
+                      pendingImport.profile.portfolio_url,
+                      pendingImport.profile.linkedin_url,
+                      pendingImport.profile.github_url,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </div>
+                  {pendingImport.profile.summary && (
+                    <p className="text-gray-700 mt-1">
+                      {pendingImport.profile.summary}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    Only fills in profile fields that are empty
+                  </p>
+                </div>
+              </label>
+            )}
+
+            {pendingImport.jobs.map((job, jobIndex) => (
+              <div
+                key={jobIndex}
+                className={`border rounded-lg p-4 mb-4 ${
+                  !job.include
+                    ? "border-gray-200 opacity-50"
+                    : isLowConfidence(job.provenance)
+                      ? "border-amber-400 bg-amber-50"
+                      : "border-gray-300"
+                }`}
+              >
+                <label className="flex items-center mb-3">
+                  <input
+                    type="checkbox"
+                    checked={job.include}
+                    onChange={(e) =>
+                      updateReviewJob(jobIndex, { include: e.target.checked })
+                    }
+                    className="mr-2"
+                  />
+                  <span className="text-sm font-medium text-gray-700">
+                    Import this job
+                  </span>
+                  {isLowConfidence(job.provenance) && (
+                    <span className="ml-auto text-xs text-amber-700">
+                      Check this job: its details were not all found in the
+                      document
+                    </span>
+                  )}
+                </label>
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                  <input
+                    type="text"
+                    value={job.company}
+                    onChange={(e) =>
+                      updateReviewJob(jobIndex, { company: e.target.value })
+                    }
+                    placeholder="Company"
+                    className="px-3 py-2 border border-gray-300 rounded text-gray-900"
+                  />
+                  <input
+                    type="text"
+                    value={job.title}
+                    onChange={(e) =>
+                      updateReviewJob(jobIndex, { title: e.target.value })
+                    }
+                    placeholder="Job title"
+                    className="px-3 py-2 border border-gray-300 rounded text-gray-900"
+                  />
+                  <input
+                    type="text"
+                    value={job.start_date}
+                    onChange={(e) =>
+                      updateReviewJob(jobIndex, { start_date: e.target.value })
+                    }
+                    placeholder={JOB_DATE_PLACEHOLDER}
+                    className="px-3 py-2 border border-gray-300 rounded text-gray-900"
+                  />
+                  {job.is_current ? (
+                    <span className="px-3 py-2 text-gray-600">Present</span>
+                  ) : (
+                    <input
+                      type="text"
+                      value={job.end_date || ""}
+                      onChange={(e) =>
+                        updateReviewJob(jobIndex, {
+                          end_date: e.target.value || null,
+                        })
+                      }
+                      placeholder={JOB_DATE_PLACEHOLDER}
+                      className="px-3 py-2 border border-gray-300 rounded text-gray-900"
+                    />
+                  )}
+                </div>
+                <label className="flex items-center mb-3">
+                  <input
+                    type="checkbox"
+                    checked={job.is_current}
+                    onChange={(e) =>
+                      updateReviewJob(jobIndex, {
+                        is_current: e.target.checked,
+                      })
+                    }
+                    className="mr-2"
+                  />
+                  <span className="text-sm text-gray-700">Current job</span>
+                </label>
+                {job.bullet_points.map((bp, bulletIndex) => (
+                  <div
+                    key={bulletIndex}
+                    className="flex items-start gap-2 mb-2"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={bp.include}
+                      onChange={(e) =>
+                        updateReviewBulletPoint(jobIndex, bulletIndex, {
+                          include: e.target.checked,
+                        })
+                      }
+                      className="mt-3"
+                    />
+                    <textarea
+                      value={bp.text}
+                      onChange={(e) =>
+                        updateReviewBulletPoint(jobIndex, bulletIndex, {
+                          text: e.target.value,
+                        })
+                      }
+                      rows={2}
+                      title={
+                        isLowConfidence(bp.provenance)
+                          ? "This bullet point does not match the document closely"
+                          : undefined
+                      }
+                      className={`flex-1 px-3 py-2 border rounded text-sm text-gray-900 ${
+                        isLowConfidence(bp.provenance)
+                          ? "border-amber-400 bg-amber-50"
+                          : "border-gray-300"
+                      } ${bp.include ? "" : "opacity-50"}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+
+            {pendingImport.education.length > 0 && (
+              <div className="mb-4">
+                <h4 className="text-sm font-medium text-gray-700 mb-2">
+                  Education
+                </h4>
+                {pendingImport.education.map((entry, educationIndex) => (
+                  <label
+                    key={educationIndex}
+                    className={`flex items-start gap-2 border rounded p-3 mb-2 cursor-pointer ${
+                      entry.include
+                        ? "border-gray-300"
+                        : "border-gray-200 opacity-50"
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={entry.include}
+                      onChange={() =>
+                        toggleReviewEntry("education", educationIndex)
+                      }
+                      className="mt-1"
+                    />
+                    <div className="text-sm">
+                      <div className="font-medium text-gray-900">
+                        {entry.institution}
+                      </div>
+                      <div className="text-gray-600">
+                        {[
+                          [entry.degree, entry.field]
+                            .filter(Boolean)
+                            .join(" in "),
+                          [entry.start_date, entry.end_date]
+                            .filter(Boolean)
+                            .join(" – "),
+                          entry.gpa && `GPA ${entry.gpa}`,
+                          entry.honors,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {REVIEW_SECTIONS.map(({ section, label }) =>
+              pendingImport[section].length > 0 ? (
+                <div key={section} className="mb-4">
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">
+                    {label}
+                  </h4>
+                  {pendingImport[section].map((entry, entryIndex) => {
+                    const { heading, details } = describeReviewEntry(
+                      section,
+                      entry
+                    );
+                    return (
+                      <label
+                        key={entryIndex}
+                        className={`flex items-start gap-2 border rounded p-3 mb-2 cursor-pointer ${
+                          entry.include
+                            ? "border-gray-300"
+                            : "border-gray-200 opacity-50"
+                        }`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={entry.include}
+                          onChange={() =>
+                            toggleReviewEntry(section, entryIndex)
+                          }
+                          className="mt-1"
+                        />
+                        <div className="text-sm">
+                          <div className="font-medium text-gray-900">
+                            {heading}
+                          </div>
+                          {details && (
+                            <div className="text-gray-600">{details}</div>
+                          )}
+                          {entry.bullet_points.length > 0 && (
+                            <ul className="list-disc ml-4 mt-1 text-gray-700">
+                              {entry.bullet_points.map((bp, bpIndex) => (
+                                <li key={bpIndex}>{bp.text}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      </label>
+                    );
+                  })}
+                </div>
+              ) : null
+            )}
+
+            {pendingImport.skills.length > 0 && (
+              <div className="mb-4">
+                <h4 className="text-sm font-medium text-gray-700 mb-2">
+                  Skills
+                </h4>
+                <div className="flex flex-wrap gap-2">
+                  {pendingImport.skills.map((skill, skillIndex) => (
+                    <label
+                      key={skillIndex}
+                      title={
+                        isLowConfidence(skill.provenance)
+                          ? "Not found in the document"
+                          : undefined
+                      }
+                      className={`flex items-center px-3 py-1 rounded-full text-sm cursor-pointer ${
+                        !skill.include
+                          ? "bg-gray-100 text-gray-400 line-through"
+                          : isLowConfidence(skill.provenance)
+                            ? "bg-amber-100 text-amber-800"
+                            : "bg-indigo-100 text-indigo-700"
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={skill.include}
+                        onChange={() => toggleReviewSkill(skillIndex)}
+                        className="mr-1"
+                      />
+                      {skill.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={handleCommitImport}
+                disabled={committingImport}
+                className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50"
+              >
+                {committingImport
+                  ? importProgress || "Saving..."
+                  : "Import Selected"}
+              </button>
+              <button
+                type="button"
+                onClick={handleDiscardImport}
+                disabled={committingImport}
+                className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded hover:bg-gray-400 transition-colors"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,9 @@
+// Admins are listed by Auth0 user ID in ADMIN_AUTH0_IDS, separated by commas.
+// Nobody is an admin when it is unset.
+export function isAdmin(auth0Id: string): boolean {
+  const admins = (process.env.ADMIN_AUTH0_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return admins.includes(auth0Id);
+}
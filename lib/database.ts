@@ -1,4 +1,9 @@
-import { db } from "./db";
+import { db, OrderBy } from "./db";
+import type { ParsedResume, ResumeParserName } from "./resume-parser";
+import type { StorageBackendName } from "./storage";
+import type { ImportSummary } from "./resume-import";
+import { Provenance, toProvenanceColumns } from "./provenance";
+import type { DatePrecision, PartialDate } from "./dates";
 
 export interface User {
   id: number;
@@ -7,11 +12,46 @@ export interface User {
   updated_at: Date;
 }
 
+// Name and contact details shown in the header of every resume. A user has
+// at most one profile.
+export interface Profile {
+  id: number;
+  user_id: number;
+  display_name: string | null;
+  headline: string | null;
+  email: string | null;
+  phone: string | null;
+  location: string | null;
+  github_url: string | null;
+  linkedin_url: string | null;
+  portfolio_url: string | null;
+  summary: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ProfileFields {
+  display_name: string | null;
+  headline: string | null;
+  email: string | null;
+  phone: string | null;
+  location: string | null;
+  github_url: string | null;
+  linkedin_url: string | null;
+  portfolio_url: string | null;
+  summary: string | null;
+}
+
 export interface BulletPoint {
   id?: number;
   user_id: number;
   content: string;
   job_id: number;
+  import_id?: number | null;
+  // Where an imported bullet point was found; see lib/provenance.ts
+  source_start?: number | null;
+  source_end?: number | null;
+  confidence?: number | null;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -23,6 +63,7 @@ export interface Company {
   city: string | null;
   state: string | null;
   is_remote: boolean;
+  import_id: number | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -32,9 +73,134 @@ export interface Job {
   user_id: number;
   company_id: number;
   title: string;
+  // The first day of the year or month when the precision is coarser than a
+  // day; see lib/dates.ts
   start_date: Date;
+  start_date_precision: DatePrecision;
   end_date: Date | null;
+  end_date_precision: DatePrecision | null;
   is_current: boolean;
+  import_id: number | null;
+  source_start: number | null;
+  source_end: number | null;
+  confidence: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A company with the roles held there, most recent first. Promotions and
+// transfers are several jobs at one company.
+export interface CompanyWithRoles extends Company {
+  roles: Job[];
+}
+
+export interface Education {
+  id: number;
+  user_id: number;
+  institution: string;
+  degree: string | null;
+  field: string | null;
+  start_date: Date | null;
+  end_date: Date | null;
+  gpa: string | null;
+  honors: string | null;
+  import_id: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Columns set when creating or updating an education entry. Dates are
+// "YYYY-MM-DD" strings.
+export interface EducationFields {
+  institution: string;
+  degree: string | null;
+  field: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  gpa: string | null;
+  honors: string | null;
+}
+
+export interface Project {
+  id: number;
+  user_id: number;
+  name: string;
+  role: string | null;
+  url: string | null;
+  start_date: Date | null;
+  end_date: Date | null;
+  import_id: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ProjectFields {
+  name: string;
+  role: string | null;
+  url: string | null;
+  start_date: string | null;
+  end_date: string | null;
+}
+
+export interface Certification {
+  id: number;
+  user_id: number;
+  name: string;
+  issuer: string | null;
+  credential_id: string | null;
+  url: string | null;
+  issue_date: Date | null;
+  expiry_date: Date | null;
+  import_id: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CertificationFields {
+  name: string;
+  issuer: string | null;
+  credential_id: string | null;
+  url: string | null;
+  issue_date: string | null;
+  expiry_date: string | null;
+}
+
+export type PublicationKind = "publication" | "talk";
+
+export interface Publication {
+  id: number;
+  user_id: number;
+  kind: PublicationKind;
+  title: string;
+  venue: string | null;
+  url: string | null;
+  published_on: Date | null;
+  import_id: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PublicationFields {
+  kind: PublicationKind;
+  title: string;
+  venue: string | null;
+  url: string | null;
+  published_on: string | null;
+}
+
+// Projects, certifications and publications have their own bullet points,
+// kept apart from job bullet points
+export type SectionType = "project" | "certification" | "publication";
+
+// Exactly one of the three ids is set
+export interface SectionBulletPoint {
+  id: number;
+  user_id: number;
+  project_id: number | null;
+  certification_id: number | null;
+  publication_id: number | null;
+  content: string;
+  import_id: number | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -43,6 +209,115 @@ export interface Skill {
   id: number;
   user_id: number;
   name: string;
+  import_id: number | null;
+  source_start: number | null;
+  source_end: number | null;
+  confidence: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SavedResume {
+  id: number;
+  user_id: number;
+  name: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SavedResumeJob {
+  resume_id: number;
+  job_id: number;
+  position: number;
+  is_hidden: boolean;
+  title_override: string | null;
+  created_at?: Date;
+}
+
+export interface SavedResumeBulletPoint {
+  resume_id: number;
+  bullet_point_id: number;
+  position: number;
+  content_override: string | null;
+  created_at?: Date;
+}
+
+// An uploaded file, kept so it can be parsed again. The file itself is in
+// document storage under `storage_key`.
+export interface Document {
+  id: number;
+  user_id: number;
+  file_name: string;
+  content_type: string;
+  byte_size: number;
+  content_hash: string;
+  storage_backend: StorageBackendName;
+  storage_key: string;
+  extracted_text: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A document without its extracted text, for listing
+export type DocumentSummary = Omit<Document, "extracted_text">;
+
+// extracting -> parsing -> pending (awaiting review) -> saving -> committed,
+// or failed. The first two and saving run in the background.
+export type ResumeImportStatus =
+  "extracting" | "parsing" | "pending" | "saving" | "committed" | "failed";
+
+// Counts reported while an import runs. Chunks are parts of a long resume
+// parsed separately; jobs and bullet points are found while parsing and
+// written while saving.
+export interface ResumeImportProgress {
+  chunksParsed?: number;
+  chunkCount?: number;
+  jobCount?: number;
+  bulletPointCount?: number;
+  skillCount?: number;
+  jobsSaved?: number;
+  bulletPointsSaved?: number;
+}
+
+export interface ResumeImport {
+  id: number;
+  user_id: number;
+  status: ResumeImportStatus;
+  file_name: string | null;
+  // The uploaded document; null for older imports or once it is deleted
+  document_id: number | null;
+  // The text the import was parsed from, which provenance spans point into.
+  // The document's own text is replaced when it is parsed again.
+  extracted_text: string | null;
+  parser: ResumeParserName | null;
+  model: string | null;
+  parsed_resume: ParsedResume | null;
+  progress: ResumeImportProgress;
+  error: string | null;
+  summary: ImportSummary | null;
+  expires_at: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A user's token bucket and daily count for one action, as reported by the
+// consume_rate_limit function
+export interface RateLimitState {
+  allowed: boolean;
+  // Seconds until a request would be allowed; 0 when it is
+  retry_after: number;
+  used_today: number;
+  tokens: number;
+}
+
+// An LLM parse result kept so the same text is not sent to the model twice
+export interface ParseCacheEntry {
+  id: number;
+  // SHA-256 of the sanitized text, the prompts and schema, and the model
+  cache_key: string;
+  model: string;
+  parsed_resume: ParsedResume;
+  expires_at: string;
   created_at: Date;
   updated_at: Date;
 }
@@ -70,14 +345,48 @@ export async function getOrCreateUser(auth0Id: string): Promise<User> {
   return user;
 }
 
-// Bullet point operations
+// Profile operations
+export async function getProfileByUserId(
+  userId: number
+): Promise<Profile | null> {
+  const result = await db.selectOne<Profile>("profiles", { user_id: userId });
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+// Creates the user's profile or replaces its fields
+export async function saveProfile(
+  userId: number,
+  fields: ProfileFields
+): Promise<Profile> {
+  // Use Supabase directly for the upsert
+  const { supabase } = await import("./db");
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .upsert({ ...fields, user_id: userId }, { onConflict: "user_id" })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Profile;
+}
+
+// Bullet point operations. Bullet points are listed newest first. An import
+// inserts a job's bullet points in one statement, which gives them all the
+// same created_at, so within one import they keep the resume's order by id.
+const BULLET_POINT_ORDER: OrderBy[] = [
+  { column: "created_at", direction: "desc" },
+  { column: "id", direction: "asc" },
+];
+
 export async function getBulletPointsByUserId(
   userId: number
 ): Promise<BulletPoint[]> {
   const result = await db.selectMany<BulletPoint>(
     "bullet_points",
     { user_id: userId },
-    { column: "created_at", direction: "desc" }
+    BULLET_POINT_ORDER
   );
   if (result.error) throw result.error;
   return result.data;
@@ -90,7 +399,7 @@ export async function getBulletPointsByJobId(
   const result = await db.selectMany<BulletPoint>(
     "bullet_points",
     { job_id: jobId, user_id: userId },
-    { column: "created_at", direction: "desc" }
+    BULLET_POINT_ORDER
   );
   if (result.error) throw result.error;
   return result.data;
@@ -122,6 +431,27 @@ export async function createBulletPoint(
   return result.data;
 }
 
+// Creates the bullet points in one request, returned in the same order
+export async function createBulletPoints(
+  userId: number,
+  jobId: number,
+  bulletPoints: { content: string; provenance?: Provenance | null }[],
+  importId: number | null = null
+): Promise<BulletPoint[]> {
+  const result = await db.insertMany<BulletPoint>(
+    "bullet_points",
+    bulletPoints.map(({ content, provenance }) => ({
+      user_id: userId,
+      job_id: jobId,
+      content,
+      import_id: importId,
+      ...toProvenanceColumns(provenance),
+    }))
+  );
+  if (result.error) throw result.error;
+  return result.data;
+}
+
 export async function updateBulletPoint(
   id: number,
   userId: number,
@@ -168,12 +498,44 @@ export async function getCompanyById(
   return result.data;
 }
 
+// Current roles first, then by start date. Jobs are fetched newest first, and
+// the sort is stable.
+function orderRoles(jobs: Job[]): Job[] {
+  return [...jobs].sort((a, b) => Number(b.is_current) - Number(a.is_current));
+}
+
+export async function getCompaniesWithRoles(
+  userId: number
+): Promise<CompanyWithRoles[]> {
+  const [companies, jobs] = await Promise.all([
+    getCompaniesByUserId(userId),
+    getJobsByUserId(userId),
+  ]);
+  return companies.map((company) => ({
+    ...company,
+    roles: orderRoles(jobs.filter((job) => job.company_id === company.id)),
+  }));
+}
+
+export async function getCompanyWithRoles(
+  id: number,
+  userId: number
+): Promise<CompanyWithRoles | null> {
+  const company = await getCompanyById(id, userId);
+  if (!company) return null;
+  return {
+    ...company,
+    roles: orderRoles(await getJobsByCompanyId(id, userId)),
+  };
+}
+
 export async function createCompany(
   userId: number,
   name: string,
   city: string | null = null,
   state: string | null = null,
-  isRemote: boolean = false
+  isRemote: boolean = false,
+  importId: number | null = null
 ): Promise<Company> {
   const result = await db.insert<Company>("companies", {
     user_id: userId,
@@ -181,6 +543,7 @@ export async function createCompany(
     city,
     state,
     is_remote: isRemote,
+    import_id: importId,
   });
   if (result.error) throw result.error;
   return result.data;
@@ -249,17 +612,23 @@ export async function createJob(
   userId: number,
   companyId: number,
   title: string,
-  startDate: Date,
-  endDate: Date | null = null,
-  isCurrent: boolean = false
+  startDate: PartialDate,
+  endDate: PartialDate | null = null,
+  isCurrent: boolean = false,
+  importId: number | null = null,
+  provenance: Provenance | null = null
 ): Promise<Job> {
   const result = await db.insert<Job>("jobs", {
     user_id: userId,
     company_id: companyId,
     title,
-    start_date: startDate,
-    end_date: endDate,
+    start_date: new Date(startDate.date),
+    start_date_precision: startDate.precision,
+    end_date: endDate ? new Date(endDate.date) : null,
+    end_date_precision: endDate?.precision ?? null,
     is_current: isCurrent,
+    import_id: importId,
+    ...toProvenanceColumns(provenance),
   });
   if (result.error) throw result.error;
   return result.data;
@@ -269,13 +638,20 @@ export async function updateJob(
   id: number,
   userId: number,
   title: string,
-  startDate: Date,
-  endDate: Date | null,
+  startDate: PartialDate,
+  endDate: PartialDate | null,
   isCurrent: boolean
 ): Promise<Job | null> {
   const result = await db.update<Job>(
     "jobs",
-    { title, start_date: startDate, end_date: endDate, is_current: isCurrent },
+    {
+      title,
+      start_date: new Date(startDate.date),
+      start_date_precision: startDate.precision,
+      end_date: endDate ? new Date(endDate.date) : null,
+      end_date_precision: endDate?.precision ?? null,
+      is_current: isCurrent,
+    },
     { id, user_id: userId }
   );
   if (result.error) throw result.error;
@@ -288,112 +664,1007 @@ export async function deleteJob(id: number, userId: number): Promise<boolean> {
   return result.data.count > 0;
 }
 
-// Skill operations
-export async function getSkillsByUserId(userId: number): Promise<Skill[]> {
-  const result = await db.selectMany<Skill>(
-    "skills",
+// Education operations
+export async function getEducationByUserId(
+  userId: number
+): Promise<Education[]> {
+  const result = await db.selectMany<Education>(
+    "education",
     { user_id: userId },
-    { column: "name", direction: "asc" }
+    { column: "end_date", direction: "desc" }
   );
   if (result.error) throw result.error;
   return result.data;
 }
 
-export async function getSkillById(
+export async function getEducationById(
   id: number,
   userId: number
-): Promise<Skill | null> {
-  const result = await db.selectOne<Skill>("skills", { id, user_id: userId });
+): Promise<Education | null> {
+  const result = await db.selectOne<Education>("education", {
+    id,
+    user_id: userId,
+  });
   if (result.error) throw result.error;
   return result.data;
 }
 
-export async function getOrCreateSkill(
+function toEducationRow(fields: EducationFields): Partial<Education> {
+  return {
+    ...fields,
+    start_date: fields.start_date ? new Date(fields.start_date) : null,
+    end_date: fields.end_date ? new Date(fields.end_date) : null,
+  };
+}
+
+export async function createEducation(
   userId: number,
-  name: string
-): Promise<Skill> {
-  // Try to find existing skill
-  const result = await db.selectOne<Skill>("skills", {
+  fields: EducationFields,
+  importId: number | null = null
+): Promise<Education> {
+  const result = await db.insert<Education>("education", {
+    ...toEducationRow(fields),
     user_id: userId,
-    name: name,
+    import_id: importId,
   });
+  if (result.error) throw result.error;
+  return result.data;
+}
 
-  if (result.data) {
-    return result.data;
-  }
+export async function updateEducation(
+  id: number,
+  userId: number,
+  fields: EducationFields
+): Promise<Education | null> {
+  const result = await db.update<Education>(
+    "education",
+    toEducationRow(fields),
+    { id, user_id: userId }
+  );
+  if (result.error) throw result.error;
+  return result.data;
+}
 
-  // Create new skill if not found
-  const insertResult = await db.insert<Skill>("skills", {
-    user_id: userId,
-    name: name,
-  });
+export async function deleteEducation(
+  id: number,
+  userId: number
+): Promise<boolean> {
+  const result = await db.delete("education", { id, user_id: userId });
+  if (result.error) throw result.error;
+  return result.data.count > 0;
+}
 
-  if (insertResult.error) throw insertResult.error;
-  return insertResult.data;
+// Project, certification and publication operations. Fields carry dates as
+// "YYYY-MM-DD" strings, converted the same way as education dates.
+function toDate(value: string | null): Date | null {
+  return value ? new Date(value) : null;
 }
 
-export async function createSkill(userId: number, name: string): Promise<Skill> {
-  const result = await db.insert<Skill>("skills", {
+export async function getProjectsByUserId(userId: number): Promise<Project[]> {
+  const result = await db.selectMany<Project>(
+    "projects",
+    { user_id: userId },
+    { column: "start_date", direction: "desc" }
+  );
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function getProjectById(
+  id: number,
+  userId: number
+): Promise<Project | null> {
+  const result = await db.selectOne<Project>("projects", {
+    id,
     user_id: userId,
-    name,
   });
   if (result.error) throw result.error;
   return result.data;
 }
 
-export async function deleteSkill(id: number, userId: number): Promise<boolean> {
-  const result = await db.delete("skills", { id, user_id: userId });
-  if (result.error) throw result.error;
-  return result.data.count > 0;
+function toProjectRow(fields: ProjectFields): Partial<Project> {
+  return {
+    ...fields,
+    start_date: toDate(fields.start_date),
+    end_date: toDate(fields.end_date),
+  };
 }
 
-// Bullet Point Skills junction operations
-export async function linkBulletPointToSkill(
-  bulletPointId: number,
-  skillId: number
-): Promise<void> {
-  const result = await db.insert("bullet_point_skills", {
-    bullet_point_id: bulletPointId,
-    skill_id: skillId,
+export async function createProject(
+  userId: number,
+  fields: ProjectFields,
+  importId: number | null = null
+): Promise<Project> {
+  const result = await db.insert<Project>("projects", {
+    ...toProjectRow(fields),
+    user_id: userId,
+    import_id: importId,
   });
   if (result.error) throw result.error;
+  return result.data;
 }
 
-export async function getSkillsForBulletPoint(
-  bulletPointId: number
-): Promise<Skill[]> {
-  // Use Supabase directly for JOIN query
-  const { supabase } = await import("./db");
-  
-  const { data, error } = await supabase
-    .from("bullet_point_skills")
-    .select(`
-      skill_id,
-      skills (
-        id,
-        user_id,
-        name,
-        created_at,
-        updated_at
-      )
-    `)
-    .eq("bullet_point_id", bulletPointId);
+export async function updateProject(
+  id: number,
+  userId: number,
+  fields: ProjectFields
+): Promise<Project | null> {
+  const result = await db.update<Project>("projects", toProjectRow(fields), {
+    id,
+    user_id: userId,
+  });
+  if (result.error) throw result.error;
+  return result.data;
+}
 
-  if (error) throw error;
+export async function deleteProject(
+  id: number,
+  userId: number
+): Promise<boolean> {
+  const result = await db.delete("projects", { id, user_id: userId });
+  if (result.error) throw result.error;
+  return result.data.count > 0;
+}
 
-  // Extract skills from the nested response
-  return (data || [])
-    .map((item: any) => item.skills)
-    .filter((skill: any) => skill !== null) as Skill[];
+export async function getCertificationsByUserId(
+  userId: number
+): Promise<Certification[]> {
+  const result = await db.selectMany<Certification>(
+    "certifications",
+    { user_id: userId },
+    { column: "issue_date", direction: "desc" }
+  );
+  if (result.error) throw result.error;
+  return result.data;
 }
 
-export async function unlinkBulletPointFromSkill(
-  bulletPointId: number,
-  skillId: number
-): Promise<void> {
-  const result = await db.delete("bullet_point_skills", {
-    bullet_point_id: bulletPointId,
-    skill_id: skillId,
+export async function getCertificationById(
+  id: number,
+  userId: number
+): Promise<Certification | null> {
+  const result = await db.selectOne<Certification>("certifications", {
+    id,
+    user_id: userId,
   });
   if (result.error) throw result.error;
+  return result.data;
+}
+
+function toCertificationRow(
+  fields: CertificationFields
+): Partial<Certification> {
+  return {
+    ...fields,
+    issue_date: toDate(fields.issue_date),
+    expiry_date: toDate(fields.expiry_date),
+  };
+}
+
+export async function createCertification(
+  userId: number,
+  fields: CertificationFields,
+  importId: number | null = null
+): Promise<Certification> {
+  const result = await db.insert<Certification>("certifications", {
+    ...toCertificationRow(fields),
+    user_id: userId,
+    import_id: importId,
+  });
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function updateCertification(
+  id: number,
+  userId: number,
+  fields: CertificationFields
+): Promise<Certification | null> {
+  const result = await db.update<Certification>(
+    "certifications",
+    toCertificationRow(fields),
+    { id, user_id: userId }
+  );
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function deleteCertification(
+  id: number,
+  userId: number
+): Promise<boolean> {
+  const result = await db.delete("certifications", { id, user_id: userId });
+  if (result.error) throw result.error;
+  return result.data.count > 0;
+}
+
+export async function getPublicationsByUserId(
+  userId: number
+): Promise<Publication[]> {
+  const result = await db.selectMany<Publication>(
+    "publications",
+    { user_id: userId },
+    { column: "published_on", direction: "desc" }
+  );
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function getPublicationById(
+  id: number,
+  userId: number
+): Promise<Publication | null> {
+  const result = await db.selectOne<Publication>("publications", {
+    id,
+    user_id: userId,
+  });
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+function toPublicationRow(fields: PublicationFields): Partial<Publication> {
+  return { ...fields, published_on: toDate(fields.published_on) };
+}
+
+export async function createPublication(
+  userId: number,
+  fields: PublicationFields,
+  importId: number | null = null
+): Promise<Publication> {
+  const result = await db.insert<Publication>("publications", {
+    ...toPublicationRow(fields),
+    user_id: userId,
+    import_id: importId,
+  });
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function updatePublication(
+  id: number,
+  userId: number,
+  fields: PublicationFields
+): Promise<Publication | null> {
+  const result = await db.update<Publication>(
+    "publications",
+    toPublicationRow(fields),
+    { id, user_id: userId }
+  );
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function deletePublication(
+  id: number,
+  userId: number
+): Promise<boolean> {
+  const result = await db.delete("publications", { id, user_id: userId });
+  if (result.error) throw result.error;
+  return result.data.count > 0;
+}
+
+// Section bullet point operations
+export async function getSectionBulletPointsByUserId(
+  userId: number
+): Promise<SectionBulletPoint[]> {
+  const result = await db.selectMany<SectionBulletPoint>(
+    "section_bullet_points",
+    { user_id: userId },
+    { column: "id", direction: "asc" }
+  );
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function getSectionBulletPoints(
+  userId: number,
+  sectionType: SectionType,
+  sectionId: number
+): Promise<SectionBulletPoint[]> {
+  const result = await db.selectMany<SectionBulletPoint>(
+    "section_bullet_points",
+    { user_id: userId, [`${sectionType}_id`]: sectionId },
+    { column: "id", direction: "asc" }
+  );
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+// Creates the bullet points in one request, returned in the same order
+export async function createSectionBulletPoints(
+  userId: number,
+  sectionType: SectionType,
+  sectionId: number,
+  contents: string[],
+  importId: number | null = null
+): Promise<SectionBulletPoint[]> {
+  const result = await db.insertMany<SectionBulletPoint>(
+    "section_bullet_points",
+    contents.map((content) => ({
+      user_id: userId,
+      [`${sectionType}_id`]: sectionId,
+      content,
+      import_id: importId,
+    }))
+  );
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function deleteSectionBulletPoints(
+  userId: number,
+  sectionType: SectionType,
+  sectionId: number
+): Promise<void> {
+  const result = await db.delete("section_bullet_points", {
+    user_id: userId,
+    [`${sectionType}_id`]: sectionId,
+  });
+  if (result.error) throw result.error;
+}
+
+export async function linkSectionBulletPointsToSkills(
+  links: { bulletPointId: number; skillId: number }[]
+): Promise<void> {
+  const result = await db.insertMany(
+    "section_bullet_point_skills",
+    links.map((link) => ({
+      section_bullet_point_id: link.bulletPointId,
+      skill_id: link.skillId,
+    }))
+  );
+  if (result.error) throw result.error;
+}
+
+export async function getSkillsForSectionBulletPoints(
+  bulletPointIds: number[]
+): Promise<Map<number, Skill[]>> {
+  const skillsByBulletPoint = new Map<number, Skill[]>();
+  if (bulletPointIds.length === 0) return skillsByBulletPoint;
+
+  // Use Supabase directly for JOIN query
+  const { supabase } = await import("./db");
+
+  for (const batch of batchIds(bulletPointIds)) {
+    const { data, error } = await supabase
+      .from("section_bullet_point_skills")
+      .select(
+        `
+        section_bullet_point_id,
+        skills (
+          id,
+          user_id,
+          name,
+          import_id,
+          source_start,
+          source_end,
+          confidence,
+          created_at,
+          updated_at
+        )
+      `
+      )
+      .in("section_bullet_point_id", batch);
+
+    if (error) throw error;
+
+    for (const item of (data || []) as any[]) {
+      if (!item.skills) continue;
+      const skills =
+        skillsByBulletPoint.get(item.section_bullet_point_id) || [];
+      skills.push(item.skills as Skill);
+      skillsByBulletPoint.set(item.section_bullet_point_id, skills);
+    }
+  }
+
+  return skillsByBulletPoint;
+}
+
+// Skill operations
+export async function getSkillsByUserId(userId: number): Promise<Skill[]> {
+  const result = await db.selectMany<Skill>(
+    "skills",
+    { user_id: userId },
+    { column: "name", direction: "asc" }
+  );
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function getSkillById(
+  id: number,
+  userId: number
+): Promise<Skill | null> {
+  const result = await db.selectOne<Skill>("skills", { id, user_id: userId });
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function getOrCreateSkill(
+  userId: number,
+  name: string
+): Promise<Skill> {
+  // Try to find existing skill
+  const result = await db.selectOne<Skill>("skills", {
+    user_id: userId,
+    name: name,
+  });
+
+  if (result.data) {
+    return result.data;
+  }
+
+  // Create new skill if not found
+  const insertResult = await db.insert<Skill>("skills", {
+    user_id: userId,
+    name: name,
+  });
+
+  if (insertResult.error) throw insertResult.error;
+  return insertResult.data;
+}
+
+// Looks up every name with one query and creates the missing skills with
+// one more. Names match existing skills case-insensitively. Returns one skill
+// per distinct name, in the order given.
+// Skills created for an import record it, with their provenance keyed by
+// lowercased name
+export async function getOrCreateSkills(
+  userId: number,
+  names: string[],
+  importId: number | null = null,
+  provenance: Record<string, Provenance> = {}
+): Promise<Skill[]> {
+  const byName = new Map<string, Skill>();
+  for (const skill of await getSkillsByUserId(userId)) {
+    if (!byName.has(skill.name.toLowerCase())) {
+      byName.set(skill.name.toLowerCase(), skill);
+    }
+  }
+
+  const wanted = new Map<string, string>();
+  for (const name of names) {
+    if (!wanted.has(name.toLowerCase())) wanted.set(name.toLowerCase(), name);
+  }
+
+  const missing = Array.from(wanted.entries())
+    .filter(([key]) => !byName.has(key))
+    .map(([, name]) => name);
+  const result = await db.insertMany<Skill>(
+    "skills",
+    missing.map((name) => ({
+      user_id: userId,
+      name,
+      import_id: importId,
+      ...toProvenanceColumns(provenance[name.toLowerCase()]),
+    }))
+  );
+  if (result.error) throw result.error;
+  for (const skill of result.data) {
+    byName.set(skill.name.toLowerCase(), skill);
+  }
+
+  return Array.from(wanted.keys()).map((key) => byName.get(key)!);
+}
+
+export async function createSkill(userId: number, name: string): Promise<Skill> {
+  const result = await db.insert<Skill>("skills", {
+    user_id: userId,
+    name,
+  });
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function deleteSkill(id: number, userId: number): Promise<boolean> {
+  const result = await db.delete("skills", { id, user_id: userId });
+  if (result.error) throw result.error;
+  return result.data.count > 0;
+}
+
+// Bullet Point Skills junction operations
+export async function linkBulletPointToSkill(
+  bulletPointId: number,
+  skillId: number
+): Promise<void> {
+  const result = await db.insert("bullet_point_skills", {
+    bullet_point_id: bulletPointId,
+    skill_id: skillId,
+  });
+  if (result.error) throw result.error;
+}
+
+export async function linkBulletPointsToSkills(
+  links: { bulletPointId: number; skillId: number }[]
+): Promise<void> {
+  const result = await db.insertMany(
+    "bullet_point_skills",
+    links.map((link) => ({
+      bullet_point_id: link.bulletPointId,
+      skill_id: link.skillId,
+    }))
+  );
+  if (result.error) throw result.error;
+}
+
+export async function getSkillsForBulletPoint(
+  bulletPointId: number
+): Promise<Skill[]> {
+  // Use Supabase directly for JOIN query
+  const { supabase } = await import("./db");
+  
+  const { data, error } = await supabase
+    .from("bullet_point_skills")
+    .select(`
+      skill_id,
+      skills (
+        id,
+        user_id,
+        name,
+        import_id,
+        source_start,
+        source_end,
+        confidence,
+        created_at,
+        updated_at
+      )
+    `)
+    .eq("bullet_point_id", bulletPointId);
+
+  if (error) throw error;
+
+  // Extract skills from the nested response
+  return (data || [])
+    .map((item: any) => item.skills)
+    .filter((skill: any) => skill !== null) as Skill[];
+}
+
+export async function unlinkBulletPointFromSkill(
+  bulletPointId: number,
+  skillId: number
+): Promise<void> {
+  const result = await db.delete("bullet_point_skills", {
+    bullet_point_id: bulletPointId,
+    skill_id: skillId,
+  });
+  if (result.error) throw result.error;
+}
+
+// PostgREST sends `.in()` filters in the URL, so long id lists are queried in
+// batches to stay under URL length limits
+const IN_FILTER_BATCH_SIZE = 200;
+
+function batchIds(ids: number[]): number[][] {
+  const batches: number[][] = [];
+  for (let i = 0; i < ids.length; i += IN_FILTER_BATCH_SIZE) {
+    batches.push(ids.slice(i, i + IN_FILTER_BATCH_SIZE));
+  }
+  return batches;
+}
+
+export async function getSkillsForBulletPoints(
+  bulletPointIds: number[]
+): Promise<Map<number, Skill[]>> {
+  const skillsByBulletPoint = new Map<number, Skill[]>();
+  if (bulletPointIds.length === 0) return skillsByBulletPoint;
+
+  // Use Supabase directly for JOIN query
+  const { supabase } = await import("./db");
+
+  for (const batch of batchIds(bulletPointIds)) {
+    const { data, error } = await supabase
+      .from("bullet_point_skills")
+      .select(`
+        bullet_point_id,
+        skills (
+          id,
+          user_id,
+          name,
+          import_id,
+          source_start,
+          source_end,
+          confidence,
+          created_at,
+          updated_at
+        )
+      `)
+      .in("bullet_point_id", batch);
+
+    if (error) throw error;
+
+    for (const item of (data || []) as any[]) {
+      if (!item.skills) continue;
+      const skills = skillsByBulletPoint.get(item.bullet_point_id) || [];
+      skills.push(item.skills as Skill);
+      skillsByBulletPoint.set(item.bullet_point_id, skills);
+    }
+  }
+
+  return skillsByBulletPoint;
+}
+
+// Saved resume operations
+export async function getSavedResumesByUserId(
+  userId: number
+): Promise<SavedResume[]> {
+  const result = await db.selectMany<SavedResume>(
+    "resumes",
+    { user_id: userId },
+    { column: "updated_at", direction: "desc" }
+  );
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function getSavedResumeById(
+  id: number,
+  userId: number
+): Promise<SavedResume | null> {
+  const result = await db.selectOne<SavedResume>("resumes", {
+    id,
+    user_id: userId,
+  });
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+// The jobs and bullet points chosen for a resume, as stored in resume_jobs
+// and resume_bullet_points. Callers must verify that every job and bullet
+// point belongs to the resume's user.
+export interface SavedResumeSelectionRows {
+  jobs: Omit<SavedResumeJob, "resume_id" | "created_at">[];
+  bulletPoints: Omit<SavedResumeBulletPoint, "resume_id" | "created_at">[];
+}
+
+// Creates the resume and its selection in one transaction, so a failure
+// leaves no empty resume behind. Returns the new resume's id.
+export async function createSavedResume(
+  userId: number,
+  name: string,
+  selection: SavedResumeSelectionRows
+): Promise<number> {
+  // Use Supabase directly for the database function
+  const { supabase } = await import("./db");
+
+  const { data, error } = await supabase.rpc("create_resume", {
+    p_user_id: userId,
+    p_name: name,
+    p_jobs: selection.jobs,
+    p_bullet_points: selection.bulletPoints,
+  });
+
+  if (error) throw error;
+  return data as number;
+}
+
+// Renames the resume and, when a selection is given, replaces its selection
+// in the same transaction. Returns false when the resume is not the user's.
+export async function updateSavedResume(
+  id: number,
+  userId: number,
+  name: string,
+  selection: SavedResumeSelectionRows | null
+): Promise<boolean> {
+  // Use Supabase directly for the database function
+  const { supabase } = await import("./db");
+
+  const { data, error } = await supabase.rpc("update_resume", {
+    p_resume_id: id,
+    p_user_id: userId,
+    p_name: name,
+    p_jobs: selection?.jobs ?? null,
+    p_bullet_points: selection?.bulletPoints ?? null,
+  });
+
+  if (error) throw error;
+  return data === true;
+}
+
+export async function deleteSavedResume(
+  id: number,
+  userId: number
+): Promise<boolean> {
+  const result = await db.delete("resumes", { id, user_id: userId });
+  if (result.error) throw result.error;
+  return result.data.count > 0;
+}
+
+export async function getSavedResumeJobs(
+  resumeId: number
+): Promise<SavedResumeJob[]> {
+  const result = await db.selectMany<SavedResumeJob>(
+    "resume_jobs",
+    { resume_id: resumeId },
+    { column: "position", direction: "asc" }
+  );
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function getSavedResumeBulletPoints(
+  resumeId: number
+): Promise<SavedResumeBulletPoint[]> {
+  const result = await db.selectMany<SavedResumeBulletPoint>(
+    "resume_bullet_points",
+    { resume_id: resumeId },
+    { column: "position", direction: "asc" }
+  );
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+// Resume import operations. Imports start in the "extracting" stage; the
+// parsed resume is filled in when parsing finishes.
+export async function createResumeImport(
+  userId: number,
+  fileName: string | null,
+  expiresAt: Date,
+  documentId: number | null = null
+): Promise<ResumeImport> {
+  const result = await db.insert<ResumeImport>("imports", {
+    user_id: userId,
+    status: "extracting",
+    file_name: fileName,
+    document_id: documentId,
+    extracted_text: null,
+    parsed_resume: null,
+    progress: {},
+    expires_at: expiresAt.toISOString(),
+  });
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function getResumeImportById(
+  id: number,
+  userId: number
+): Promise<ResumeImport | null> {
+  const result = await db.selectOne<ResumeImport>("imports", {
+    id,
+    user_id: userId,
+  });
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+type ResumeImportChanges = Partial<
+  Pick<
+    ResumeImport,
+    | "extracted_text"
+    | "parsed_resume"
+    | "parser"
+    | "model"
+    | "progress"
+    | "error"
+    | "summary"
+    | "expires_at"
+  >
+>;
+
+// Only moves an import that is still in `fromStatus`, so two concurrent
+// commits of the same import cannot both succeed. Returns null when the
+// import was not in `fromStatus`.
+export async function updateResumeImportStatus(
+  id: number,
+  userId: number,
+  fromStatus: ResumeImportStatus,
+  toStatus: ResumeImportStatus,
+  changes: ResumeImportChanges = {}
+): Promise<ResumeImport | null> {
+  const result = await db.update<ResumeImport>(
+    "imports",
+    { ...changes, status: toStatus },
+    { id, user_id: userId, status: fromStatus }
+  );
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function updateResumeImportProgress(
+  id: number,
+  userId: number,
+  progress: ResumeImportProgress
+): Promise<void> {
+  const result = await db.update<ResumeImport>(
+    "imports",
+    { progress },
+    { id, user_id: userId }
+  );
+  if (result.error) throw result.error;
+}
+
+export async function deleteResumeImport(
+  id: number,
+  userId: number
+): Promise<boolean> {
+  const result = await db.delete("imports", { id, user_id: userId });
+  if (result.error) throw result.error;
+  return result.data.count > 0;
+}
+
+// Removes imports that were never confirmed, including failed ones. Committed
+// imports are kept as a record of what was imported.
+export async function deleteExpiredResumeImports(): Promise<number> {
+  // Use Supabase directly for the range filter
+  const { supabase } = await import("./db");
+
+  const { error, count } = await supabase
+    .from("imports")
+    .delete({ count: "exact" })
+    .neq("status", "committed")
+    .lt("expires_at", new Date().toISOString());
+
+  if (error) throw error;
+  return count || 0;
+}
+
+// Document operations
+export async function getDocumentsByUserId(
+  userId: number
+): Promise<DocumentSummary[]> {
+  // Use Supabase directly to leave out the extracted text
+  const { supabase } = await import("./db");
+
+  const { data, error } = await supabase
+    .from("documents")
+    .select(
+      "id, user_id, file_name, content_type, byte_size, content_hash, storage_backend, storage_key, created_at, updated_at"
+    )
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data as DocumentSummary[]) || [];
+}
+
+export async function getDocumentById(
+  id: number,
+  userId: number
+): Promise<Document | null> {
+  const result = await db.selectOne<Document>("documents", {
+    id,
+    user_id: userId,
+  });
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function getDocumentByHash(
+  userId: number,
+  contentHash: string
+): Promise<Document | null> {
+  const result = await db.selectOne<Document>("documents", {
+    user_id: userId,
+    content_hash: contentHash,
+  });
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function createDocument(
+  userId: number,
+  fields: Pick<
+    Document,
+    | "file_name"
+    | "content_type"
+    | "byte_size"
+    | "content_hash"
+    | "storage_backend"
+    | "storage_key"
+  >
+): Promise<Document> {
+  const result = await db.insert<Document>("documents", {
+    ...fields,
+    user_id: userId,
+    extracted_text: null,
+  });
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+export async function updateDocumentText(
+  id: number,
+  userId: number,
+  extractedText: string
+): Promise<void> {
+  const result = await db.update<Document>(
+    "documents",
+    { extracted_text: extractedText },
+    { id, user_id: userId }
+  );
+  if (result.error) throw result.error;
+}
+
+export async function deleteDocument(
+  id: number,
+  userId: number
+): Promise<boolean> {
+  const result = await db.delete("documents", { id, user_id: userId });
+  if (result.error) throw result.error;
+  return result.data.count > 0;
+}
+
+// Rate limit operations. The check and the update happen in one database
+// function so concurrent requests are counted correctly.
+export async function consumeRateLimit(
+  userId: number,
+  action: string,
+  limits: { burst: number; refillSeconds: number; dailyLimit: number },
+  consume: boolean = true,
+  cost: number = 1,
+  takeToken: boolean = true
+): Promise<RateLimitState> {
+  const { supabase } = await import("./db");
+
+  const { data, error } = await supabase
+    .rpc("consume_rate_limit", {
+      p_user_id: userId,
+      p_action: action,
+      p_burst: limits.burst,
+      p_refill_seconds: limits.refillSeconds,
+      p_daily_limit: limits.dailyLimit,
+      p_consume: consume,
+      p_cost: cost,
+      p_take_token: takeToken,
+    })
+    .single();
+
+  if (error) throw error;
+  return data as RateLimitState;
+}
+
+// Parse cache operations
+export async function getParseCacheEntry(
+  cacheKey: string
+): Promise<ParseCacheEntry | null> {
+  // Use Supabase directly for the range filter
+  const { supabase } = await import("./db");
+
+  const { data, error } = await supabase
+    .from("parse_cache")
+    .select("*")
+    .eq("cache_key", cacheKey)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as ParseCacheEntry | null;
+}
+
+// Stores a parse result, replacing an entry with the same key
+export async function saveParseCacheEntry(
+  cacheKey: string,
+  model: string,
+  parsedResume: ParsedResume,
+  expiresAt: Date
+): Promise<void> {
+  // Use Supabase directly for the upsert
+  const { supabase } = await import("./db");
+
+  const { error } = await supabase.from("parse_cache").upsert(
+    {
+      cache_key: cacheKey,
+      model,
+      parsed_resume: parsedResume,
+      expires_at: expiresAt.toISOString(),
+    },
+    { onConflict: "cache_key" }
+  );
+
+  if (error) throw error;
+}
+
+// Removes expired entries, or every entry when `expiredOnly` is false
+export async function deleteParseCacheEntries(
+  expiredOnly: boolean
+): Promise<number> {
+  // Use Supabase directly for the range filter
+  const { supabase } = await import("./db");
+
+  const query = supabase.from("parse_cache").delete({ count: "exact" });
+  const { error, count } = expiredOnly
+    ? await query.lt("expires_at", new Date().toISOString())
+    : await query.gte("id", 0);
+
+  if (error) throw error;
+  return count || 0;
 }
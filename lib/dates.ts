@@ -0,0 +1,100 @@
+// Job dates are only as precise as the resume they came from: "2019", "Jun
+// 2019" or "Jun 15, 2019". In parsed resumes and API requests they are partial
+// ISO 8601 strings ("2019", "2019-06", "2019-06-15"); in the database they are
+// the first day of the period plus a precision column.
+
+export const DATE_PRECISIONS = ["year", "month", "day"] as const;
+export type DatePrecision = (typeof DATE_PRECISIONS)[number];
+
+export interface PartialDate {
+  // First day of the year or month for "year" and "month" precision
+  date: string;
+  precision: DatePrecision;
+}
+
+// "YYYY", "YYYY-MM" or "YYYY-MM-DD", optionally followed by a time as in
+// "2019-06-15T00:00:00Z"
+const PARTIAL_DATE_PATTERN =
+  /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+// Returns null for anything that is not a real calendar date, e.g. "2019-02-30"
+export function parsePartialDate(value: unknown): PartialDate | null {
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(PARTIAL_DATE_PATTERN);
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  const monthNumber = month ? parseInt(month) : 1;
+  const dayNumber = day ? parseInt(day) : 1;
+  if (monthNumber < 1 || monthNumber > 12 || dayNumber < 1) return null;
+
+  const daysInMonth = new Date(
+    Date.UTC(parseInt(year), monthNumber, 0)
+  ).getUTCDate();
+  if (dayNumber > daysInMonth) return null;
+
+  return {
+    date: `${year}-${pad(monthNumber)}-${pad(dayNumber)}`,
+    precision: day ? "day" : month ? "month" : "year",
+  };
+}
+
+// Normalizes "2020", "2020-03" or "2020-03-15" to "YYYY-MM-DD", using the
+// first day of the month or year when only part of the date is given. For
+// dates stored without a precision.
+export function normalizePartialDate(value: unknown): string | null {
+  return parsePartialDate(value)?.date ?? null;
+}
+
+// The partial ISO string for a date: "2019", "2019-06" or "2019-06-15"
+export function formatPartialDate(value: PartialDate): string {
+  const length = { year: 4, month: 7, day: 10 }[value.precision];
+  return value.date.substring(0, length);
+}
+
+// Canonical partial ISO string for a parsed or submitted date, or null when
+// it is invalid
+export function toPartialDateString(value: unknown): string | null {
+  const parsed = parsePartialDate(value);
+  return parsed && formatPartialDate(parsed);
+}
+
+// A stored date and its precision. Supabase returns DATE columns as
+// "YYYY-MM-DD" strings.
+export function toPartialDate(
+  date: Date | string,
+  precision: DatePrecision
+): PartialDate {
+  const iso =
+    typeof date === "string"
+      ? date.substring(0, 10)
+      : date.toISOString().substring(0, 10);
+  return { date: iso, precision };
+}
+
+// Compares two dates at the coarser of their precisions, so "2019" and
+// "2019-06" are equal: either could be the earlier one
+export function comparePartialDates(a: PartialDate, b: PartialDate): number {
+  const precision =
+    DATE_PRECISIONS.indexOf(a.precision) < DATE_PRECISIONS.indexOf(b.precision)
+      ? a.precision
+      : b.precision;
+  return formatPartialDate({ date: a.date, precision }).localeCompare(
+    formatPartialDate({ date: b.date, precision })
+  );
+}
+
+// The last day a date could stand for: "2019" ends on 2019-12-31
+export function lastDayOf(value: PartialDate): string {
+  const [year, month] = value.date.split("-").map((part) => parseInt(part));
+  if (value.precision === "year") return `${year}-12-31`;
+  if (value.precision === "month") {
+    const days = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return `${year}-${pad(month)}-${pad(days)}`;
+  }
+  return value.date;
+}
@@ -92,7 +92,7 @@ export const db = {
   async selectMany<T>(
     table: string,
     where: WhereClause,
-    orderBy?: OrderBy
+    orderBy?: OrderBy | OrderBy[]
   ): Promise<DbResponse<T[]>> {
     try {
       let query = supabase.from(table).select("*");
@@ -102,10 +102,10 @@ export const db = {
         query = query.eq(column, value);
       }
 
-      // Apply order by
-      if (orderBy) {
-        query = query.order(orderBy.column, {
-          ascending: orderBy.direction === "asc",
+      // Apply order by; later columns break ties in earlier ones
+      for (const order of orderBy ? [orderBy].flat() : []) {
+        query = query.order(order.column, {
+          ascending: order.direction === "asc",
         });
       }
 
@@ -154,6 +154,40 @@ export const db = {
     }
   },
 
+  /**
+   * Insert several rows into a table in one request. Rows come back in
+   * insertion order.
+   */
+  async insertMany<T>(
+    table: string,
+    values: Partial<T>[]
+  ): Promise<DbResponse<T[]>> {
+    if (values.length === 0) {
+      return { data: [], error: null };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from(table)
+        .insert(values)
+        .select();
+
+      if (error) {
+        return {
+          data: null,
+          error: logError("insertMany", error, { table, count: values.length }),
+        };
+      }
+
+      return { data: (data as T[]) || [], error: null };
+    } catch (error) {
+      return {
+        data: null,
+        error: logError("insertMany", error, { table, count: values.length }),
+      };
+    }
+  },
+
   /**
    * Update a row in a table
    */
@@ -0,0 +1,301 @@
+import JSZip from "jszip";
+import pdfParse from "pdf-parse";
+import {
+  extractTextFromHtml,
+  extractTextFromMarkdown,
+  extractTextFromOdt,
+  extractTextFromPDF,
+  extractTextFromPlainText,
+  extractTextFromRtf,
+  extractTextFromWord,
+} from "./resume-parser";
+import { findHtmlEntry, isZipFile, loadZip, readZipEntryText } from "./zip";
+
+// Uploads are identified by their content, not by the file name or the
+// browser's content type, which the client controls. Each format has a
+// handler that recognises it, checks its size and page limits before the
+// document is stored or parsed, and extracts its text.
+
+export type DocumentFormat =
+  "pdf" | "docx" | "odt" | "rtf" | "html" | "markdown" | "text";
+
+interface FormatLimits {
+  maxBytes: number;
+  // Only checked for formats that record their page count
+  maxPages: number;
+}
+
+// What is known about a file before its format is decided
+interface SniffedFile {
+  buffer: Buffer;
+  // Lower case; only used to tell Markdown from plain text, which have no
+  // signature of their own
+  fileName: string;
+  // Set when the file is a zip archive
+  zip: JSZip | null;
+  // Set when the file is UTF-8 text
+  text: string | null;
+}
+
+interface DocumentFormatHandler {
+  label: string;
+  contentType: string;
+  limits: FormatLimits;
+  detect: (file: SniffedFile) => boolean | Promise<boolean>;
+  // Null when the document does not record its page count
+  countPages?: (file: SniffedFile) => Promise<number | null>;
+  extractText: (buffer: Buffer) => Promise<string>;
+}
+
+const MB = 1024 * 1024;
+
+// Security: Limit how much of the document body is inflated before it is
+// handed to mammoth, which has no limit of its own
+const MAX_DOCX_BODY_SIZE = 5 * MB;
+
+const UNSUPPORTED_FORMAT_ERROR =
+  "Invalid file type. Please upload a PDF, Word (.docx), OpenDocument (.odt), RTF, HTML, Markdown or plain text file.";
+
+// PDF readers accept the header anywhere in the first kilobyte
+const PDF_SIGNATURE = Buffer.from("%PDF-");
+const PDF_HEADER_SEARCH_BYTES = 1024;
+const RTF_SIGNATURE = Buffer.from("{\\rtf");
+// Legacy Office files, and password-protected .docx files, are OLE2
+// compound files
+const OLE2_SIGNATURE = Buffer.from([
+  0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1,
+]);
+// Encrypted .docx files keep the document in a stream with this name
+const ENCRYPTED_PACKAGE_STREAM = Buffer.from("EncryptedPackage", "utf16le");
+const ODT_MIME_TYPE = "application/vnd.oasis.opendocument.text";
+// Control characters other than tabs, line breaks and form feeds mean the
+// file is not text
+const BINARY_CHARACTERS = /[\x00-\x08\x0b\x0e-\x1f\x7f]/;
+
+// Checked in this order: the first handler whose detect returns true decides
+// the format
+const DOCUMENT_FORMATS: Record<DocumentFormat, DocumentFormatHandler> = {
+  pdf: {
+    label: "PDF",
+    contentType: "application/pdf",
+    limits: { maxBytes: 10 * MB, maxPages: 10 },
+    detect: ({ buffer }) =>
+      buffer.subarray(0, PDF_HEADER_SEARCH_BYTES).indexOf(PDF_SIGNATURE) !== -1,
+    countPages: ({ buffer }) => countPdfPages(buffer),
+    extractText: extractTextFromPDF,
+  },
+  // A .docx is a zip with a content types part and the document body at
+  // fixed paths. Spreadsheets, presentations and other zips have neither.
+  docx: {
+    label: "Word document",
+    contentType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    limits: { maxBytes: 5 * MB, maxPages: 10 },
+    detect: ({ zip }) =>
+      !!zip?.file("[Content_Types].xml") && !!zip.file("word/document.xml"),
+    countPages: ({ zip }) => countDocxPages(zip!),
+    extractText: extractTextFromWord,
+  },
+  // An OpenDocument file names its type in a "mimetype" entry
+  odt: {
+    label: "OpenDocument text file",
+    contentType: ODT_MIME_TYPE,
+    limits: { maxBytes: 5 * MB, maxPages: 10 },
+    detect: async ({ zip }) => {
+      const mimeType = zip?.file("mimetype");
+      return (
+        !!mimeType &&
+        !!zip!.file("content.xml") &&
+        (await readZipEntryText(mimeType, 1024)).trim() === ODT_MIME_TYPE
+      );
+    },
+    countPages: ({ zip }) => countOdtPages(zip!),
+    extractText: extractTextFromOdt,
+  },
+  rtf: {
+    label: "RTF document",
+    contentType: "application/rtf",
+    limits: { maxBytes: 5 * MB, maxPages: 10 },
+    detect: ({ buffer }) =>
+      buffer.subarray(0, RTF_SIGNATURE.length).equals(RTF_SIGNATURE),
+    // Word records the page count in the document information
+    countPages: async ({ buffer }) => {
+      const match = buffer.toString("latin1").match(/\\nofpages(\d+)/);
+      return match ? parseInt(match[1]) : null;
+    },
+    extractText: extractTextFromRtf,
+  },
+  // A web page, or a zip of one with its images as Google Docs exports it
+  html: {
+    label: "web page",
+    contentType: "text/html",
+    limits: { maxBytes: 5 * MB, maxPages: 10 },
+    detect: ({ zip, text, fileName }) =>
+      zip
+        ? findHtmlEntry(zip) !== null
+        : text !== null &&
+          (/^\s*<(?:!doctype\s+html|html\b)/i.test(text) ||
+            (/\.html?$/.test(fileName) && /<[a-z]/i.test(text))),
+    extractText: extractTextFromHtml,
+  },
+  markdown: {
+    label: "Markdown file",
+    contentType: "text/markdown",
+    limits: { maxBytes: 1 * MB, maxPages: 10 },
+    detect: ({ text, fileName }) =>
+      text !== null && /\.(?:md|markdown)$/.test(fileName),
+    extractText: extractTextFromMarkdown,
+  },
+  text: {
+    label: "text file",
+    contentType: "text/plain",
+    limits: { maxBytes: 1 * MB, maxPages: 10 },
+    detect: ({ text }) => text !== null,
+    extractText: extractTextFromPlainText,
+  },
+};
+
+export interface InspectedDocument {
+  format: DocumentFormat;
+  // Detected from the content; stored with the document instead of the
+  // type the browser reported
+  contentType: string;
+  // Null when the document does not record it
+  pageCount: number | null;
+}
+
+function formatSize(bytes: number): string {
+  return `${Math.round(bytes / MB)}MB`;
+}
+
+// Works out what a file is from its content and checks it against the
+// format's limits. Throws with a message for the user when the file cannot
+// be imported.
+export async function inspectDocument(
+  buffer: Buffer,
+  fileName: string
+): Promise<InspectedDocument> {
+  if (buffer.length === 0) {
+    throw new Error("The file is empty.");
+  }
+
+  const file = await sniffFile(buffer, fileName);
+  const format = await detectFormat(file);
+  const { label, contentType, limits, countPages } = DOCUMENT_FORMATS[format];
+
+  if (buffer.length > limits.maxBytes) {
+    throw new Error(
+      `File too large. Maximum size for a ${label} is ${formatSize(limits.maxBytes)}.`
+    );
+  }
+
+  const pageCount = countPages ? await countPages(file) : null;
+  if (pageCount !== null && pageCount > limits.maxPages) {
+    throw new Error(
+      `This ${label} has ${pageCount} pages. Resumes can be at most ${limits.maxPages} pages long.`
+    );
+  }
+
+  return { format, contentType, pageCount };
+}
+
+export async function extractDocumentText(
+  buffer: Buffer,
+  format: DocumentFormat
+): Promise<string> {
+  return DOCUMENT_FORMATS[format].extractText(buffer);
+}
+
+async function sniffFile(
+  buffer: Buffer,
+  fileName: string
+): Promise<SniffedFile> {
+  if (buffer.subarray(0, OLE2_SIGNATURE.length).equals(OLE2_SIGNATURE)) {
+    if (buffer.indexOf(ENCRYPTED_PACKAGE_STREAM) !== -1) {
+      throw new Error(
+        "This Word document is password-protected. Please remove the password and upload it again."
+      );
+    }
+    throw new Error(
+      "Legacy Word documents (.doc) are not supported. Please save the file as .docx or PDF and upload it again."
+    );
+  }
+
+  let zip: JSZip | null = null;
+  if (isZipFile(buffer)) {
+    try {
+      zip = await loadZip(buffer);
+    } catch {
+      throw new Error("The file appears to be damaged and could not be read.");
+    }
+  }
+
+  let text: string | null = null;
+  if (!zip) {
+    try {
+      const decoded = new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+      text = BINARY_CHARACTERS.test(decoded) ? null : decoded;
+    } catch {
+      if (/\.(?:txt|md|markdown|html?)$/i.test(fileName)) {
+        throw new Error(
+          "Text files must be saved as UTF-8. Please save the file with UTF-8 encoding and upload it again."
+        );
+      }
+    }
+  }
+
+  return { buffer, fileName: fileName.toLowerCase(), zip, text };
+}
+
+async function detectFormat(file: SniffedFile): Promise<DocumentFormat> {
+  for (const [format, handler] of Object.entries(DOCUMENT_FORMATS)) {
+    if (await handler.detect(file)) return format as DocumentFormat;
+  }
+  throw new Error(UNSUPPORTED_FORMAT_ERROR);
+}
+
+// Loading the document is also how password protection is found: PDFs that
+// only restrict printing or copying open without a password and are allowed
+async function countPdfPages(buffer: Buffer): Promise<number> {
+  try {
+    // See extractTextFromPDF for why this is copied into a Uint8Array
+    const data = await pdfParse(new Uint8Array(buffer) as Buffer, { max: 1 });
+    return data.numpages;
+  } catch (error) {
+    if (error instanceof Error && error.name === "PasswordException") {
+      throw new Error(
+        "This PDF is password-protected. Please remove the password and upload it again."
+      );
+    }
+    console.error("Error reading PDF:", error);
+    throw new Error("The PDF appears to be damaged and could not be read.");
+  }
+}
+
+// Word saves the page count it last laid out in docProps/app.xml. Files from
+// other editors may not have it, in which case only the size limits apply.
+async function countDocxPages(zip: JSZip): Promise<number | null> {
+  const body = zip.file("word/document.xml")!;
+  try {
+    await readZipEntryText(body, MAX_DOCX_BODY_SIZE);
+  } catch {
+    throw new Error(
+      `File too large. The text of a Word document can be at most ${formatSize(MAX_DOCX_BODY_SIZE)}.`
+    );
+  }
+
+  const properties = zip.file("docProps/app.xml");
+  if (!properties) return null;
+  const match = (await readZipEntryText(properties)).match(
+    /<Pages>\s*(\d+)\s*<\/Pages>/
+  );
+  return match ? parseInt(match[1]) : null;
+}
+
+// Like Word, OpenDocument editors save the page count in the metadata
+async function countOdtPages(zip: JSZip): Promise<number | null> {
+  const meta = zip.file("meta.xml");
+  if (!meta) return null;
+  const match = (await readZipEntryText(meta)).match(/meta:page-count="(\d+)"/);
+  return match ? parseInt(match[1]) : null;
+}
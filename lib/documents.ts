@@ -0,0 +1,65 @@
+import { createHash } from "crypto";
+import {
+  Document,
+  createDocument,
+  deleteDocument,
+  getDocumentByHash,
+} from "./database";
+import { getConfiguredStorageName, getDocumentStorage } from "./storage";
+
+// Uploads are kept so they can be parsed again when the parser improves. A
+// file is identified by the SHA-256 of its bytes, so uploading the same file
+// twice stores it once.
+
+// Returns the user's existing document when they already uploaded this file
+export async function storeDocument(
+  userId: number,
+  fileName: string,
+  contentType: string,
+  buffer: Buffer
+): Promise<Document> {
+  const contentHash = createHash("sha256").update(buffer).digest("hex");
+  const existing = await getDocumentByHash(userId, contentHash);
+  if (existing) return existing;
+
+  const storageBackend = getConfiguredStorageName();
+  const storageKey = `${userId}/${contentHash}`;
+  await getDocumentStorage(storageBackend).put(storageKey, buffer, contentType);
+
+  try {
+    return await createDocument(userId, {
+      file_name: fileName.substring(0, 255),
+      content_type: contentType.substring(0, 255),
+      byte_size: buffer.length,
+      content_hash: contentHash,
+      storage_backend: storageBackend,
+      storage_key: storageKey,
+    });
+  } catch (error) {
+    // A concurrent upload of the same file may have created it first
+    const created = await getDocumentByHash(userId, contentHash);
+    if (created) return created;
+    throw error;
+  }
+}
+
+export async function readDocumentFile(document: Document): Promise<Buffer> {
+  return getDocumentStorage(document.storage_backend).get(document.storage_key);
+}
+
+// Imports that parsed the document are kept; they lose the link to it
+export async function removeDocument(document: Document): Promise<boolean> {
+  if (!(await deleteDocument(document.id, document.user_id))) {
+    return false;
+  }
+
+  try {
+    await getDocumentStorage(document.storage_backend).delete(
+      document.storage_key
+    );
+  } catch (error) {
+    // The row is gone, so the file is no longer reachable
+    console.error("Error deleting stored document file:", error);
+  }
+  return true;
+}
@@ -0,0 +1,210 @@
+import {
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  TabStopPosition,
+  TabStopType,
+  TextRun,
+} from "docx";
+import { Resume, ResumeCompany, ResumeEducation, ResumeJob } from "../resume";
+import {
+  formatCompanyDetails,
+  formatContactItems,
+  formatDateRange,
+  formatDegree,
+  formatEducationDates,
+  formatEducationDetails,
+  formatLinkText,
+  formatResumeSections,
+  formatResumeTitle,
+  ResumeSection,
+  ResumeSectionEntry,
+} from "./format";
+
+// Right-aligned tab stop used to push locations and dates to the margin
+const RIGHT_TAB = [{ type: TabStopType.RIGHT, position: TabStopPosition.MAX }];
+
+function companyParagraph(company: ResumeCompany): Paragraph {
+  const details = formatCompanyDetails(company);
+  return new Paragraph({
+    heading: HeadingLevel.HEADING_2,
+    tabStops: RIGHT_TAB,
+    spacing: { before: 240 },
+    children: [
+      new TextRun(company.name),
+      ...(details ? [new TextRun({ text: `\t${details}`, bold: false })] : []),
+    ],
+  });
+}
+
+function jobParagraphs(job: ResumeJob): Paragraph[] {
+  return [
+    new Paragraph({
+      tabStops: RIGHT_TAB,
+      spacing: { before: 120 },
+      children: [
+        new TextRun({ text: job.title, bold: true }),
+        new TextRun({ text: `\t${formatDateRange(job)}`, italics: true }),
+      ],
+    }),
+    ...job.bullet_points.map(
+      (bp) => new Paragraph({ text: bp.content, bullet: { level: 0 } })
+    ),
+  ];
+}
+
+function educationParagraphs(entry: ResumeEducation): Paragraph[] {
+  const dates = formatEducationDates(entry);
+  const degree = formatDegree(entry);
+  const details = formatEducationDetails(entry);
+  return [
+    new Paragraph({
+      heading: HeadingLevel.HEADING_2,
+      tabStops: RIGHT_TAB,
+      spacing: { before: 240 },
+      children: [
+        new TextRun(entry.institution),
+        ...(dates ? [new TextRun({ text: `\t${dates}`, bold: false })] : []),
+      ],
+    }),
+    ...(degree
+      ? [
+          new Paragraph({
+            children: [new TextRun({ text: degree, bold: true })],
+          }),
+        ]
+      : []),
+    ...(details ? [new Paragraph({ text: details })] : []),
+  ];
+}
+
+// Laid out like an education entry, with the link after the details
+function sectionEntryParagraphs(entry: ResumeSectionEntry): Paragraph[] {
+  const details = [
+    ...(entry.details
+      ? [new TextRun({ text: entry.details, italics: true })]
+      : []),
+    ...(entry.url
+      ? [
+          ...(entry.details ? [new TextRun(" | ")] : []),
+          new ExternalHyperlink({
+            link: entry.url,
+            children: [
+              new TextRun({
+                text: formatLinkText(entry.url),
+                style: "Hyperlink",
+              }),
+            ],
+          }),
+        ]
+      : []),
+  ];
+  return [
+    new Paragraph({
+      heading: HeadingLevel.HEADING_2,
+      tabStops: RIGHT_TAB,
+      spacing: { before: 240 },
+      children: [
+        new TextRun(entry.title),
+        ...(entry.dates
+          ? [new TextRun({ text: `\t${entry.dates}`, bold: false })]
+          : []),
+      ],
+    }),
+    ...(details.length > 0 ? [new Paragraph({ children: details })] : []),
+    ...entry.bullet_points.map(
+      (bp) => new Paragraph({ text: bp.content, bullet: { level: 0 } })
+    ),
+  ];
+}
+
+function sectionParagraphs(section: ResumeSection): Paragraph[] {
+  return [
+    new Paragraph({
+      text: section.heading,
+      heading: HeadingLevel.HEADING_1,
+    }),
+    ...section.entries.flatMap(sectionEntryParagraphs),
+  ];
+}
+
+// Name, headline and a line of contact details with clickable links,
+// followed by the summary
+function headerParagraphs(resume: Resume): Paragraph[] {
+  const { profile } = resume;
+  const contacts = profile ? formatContactItems(profile) : [];
+  return [
+    new Paragraph({
+      text: formatResumeTitle(resume),
+      heading: HeadingLevel.TITLE,
+    }),
+    ...(profile?.headline
+      ? [
+          new Paragraph({
+            children: [new TextRun({ text: profile.headline, italics: true })],
+          }),
+        ]
+      : []),
+    ...(contacts.length > 0
+      ? [
+          new Paragraph({
+            children: contacts.flatMap((item, i) => [
+              ...(i > 0 ? [new TextRun(" | ")] : []),
+              item.url
+                ? new ExternalHyperlink({
+                    link: item.url,
+                    children: [
+                      new TextRun({ text: item.text, style: "Hyperlink" }),
+                    ],
+                  })
+                : new TextRun(item.text),
+            ]),
+          }),
+        ]
+      : []),
+    ...(profile?.summary
+      ? [
+          new Paragraph({
+            text: "Summary",
+            heading: HeadingLevel.HEADING_1,
+          }),
+          new Paragraph({ text: profile.summary }),
+        ]
+      : []),
+  ];
+}
+
+export async function renderResumeDocx(resume: Resume): Promise<Buffer> {
+  const document = new Document({
+    title: resume.name,
+    sections: [
+      {
+        children: [
+          ...headerParagraphs(resume),
+          new Paragraph({
+            text: "Experience",
+            heading: HeadingLevel.HEADING_1,
+          }),
+          ...resume.companies.flatMap((company) => [
+            companyParagraph(company),
+            ...company.jobs.flatMap(jobParagraphs),
+          ]),
+          ...(resume.education.length > 0
+            ? [
+                new Paragraph({
+                  text: "Education",
+                  heading: HeadingLevel.HEADING_1,
+                }),
+                ...resume.education.flatMap(educationParagraphs),
+              ]
+            : []),
+          ...formatResumeSections(resume).flatMap(sectionParagraphs),
+        ],
+      },
+    ],
+  });
+
+  return await Packer.toBuffer(document);
+}
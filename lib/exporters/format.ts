@@ -0,0 +1,248 @@
+import {
+  Resume,
+  ResumeCertification,
+  ResumeCompany,
+  ResumeEducation,
+  ResumeJob,
+  ResumeProfile,
+  ResumeProject,
+  ResumePublication,
+  ResumeSectionBulletPoint,
+} from "../resume";
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+// Formats a "YYYY-MM-DD" date as "Jan 2020". Parsed by hand so the output does
+// not shift with the server's time zone.
+export function formatMonthYear(date: string): string {
+  const [year, month] = date.split("-").map((part) => parseInt(part));
+  if (!year) return date;
+  if (!month || month < 1 || month > 12) return String(year);
+  return `${MONTHS[month - 1]} ${year}`;
+}
+
+// Formats a job date as precisely as it was entered: "2020", "Jan 2020" or
+// "Jan 15, 2020"
+export function formatJobDate(date: string): string {
+  const [year, month, day] = date.split("-").map((part) => parseInt(part));
+  if (!day) return formatMonthYear(date);
+  return `${MONTHS[month - 1]} ${day}, ${year}`;
+}
+
+export function formatDateRange(
+  job: Pick<ResumeJob, "start_date" | "end_date" | "is_current">
+): string {
+  const start = formatJobDate(job.start_date);
+  if (job.is_current) return `${start} – Present`;
+  if (!job.end_date) return start;
+  return `${start} – ${formatJobDate(job.end_date)}`;
+}
+
+// Education and project dates are optional: "2016 – 2020", "2020",
+// "Sep 2022 – Present" for a start with no end, or "" when neither is known
+export function formatEducationDates(
+  entry: Pick<ResumeEducation | ResumeProject, "start_date" | "end_date">
+): string {
+  const { start_date: start, end_date: end } = entry;
+  if (start && end) {
+    return `${formatMonthYear(start)} – ${formatMonthYear(end)}`;
+  }
+  if (start) return `${formatMonthYear(start)} – Present`;
+  return end ? formatMonthYear(end) : "";
+}
+
+// "B.S. in Computer Science", or whichever of the two is present
+export function formatDegree(
+  entry: Pick<ResumeEducation, "degree" | "field">
+): string {
+  if (entry.degree && entry.field) return `${entry.degree} in ${entry.field}`;
+  return entry.degree || entry.field || "";
+}
+
+// GPA and honors on one line, e.g. "GPA: 3.8 · Magna Cum Laude"
+export function formatEducationDetails(
+  entry: Pick<ResumeEducation, "gpa" | "honors">
+): string {
+  return [entry.gpa ? `GPA: ${entry.gpa}` : "", entry.honors || ""]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+// "Jan 2021 · Expires Jan 2024", or whichever of the two is known
+export function formatCertificationDates(
+  entry: Pick<ResumeCertification, "issue_date" | "expiry_date">
+): string {
+  return [
+    entry.issue_date ? formatMonthYear(entry.issue_date) : "",
+    entry.expiry_date ? `Expires ${formatMonthYear(entry.expiry_date)}` : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+// One entry under the projects, certifications or publications heading,
+// laid out like an education entry: the name with its dates, then a line of
+// details and the link
+export interface ResumeSectionEntry {
+  title: string;
+  dates: string;
+  details: string;
+  url: string | null;
+  bullet_points: ResumeSectionBulletPoint[];
+}
+
+export interface ResumeSection {
+  heading: string;
+  entries: ResumeSectionEntry[];
+}
+
+function projectEntry(project: ResumeProject): ResumeSectionEntry {
+  return {
+    title: project.name,
+    dates: formatEducationDates(project),
+    details: project.role || "",
+    url: project.url,
+    bullet_points: project.bullet_points,
+  };
+}
+
+function certificationEntry(
+  certification: ResumeCertification
+): ResumeSectionEntry {
+  return {
+    title: certification.name,
+    dates: formatCertificationDates(certification),
+    details: [
+      certification.issuer || "",
+      certification.credential_id
+        ? `Credential ID ${certification.credential_id}`
+        : "",
+    ]
+      .filter(Boolean)
+      .join(" · "),
+    url: certification.url,
+    bullet_points: certification.bullet_points,
+  };
+}
+
+// Talks are listed with publications, marked as such
+function publicationEntry(publication: ResumePublication): ResumeSectionEntry {
+  return {
+    title: publication.title,
+    dates: publication.published_on
+      ? formatMonthYear(publication.published_on)
+      : "",
+    details: [
+      publication.kind === "talk" ? "Talk" : "",
+      publication.venue || "",
+    ]
+      .filter(Boolean)
+      .join(" · "),
+    url: publication.url,
+    bullet_points: publication.bullet_points,
+  };
+}
+
+// The sections that follow education, in order, leaving out empty ones
+export function formatResumeSections(
+  resume: Pick<Resume, "projects" | "certifications" | "publications">
+): ResumeSection[] {
+  return [
+    { heading: "Projects", entries: resume.projects.map(projectEntry) },
+    {
+      heading: "Certifications",
+      entries: resume.certifications.map(certificationEntry),
+    },
+    {
+      heading: "Publications",
+      entries: resume.publications.map(publicationEntry),
+    },
+  ].filter((section) => section.entries.length > 0);
+}
+
+export function formatLocation(
+  company: Pick<ResumeCompany, "city" | "state" | "is_remote">
+): string {
+  if (company.is_remote) return "Remote";
+  return [company.city, company.state].filter(Boolean).join(", ");
+}
+
+// The employer header's details: its location and, when several roles were
+// held there, the whole time spent there, e.g. "Austin, TX · 2016 – Present".
+// Each role shows its own dates under the header.
+export function formatCompanyDetails(company: ResumeCompany): string {
+  const location = formatLocation(company);
+  if (company.jobs.length < 2) return location;
+
+  // Partial ISO dates compare correctly as strings
+  const starts = company.jobs.map((job) => job.start_date).sort();
+  const ends = company.jobs.map((job) => job.end_date || job.start_date).sort();
+  const tenure = formatDateRange({
+    start_date: starts[0],
+    end_date: ends[ends.length - 1],
+    is_current: company.jobs.some((job) => job.is_current),
+  });
+  return [location, tenure].filter(Boolean).join(" · ");
+}
+
+// The name at the top of an export: the person's name from their profile,
+// or the resume's own name when the profile has none
+export function formatResumeTitle(
+  resume: Pick<Resume, "name" | "profile">
+): string {
+  return resume.profile?.display_name || resume.name;
+}
+
+// A contact detail for the header line. `url` is set for links and email so
+// formats that support hyperlinks can use it.
+export interface ContactItem {
+  text: string;
+  url: string | null;
+}
+
+// "https://www.github.com/jane/" is shown as "github.com/jane"
+export function formatLinkText(url: string): string {
+  return url
+    .replace(/^https?:\/\//i, "")
+    .replace(/^www\./i, "")
+    .replace(/\/+$/, "");
+}
+
+// Location, email, phone and links, in the order they appear in the header
+export function formatContactItems(profile: ResumeProfile): ContactItem[] {
+  const links = [
+    profile.portfolio_url,
+    profile.linkedin_url,
+    profile.github_url,
+  ].filter((url): url is string => !!url);
+  return [
+    ...(profile.location ? [{ text: profile.location, url: null }] : []),
+    ...(profile.email
+      ? [{ text: profile.email, url: `mailto:${profile.email}` }]
+      : []),
+    ...(profile.phone ? [{ text: profile.phone, url: null }] : []),
+    ...links.map((url) => ({ text: formatLinkText(url), url })),
+  ];
+}
+
+// Builds a download file name such as "backend-resume.docx"
+export function toFileName(name: string, extension: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "resume"}.${extension}`;
+}
@@ -0,0 +1,81 @@
+import { resumeToJsonResume } from "../json-resume";
+import { Resume } from "../resume";
+import { renderResumeDocx } from "./docx";
+import { toFileName } from "./format";
+import { renderResumeLatex } from "./latex";
+import { renderResumeMarkdown } from "./markdown";
+import { PdfTemplateId, renderResumePdf } from "./pdf";
+
+export interface ResumeExport {
+  body: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+export interface ResumeExportOptions {
+  template?: PdfTemplateId;
+}
+
+interface ResumeExporter {
+  contentType: string;
+  extension: string;
+  render: (resume: Resume, options: ResumeExportOptions) => Promise<Buffer>;
+}
+
+const exporters = {
+  docx: {
+    contentType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    extension: "docx",
+    render: renderResumeDocx,
+  },
+  pdf: {
+    contentType: "application/pdf",
+    extension: "pdf",
+    render: (resume, options) => renderResumePdf(resume, options.template),
+  },
+  latex: {
+    contentType: "application/x-tex; charset=utf-8",
+    extension: "tex",
+    render: async (resume) => Buffer.from(renderResumeLatex(resume), "utf8"),
+  },
+  "json-resume": {
+    contentType: "application/json; charset=utf-8",
+    extension: "json",
+    render: async (resume) =>
+      Buffer.from(JSON.stringify(resumeToJsonResume(resume), null, 2), "utf8"),
+  },
+  markdown: {
+    contentType: "text/markdown; charset=utf-8",
+    extension: "md",
+    render: async (resume) => Buffer.from(renderResumeMarkdown(resume), "utf8"),
+  },
+} satisfies Record<string, ResumeExporter>;
+
+export type ResumeExportFormat = keyof typeof exporters;
+
+export const RESUME_EXPORT_FORMATS = Object.keys(
+  exporters
+) as ResumeExportFormat[];
+
+export function isResumeExportFormat(
+  format: unknown
+): format is ResumeExportFormat {
+  return (
+    typeof format === "string" &&
+    RESUME_EXPORT_FORMATS.includes(format as ResumeExportFormat)
+  );
+}
+
+export async function exportResume(
+  resume: Resume,
+  format: ResumeExportFormat,
+  options: ResumeExportOptions = {}
+): Promise<ResumeExport> {
+  const exporter: ResumeExporter = exporters[format];
+  return {
+    body: await exporter.render(resume, options),
+    contentType: exporter.contentType,
+    fileName: toFileName(resume.name, exporter.extension),
+  };
+}
@@ -0,0 +1,223 @@
+import { Resume, ResumeCompany, ResumeEducation, ResumeJob } from "../resume";
+import {
+  formatCompanyDetails,
+  formatContactItems,
+  formatDateRange,
+  formatDegree,
+  formatEducationDates,
+  formatEducationDetails,
+  formatLinkText,
+  formatResumeSections,
+  formatResumeTitle,
+  ResumeSection,
+  ResumeSectionEntry,
+} from "./format";
+
+const LATEX_ESCAPES: Record<string, string> = {
+  "\\": "\\textbackslash{}",
+  "&": "\\&",
+  "%": "\\%",
+  $: "\\$",
+  "#": "\\#",
+  _: "\\_",
+  "{": "\\{",
+  "}": "\\}",
+  "~": "\\textasciitilde{}",
+  "^": "\\textasciicircum{}",
+};
+
+// Escapes characters that LaTeX treats as markup. Bullet content regularly
+// contains "%", "&" and "$" ("cut costs by 30% & saved $2M").
+export function escapeLatex(text: string): string {
+  return text.replace(/[\\&%$#_{}~^]/g, (char) => LATEX_ESCAPES[char]);
+}
+
+// Preamble adapted from the widely used "Jake's resume" template
+const PREAMBLE = String.raw`\documentclass[letterpaper,11pt]{article}
+
+\usepackage{latexsym}
+\usepackage[empty]{fullpage}
+\usepackage{titlesec}
+\usepackage{enumitem}
+\usepackage[hidelinks]{hyperref}
+\usepackage{tabularx}
+\usepackage[T1]{fontenc}
+\input{glyphtounicode}
+
+\pagestyle{empty}
+\addtolength{\oddsidemargin}{-0.5in}
+\addtolength{\evensidemargin}{-0.5in}
+\addtolength{\textwidth}{1in}
+\addtolength{\topmargin}{-.5in}
+\addtolength{\textheight}{1.0in}
+
+\raggedbottom
+\raggedright
+\setlength{\tabcolsep}{0in}
+
+\titleformat{\section}{
+  \vspace{-4pt}\scshape\raggedright\large
+}{}{0em}{}[\titlerule \vspace{-5pt}]
+
+\pdfgentounicode=1
+
+\newcommand{\resumeItem}[1]{\item\small{#1 \vspace{-2pt}}}
+\newcommand{\resumeCompanyHeading}[2]{
+  \item
+  \begin{tabular*}{0.97\textwidth}[t]{l@{\extracolsep{\fill}}r}
+    \textbf{#1} & #2 \\
+  \end{tabular*}\vspace{-7pt}
+}
+\newcommand{\resumeRoleHeading}[2]{
+  \begin{tabular*}{0.97\textwidth}{l@{\extracolsep{\fill}}r}
+    \textit{\small#1} & \textit{\small #2} \\
+  \end{tabular*}\vspace{-7pt}
+}
+\newcommand{\resumeSubHeadingListStart}{\begin{itemize}[leftmargin=0.15in, label={}]}
+\newcommand{\resumeSubHeadingListEnd}{\end{itemize}}
+\newcommand{\resumeItemListStart}{\begin{itemize}}
+\newcommand{\resumeItemListEnd}{\end{itemize}\vspace{-5pt}}
+`;
+
+function renderJob(job: ResumeJob): string[] {
+  const lines = [
+    `    \\resumeRoleHeading{${escapeLatex(job.title)}}{${escapeLatex(
+      formatDateRange(job)
+    )}}`,
+  ];
+  if (job.bullet_points.length > 0) {
+    lines.push(
+      "      \\resumeItemListStart",
+      ...job.bullet_points.map(
+        (bp) => `        \\resumeItem{${escapeLatex(bp.content)}}`
+      ),
+      "      \\resumeItemListEnd"
+    );
+  }
+  return lines;
+}
+
+function renderCompany(company: ResumeCompany): string[] {
+  return [
+    `  \\resumeCompanyHeading{${escapeLatex(company.name)}}{${escapeLatex(
+      formatCompanyDetails(company)
+    )}}`,
+    ...company.jobs.flatMap(renderJob),
+  ];
+}
+
+function renderEducation(entry: ResumeEducation): string[] {
+  const degree = formatDegree(entry);
+  const details = formatEducationDetails(entry);
+  return [
+    `  \\resumeCompanyHeading{${escapeLatex(entry.institution)}}{${escapeLatex(
+      formatEducationDates(entry)
+    )}}`,
+    ...(degree || details
+      ? [
+          `    \\resumeRoleHeading{${escapeLatex(degree)}}{${escapeLatex(
+            details
+          )}}`,
+        ]
+      : []),
+  ];
+}
+
+// The link goes on the details line, after the role, issuer or venue
+function renderSectionEntry(entry: ResumeSectionEntry): string[] {
+  const details = [
+    ...(entry.details ? [escapeLatex(entry.details)] : []),
+    ...(entry.url
+      ? [
+          `\\href{${escapeLatexUrl(entry.url)}}{\\underline{${escapeLatex(
+            formatLinkText(entry.url)
+          )}}}`,
+        ]
+      : []),
+  ];
+  const lines = [
+    `  \\resumeCompanyHeading{${escapeLatex(entry.title)}}{${escapeLatex(
+      entry.dates
+    )}}`,
+    ...(details.length > 0
+      ? [`    \\resumeRoleHeading{${details.join(" $|$ ")}}{}`]
+      : []),
+  ];
+  if (entry.bullet_points.length > 0) {
+    lines.push(
+      "      \\resumeItemListStart",
+      ...entry.bullet_points.map(
+        (bp) => `        \\resumeItem{${escapeLatex(bp.content)}}`
+      ),
+      "      \\resumeItemListEnd"
+    );
+  }
+  return lines;
+}
+
+function renderSection(section: ResumeSection): string[] {
+  return [
+    `\\section{${section.heading}}`,
+    "\\resumeSubHeadingListStart",
+    ...section.entries.flatMap(renderSectionEntry),
+    "\\resumeSubHeadingListEnd",
+    "",
+  ];
+}
+
+// Name, headline and contact details centered at the top, as in the
+// original template, followed by the summary
+function renderHeader(resume: Resume): string[] {
+  const { profile } = resume;
+  const contacts = (profile ? formatContactItems(profile) : []).map((item) =>
+    item.url
+      ? `\\href{${escapeLatexUrl(item.url)}}{\\underline{${escapeLatex(item.text)}}}`
+      : escapeLatex(item.text)
+  );
+  const lines = [
+    `\\textbf{\\Huge \\scshape ${escapeLatex(formatResumeTitle(resume))}}`,
+    ...(profile?.headline ? [`\\small ${escapeLatex(profile.headline)}`] : []),
+    ...(contacts.length > 0 ? [`\\small ${contacts.join(" $|$ ")}`] : []),
+  ];
+  return [
+    "\\begin{center}",
+    `  ${lines.join(" \\\\ \\vspace{1pt}\n  ")}`,
+    "\\end{center}",
+    "",
+    ...(profile?.summary
+      ? ["\\section{Summary}", `\\small{${escapeLatex(profile.summary)}}`, ""]
+      : []),
+  ];
+}
+
+// URLs keep their characters inside \href; only the ones that would break
+// the argument are escaped
+function escapeLatexUrl(url: string): string {
+  return url.replace(/[\\%#{}]/g, "\\$&");
+}
+
+export function renderResumeLatex(resume: Resume): string {
+  return [
+    PREAMBLE,
+    "\\begin{document}",
+    "",
+    ...renderHeader(resume),
+    "\\section{Experience}",
+    "\\resumeSubHeadingListStart",
+    ...resume.companies.flatMap(renderCompany),
+    "\\resumeSubHeadingListEnd",
+    "",
+    ...(resume.education.length > 0
+      ? [
+          "\\section{Education}",
+          "\\resumeSubHeadingListStart",
+          ...resume.education.flatMap(renderEducation),
+          "\\resumeSubHeadingListEnd",
+          "",
+        ]
+      : []),
+    ...formatResumeSections(resume).flatMap(renderSection),
+    "\\end{document}",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,120 @@
+import { Resume, ResumeCompany, ResumeEducation, ResumeJob } from "../resume";
+import {
+  formatCompanyDetails,
+  formatContactItems,
+  formatDateRange,
+  formatDegree,
+  formatEducationDates,
+  formatEducationDetails,
+  formatLinkText,
+  formatResumeSections,
+  formatResumeTitle,
+  ResumeSection,
+  ResumeSectionEntry,
+} from "./format";
+
+// Escapes inline Markdown syntax so bullet content renders literally
+export function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>]/g, "\\$&");
+}
+
+function renderJob(job: ResumeJob): string[] {
+  return [
+    `**${escapeMarkdown(job.title)}** · _${formatDateRange(job)}_`,
+    "",
+    ...job.bullet_points.map((bp) => `- ${escapeMarkdown(bp.content)}`),
+    ...(job.bullet_points.length > 0 ? [""] : []),
+  ];
+}
+
+function renderCompany(company: ResumeCompany): string[] {
+  const details = formatCompanyDetails(company);
+  return [
+    `### ${escapeMarkdown(company.name)}${details ? ` — ${escapeMarkdown(details)}` : ""}`,
+    "",
+    ...company.jobs.flatMap(renderJob),
+  ];
+}
+
+function renderEducation(entry: ResumeEducation): string[] {
+  const degree = formatDegree(entry);
+  const dates = formatEducationDates(entry);
+  const details = formatEducationDetails(entry);
+  return [
+    `### ${escapeMarkdown(entry.institution)}`,
+    "",
+    ...(degree || dates
+      ? [
+          [degree && `**${escapeMarkdown(degree)}**`, dates && `_${dates}_`]
+            .filter(Boolean)
+            .join(" · "),
+          "",
+        ]
+      : []),
+    ...(details ? [escapeMarkdown(details), ""] : []),
+  ];
+}
+
+function renderSectionEntry(entry: ResumeSectionEntry): string[] {
+  const details = [
+    entry.details && escapeMarkdown(entry.details),
+    entry.dates && `_${entry.dates}_`,
+    entry.url && `[${escapeMarkdown(formatLinkText(entry.url))}](${entry.url})`,
+  ].filter(Boolean);
+  return [
+    `### ${escapeMarkdown(entry.title)}`,
+    "",
+    ...(details.length > 0 ? [details.join(" · "), ""] : []),
+    ...entry.bullet_points.map((bp) => `- ${escapeMarkdown(bp.content)}`),
+    ...(entry.bullet_points.length > 0 ? [""] : []),
+  ];
+}
+
+function renderSection(section: ResumeSection): string[] {
+  return [
+    `## ${section.heading}`,
+    "",
+    ...section.entries.flatMap(renderSectionEntry),
+  ];
+}
+
+// Name, headline and a line of contact details, followed by the summary
+function renderHeader(resume: Resume): string[] {
+  const { profile } = resume;
+  const contacts = profile ? formatContactItems(profile) : [];
+  return [
+    `# ${escapeMarkdown(formatResumeTitle(resume))}`,
+    "",
+    ...(profile?.headline
+      ? [`**${escapeMarkdown(profile.headline)}**`, ""]
+      : []),
+    ...(contacts.length > 0
+      ? [
+          contacts
+            .map((item) =>
+              item.url
+                ? `[${escapeMarkdown(item.text)}](${item.url})`
+                : escapeMarkdown(item.text)
+            )
+            .join(" · "),
+          "",
+        ]
+      : []),
+    ...(profile?.summary
+      ? ["## Summary", "", escapeMarkdown(profile.summary), ""]
+      : []),
+  ];
+}
+
+export function renderResumeMarkdown(resume: Resume): string {
+  return [
+    ...renderHeader(resume),
+    "## Experience",
+    "",
+    ...resume.companies.flatMap(renderCompany),
+    ...(resume.education.length > 0
+      ? ["## Education", "", ...resume.education.flatMap(renderEducation)]
+      : []),
+    ...formatResumeSections(resume).flatMap(renderSection),
+  ].join("\n");
+}
@@ -0,0 +1,172 @@
+import { readFileSync } from "fs";
+import { Font, create } from "fontkit";
+import path from "path";
+
+// The standard PDF fonts only cover Windows-1252, so anything else in a
+// resume (≥, →, Łódź, 決済) would come out garbled in both the printed page
+// and the text layer. The templates embed Noto fonts instead: Noto Serif or
+// Noto Sans for Latin, Greek and Cyrillic, then Noto Sans JP, SC and KR for
+// the characters those do not have. pdfkit subsets each font it embeds, so
+// only the glyphs a resume uses end up in the file.
+
+// Read from node_modules at runtime, like pdfkit's own font metrics; see
+// outputFileTracingIncludes in next.config.js
+const FONT_DIR = path.join(process.cwd(), "node_modules", "@expo-google-fonts");
+
+export interface PdfFont {
+  // Relative to FONT_DIR; also the name the font is registered under
+  file: string;
+  // Tried in order for characters the font does not have
+  fallbacks: string[];
+}
+
+// The CJK fonts have no italic, so italic text in those scripts is upright
+const CJK_REGULAR = [
+  "noto-sans-jp/400Regular/NotoSansJP_400Regular.ttf",
+  "noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf",
+  "noto-sans-kr/400Regular/NotoSansKR_400Regular.ttf",
+];
+const CJK_BOLD = [
+  "noto-sans-jp/700Bold/NotoSansJP_700Bold.ttf",
+  "noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf",
+  "noto-sans-kr/700Bold/NotoSansKR_700Bold.ttf",
+];
+
+export interface PdfFontFamily {
+  regular: PdfFont;
+  bold: PdfFont;
+  italic: PdfFont;
+}
+
+export const PDF_FONT_FAMILIES = {
+  serif: {
+    regular: {
+      file: "noto-serif/400Regular/NotoSerif_400Regular.ttf",
+      fallbacks: CJK_REGULAR,
+    },
+    bold: {
+      file: "noto-serif/700Bold/NotoSerif_700Bold.ttf",
+      fallbacks: CJK_BOLD,
+    },
+    italic: {
+      file: "noto-serif/400Regular_Italic/NotoSerif_400Regular_Italic.ttf",
+      fallbacks: CJK_REGULAR,
+    },
+  },
+  sans: {
+    regular: {
+      file: "noto-sans/400Regular/NotoSans_400Regular.ttf",
+      fallbacks: CJK_REGULAR,
+    },
+    bold: {
+      file: "noto-sans/700Bold/NotoSans_700Bold.ttf",
+      fallbacks: CJK_BOLD,
+    },
+    italic: {
+      file: "noto-sans/400Regular_Italic/NotoSans_400Regular_Italic.ttf",
+      fallbacks: CJK_REGULAR,
+    },
+  },
+} satisfies Record<string, PdfFontFamily>;
+
+interface LoadedFont {
+  data: Buffer;
+  font: Font;
+}
+
+// Fonts are read once per process, and a fallback only when a resume has a
+// character the fonts before it lack
+const loadedFonts = new Map<string, LoadedFont>();
+
+function loadFont(file: string): LoadedFont {
+  let loaded = loadedFonts.get(file);
+  if (!loaded) {
+    const data = readFileSync(path.join(FONT_DIR, file));
+    loaded = { data, font: create(data) as Font };
+    loadedFonts.set(file, loaded);
+  }
+  return loaded;
+}
+
+function hasCharacter(file: string, char: string): boolean {
+  return loadFont(file).font.hasGlyphForCodePoint(char.codePointAt(0)!);
+}
+
+interface TextRun {
+  file: string;
+  text: string;
+}
+
+// Splits text into runs that can each be set in one font. A character stays
+// in the current run whenever that font has it, so spaces and punctuation do
+// not break a run up. Characters no font has are left in the main font.
+function splitIntoRuns(text: string, font: PdfFont): TextRun[] {
+  const runs: TextRun[] = [];
+  let current: TextRun | null = null;
+  for (const char of Array.from(text)) {
+    if (current && hasCharacter(current.file, char)) {
+      current.text += char;
+      continue;
+    }
+    const file =
+      [font.file, ...font.fallbacks].find((candidate) =>
+        hasCharacter(candidate, char)
+      ) ?? font.file;
+    if (current && current.file === file) {
+      current.text += char;
+    } else {
+      current = { file, text: char };
+      runs.push(current);
+    }
+  }
+  return runs;
+}
+
+const registeredFonts = new WeakMap<PDFKit.PDFDocument, Set<string>>();
+
+function setFontFile(doc: PDFKit.PDFDocument, file: string) {
+  let registered = registeredFonts.get(doc);
+  if (!registered) {
+    registered = new Set();
+    registeredFonts.set(doc, registered);
+  }
+  if (!registered.has(file)) {
+    doc.registerFont(file, loadFont(file).data);
+    registered.add(file);
+  }
+  doc.font(file);
+}
+
+// Selects the font itself, for measuring text before it is drawn
+export function selectFont(doc: PDFKit.PDFDocument, font: PdfFont) {
+  setFontFile(doc, font.file);
+}
+
+// Draws text like doc.font(...).text(...), switching to a fallback font for
+// the runs the font cannot set. The runs are continued text, so they wrap as
+// one paragraph, and all sit on the main font's baseline: pdfkit would
+// otherwise place each run by its own font's ascender.
+export function writeText(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  font: PdfFont,
+  x: number,
+  y: number,
+  options: PDFKit.Mixins.TextOptions = {}
+) {
+  setFontFile(doc, font.file);
+  const { ascent, descent } = loadFont(font.file).font;
+  const baseline = -(doc.currentLineHeight() * ascent) / (ascent - descent);
+
+  const runs = splitIntoRuns(text, font);
+  if (runs.length === 0) runs.push({ file: font.file, text });
+  runs.forEach((run, index) => {
+    setFontFile(doc, run.file);
+    const continued = index < runs.length - 1;
+    if (index === 0) {
+      doc.text(run.text, x, y, { ...options, baseline, continued });
+    } else {
+      doc.text(run.text, { baseline, continued });
+    }
+  });
+}
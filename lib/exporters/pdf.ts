@@ -0,0 +1,520 @@
+import PDFDocument from "pdfkit";
+import { Resume, ResumeCompany, ResumeEducation, ResumeJob } from "../resume";
+import {
+  formatCompanyDetails,
+  formatContactItems,
+  formatDateRange,
+  formatDegree,
+  formatEducationDates,
+  formatEducationDetails,
+  formatLinkText,
+  formatResumeSections,
+  formatResumeTitle,
+  ResumeSectionEntry,
+} from "./format";
+import { PDF_FONT_FAMILIES, PdfFont, selectFont, writeText } from "./pdf-fonts";
+
+// Every template embeds Unicode fonts (see ./pdf-fonts) and draws bullet
+// glyphs as shapes, so the text layer holds exactly the resume text, whatever
+// its script. Applicant tracking systems read that layer, and
+// extractTextFromPDF must get each bullet back.
+export interface PdfTemplate {
+  name: string;
+  description: string;
+  render: (doc: PDFKit.PDFDocument, resume: Resume) => void;
+}
+
+interface PdfStyle {
+  regular: PdfFont;
+  bold: PdfFont;
+  italic: PdfFont;
+  nameSize: number;
+  nameAlign: "left" | "center";
+  headingSize: number;
+  headingRule: boolean;
+  bodySize: number;
+  // Classic puts locations and dates flush right; the plain layout keeps each
+  // line a single left-aligned run of text
+  rightAlignDetails: boolean;
+  accentColor: string;
+}
+
+const PAGE_MARGIN = 54;
+const BULLET_INDENT = 14;
+const BULLET_RADIUS = 1.5;
+
+function ensureSpace(doc: PDFKit.PDFDocument, height: number) {
+  const bottom = doc.page.height - doc.page.margins.bottom;
+  if (doc.y + height > bottom) {
+    doc.addPage();
+  }
+}
+
+// Draws `left` and `right` on one line. The left text keeps a trailing space
+// so the two runs stay separate words when the text layer is read back.
+function splitLine(
+  doc: PDFKit.PDFDocument,
+  left: string,
+  right: string,
+  x: number,
+  width: number,
+  leftFont: PdfFont,
+  rightFont: PdfFont
+) {
+  const y = doc.y;
+  writeText(doc, `${left} `, leftFont, x, y, { width, lineBreak: false });
+  if (right) {
+    writeText(doc, right, rightFont, x, y, { width, align: "right" });
+  } else {
+    doc.moveDown();
+  }
+  doc.x = x;
+}
+
+function bulletList(
+  doc: PDFKit.PDFDocument,
+  items: string[],
+  x: number,
+  width: number,
+  style: PdfStyle
+) {
+  doc.fontSize(style.bodySize);
+  selectFont(doc, style.regular);
+  const textOptions = { width: width - BULLET_INDENT, lineGap: 1 };
+  for (const item of items) {
+    // Break before the whole bullet: pdfkit resets x to the page margin when
+    // text wraps onto a new page, which would also strand the bullet glyph
+    ensureSpace(doc, doc.heightOfString(item, textOptions));
+    const y = doc.y;
+    doc
+      .circle(x + 4, y + style.bodySize / 2, BULLET_RADIUS)
+      .fillColor("black")
+      .fill();
+    writeText(doc, item, style.regular, x + BULLET_INDENT, y, textOptions);
+    doc.moveDown(0.15);
+  }
+  doc.x = x;
+}
+
+function sectionHeading(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  x: number,
+  width: number,
+  style: PdfStyle
+) {
+  ensureSpace(doc, style.headingSize * 3);
+  doc.moveDown(0.5);
+  doc.fontSize(style.headingSize).fillColor(style.accentColor);
+  writeText(doc, text.toUpperCase(), style.bold, x, doc.y, { width });
+  if (style.headingRule) {
+    doc
+      .moveTo(x, doc.y)
+      .lineTo(x + width, doc.y)
+      .lineWidth(0.5)
+      .strokeColor(style.accentColor)
+      .stroke();
+  }
+  doc.fillColor("black").moveDown(0.3);
+}
+
+function renderJob(
+  doc: PDFKit.PDFDocument,
+  job: ResumeJob,
+  x: number,
+  width: number,
+  style: PdfStyle
+) {
+  ensureSpace(doc, style.bodySize * 4);
+  doc.fontSize(style.bodySize);
+  if (style.rightAlignDetails) {
+    splitLine(
+      doc,
+      job.title,
+      formatDateRange(job),
+      x,
+      width,
+      style.italic,
+      style.regular
+    );
+  } else {
+    writeText(
+      doc,
+      `${job.title} | ${formatDateRange(job)}`,
+      style.italic,
+      x,
+      doc.y,
+      { width }
+    );
+  }
+  bulletList(
+    doc,
+    job.bullet_points.map((bp) => bp.content),
+    x,
+    width,
+    style
+  );
+}
+
+function renderCompany(
+  doc: PDFKit.PDFDocument,
+  company: ResumeCompany,
+  x: number,
+  width: number,
+  style: PdfStyle
+) {
+  ensureSpace(doc, style.bodySize * 6);
+  doc.moveDown(0.4).fontSize(style.bodySize + 1);
+  const details = formatCompanyDetails(company);
+  if (style.rightAlignDetails) {
+    splitLine(doc, company.name, details, x, width, style.bold, style.regular);
+  } else {
+    writeText(
+      doc,
+      details ? `${company.name} | ${details}` : company.name,
+      style.bold,
+      x,
+      doc.y,
+      { width }
+    );
+  }
+  for (const job of company.jobs) {
+    renderJob(doc, job, x, width, style);
+  }
+}
+
+function renderExperience(
+  doc: PDFKit.PDFDocument,
+  resume: Resume,
+  x: number,
+  width: number,
+  style: PdfStyle
+) {
+  sectionHeading(doc, "Experience", x, width, style);
+  for (const company of resume.companies) {
+    renderCompany(doc, company, x, width, style);
+  }
+}
+
+function renderEducationEntry(
+  doc: PDFKit.PDFDocument,
+  entry: ResumeEducation,
+  x: number,
+  width: number,
+  style: PdfStyle
+) {
+  ensureSpace(doc, style.bodySize * 5);
+  doc.moveDown(0.4).fontSize(style.bodySize + 1);
+  const dates = formatEducationDates(entry);
+  if (style.rightAlignDetails) {
+    splitLine(
+      doc,
+      entry.institution,
+      dates,
+      x,
+      width,
+      style.bold,
+      style.regular
+    );
+  } else {
+    writeText(
+      doc,
+      dates ? `${entry.institution} | ${dates}` : entry.institution,
+      style.bold,
+      x,
+      doc.y,
+      { width }
+    );
+  }
+
+  doc.fontSize(style.bodySize);
+  const degree = formatDegree(entry);
+  if (degree) {
+    writeText(doc, degree, style.italic, x, doc.y, { width });
+  }
+  const details = formatEducationDetails(entry);
+  if (details) {
+    writeText(doc, details, style.regular, x, doc.y, { width });
+  }
+}
+
+// Education follows experience and is left out when there are no entries
+function renderEducation(
+  doc: PDFKit.PDFDocument,
+  resume: Resume,
+  x: number,
+  width: number,
+  style: PdfStyle
+) {
+  if (resume.education.length === 0) return;
+  sectionHeading(doc, "Education", x, width, style);
+  for (const entry of resume.education) {
+    renderEducationEntry(doc, entry, x, width, style);
+  }
+}
+
+// Laid out like an education entry. The link is printed as text on the
+// details line, like the header's links.
+function renderSectionEntry(
+  doc: PDFKit.PDFDocument,
+  entry: ResumeSectionEntry,
+  x: number,
+  width: number,
+  style: PdfStyle
+) {
+  ensureSpace(doc, style.bodySize * 5);
+  doc.moveDown(0.4).fontSize(style.bodySize + 1);
+  if (style.rightAlignDetails) {
+    splitLine(
+      doc,
+      entry.title,
+      entry.dates,
+      x,
+      width,
+      style.bold,
+      style.regular
+    );
+  } else {
+    writeText(
+      doc,
+      entry.dates ? `${entry.title} | ${entry.dates}` : entry.title,
+      style.bold,
+      x,
+      doc.y,
+      { width }
+    );
+  }
+
+  doc.fontSize(style.bodySize);
+  const details = [entry.details, entry.url ? formatLinkText(entry.url) : ""]
+    .filter(Boolean)
+    .join(" | ");
+  if (details) {
+    writeText(doc, details, style.italic, x, doc.y, { width });
+  }
+  bulletList(
+    doc,
+    entry.bullet_points.map((bp) => bp.content),
+    x,
+    width,
+    style
+  );
+}
+
+// Projects, certifications and publications follow education, each left
+// out when it has no entries
+function renderSections(
+  doc: PDFKit.PDFDocument,
+  resume: Resume,
+  x: number,
+  width: number,
+  style: PdfStyle
+) {
+  for (const section of formatResumeSections(resume)) {
+    sectionHeading(doc, section.heading, x, width, style);
+    for (const entry of section.entries) {
+      renderSectionEntry(doc, entry, x, width, style);
+    }
+  }
+}
+
+// Name, headline and one line of contact details, then the summary. Links
+// stay plain text so the text layer matches what is printed.
+function renderHeader(
+  doc: PDFKit.PDFDocument,
+  resume: Resume,
+  x: number,
+  y: number,
+  width: number,
+  style: PdfStyle
+) {
+  const { profile } = resume;
+  const align = style.nameAlign;
+  doc.fontSize(style.nameSize);
+  writeText(doc, formatResumeTitle(resume), style.bold, x, y, {
+    width,
+    align,
+  });
+  if (!profile) return;
+
+  doc.fontSize(style.bodySize);
+  if (profile.headline) {
+    writeText(doc, profile.headline, style.italic, x, doc.y, {
+      width,
+      align,
+    });
+  }
+  const contacts = formatContactItems(profile);
+  if (contacts.length > 0) {
+    writeText(
+      doc,
+      contacts.map((item) => item.text).join(" | "),
+      style.regular,
+      x,
+      doc.y,
+      { width, align }
+    );
+  }
+  if (profile.summary) {
+    sectionHeading(doc, "Summary", x, width, style);
+    doc.fontSize(style.bodySize);
+    writeText(doc, profile.summary, style.regular, x, doc.y, { width });
+  }
+}
+
+function singleColumn(style: PdfStyle) {
+  return (doc: PDFKit.PDFDocument, resume: Resume) => {
+    const x = doc.page.margins.left;
+    const width =
+      doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+    renderHeader(doc, resume, x, doc.y, width, style);
+    renderExperience(doc, resume, x, width, style);
+    renderEducation(doc, resume, x, width, style);
+    renderSections(doc, resume, x, width, style);
+  };
+}
+
+const compactStyle: PdfStyle = {
+  ...PDF_FONT_FAMILIES.sans,
+  nameSize: 18,
+  nameAlign: "left",
+  headingSize: 10,
+  headingRule: true,
+  bodySize: 9,
+  rightAlignDetails: true,
+  accentColor: "#1e3a8a",
+};
+
+const SIDEBAR_WIDTH = 140;
+const COLUMN_GAP = 18;
+
+// Experience runs down the wide right column and is drawn first so it comes
+// first in the text layer; the skills sidebar is added to page one afterwards,
+// and carries on in the sidebar of the following pages when it is too long
+function compactTwoColumn(doc: PDFKit.PDFDocument, resume: Resume) {
+  const left = doc.page.margins.left;
+  const top = doc.page.margins.top;
+  const contentWidth =
+    doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const mainX = left + SIDEBAR_WIDTH + COLUMN_GAP;
+  const mainWidth = contentWidth - SIDEBAR_WIDTH - COLUMN_GAP;
+
+  renderHeader(doc, resume, mainX, top, mainWidth, compactStyle);
+  renderExperience(doc, resume, mainX, mainWidth, compactStyle);
+  renderEducation(doc, resume, mainX, mainWidth, compactStyle);
+  renderSections(doc, resume, mainX, mainWidth, compactStyle);
+
+  const skills = Array.from(
+    new Set([
+      ...resume.companies.flatMap((company) =>
+        company.jobs.flatMap((job) =>
+          job.bullet_points.flatMap((bp) => bp.skills)
+        )
+      ),
+      ...[
+        ...resume.projects,
+        ...resume.certifications,
+        ...resume.publications,
+      ].flatMap((entry) => entry.bullet_points.flatMap((bp) => bp.skills)),
+    ])
+  );
+  if (skills.length === 0) return;
+
+  doc.switchToPage(0);
+  doc.y = top;
+  sectionHeading(doc, "Skills", left, SIDEBAR_WIDTH, compactStyle);
+  doc.fontSize(compactStyle.bodySize);
+  let page = 0;
+  for (const skill of skills) {
+    // ensureSpace would add the page after the last one rather than move on
+    // to the next page's sidebar
+    selectFont(doc, compactStyle.regular);
+    const height = doc.heightOfString(skill, { width: SIDEBAR_WIDTH });
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      page++;
+      if (page < doc.bufferedPageRange().count) {
+        doc.switchToPage(page);
+      } else {
+        doc.addPage();
+      }
+      doc.y = top;
+    }
+    writeText(doc, skill, compactStyle.regular, left, doc.y, {
+      width: SIDEBAR_WIDTH,
+    });
+  }
+}
+
+export const PDF_TEMPLATES = {
+  classic: {
+    name: "Classic",
+    description: "Single column serif layout with dates flush right",
+    render: singleColumn({
+      ...PDF_FONT_FAMILIES.serif,
+      nameSize: 22,
+      nameAlign: "center",
+      headingSize: 12,
+      headingRule: true,
+      bodySize: 11,
+      rightAlignDetails: true,
+      accentColor: "black",
+    }),
+  },
+  compact: {
+    name: "Compact",
+    description: "Two column layout with a skills sidebar",
+    render: compactTwoColumn,
+  },
+  ats: {
+    name: "ATS plain",
+    description: "Plain single column text with no rules or aligned columns",
+    render: singleColumn({
+      ...PDF_FONT_FAMILIES.sans,
+      italic: PDF_FONT_FAMILIES.sans.regular,
+      nameSize: 16,
+      nameAlign: "left",
+      headingSize: 12,
+      headingRule: false,
+      bodySize: 10.5,
+      rightAlignDetails: false,
+      accentColor: "black",
+    }),
+  },
+} satisfies Record<string, PdfTemplate>;
+
+export type PdfTemplateId = keyof typeof PDF_TEMPLATES;
+
+export const DEFAULT_PDF_TEMPLATE: PdfTemplateId = "classic";
+
+export function isPdfTemplateId(template: unknown): template is PdfTemplateId {
+  return (
+    typeof template === "string" &&
+    Object.prototype.hasOwnProperty.call(PDF_TEMPLATES, template)
+  );
+}
+
+export async function renderResumePdf(
+  resume: Resume,
+  templateId: PdfTemplateId = DEFAULT_PDF_TEMPLATE
+): Promise<Buffer> {
+  const template: PdfTemplate = PDF_TEMPLATES[templateId];
+  const doc = new PDFDocument({
+    size: "LETTER",
+    margin: PAGE_MARGIN,
+    bufferPages: true,
+    info: { Title: resume.name },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  template.render(doc, resume);
+  doc.end();
+
+  return await done;
+}
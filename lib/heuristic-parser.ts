@@ -0,0 +1,989 @@
+import { normalizePartialDate } from "./dates";
+import { containsPhrase } from "./resume-generator";
+import {
+  ParsedBulletPoint,
+  ParsedCertification,
+  ParsedEducation,
+  ParsedJob,
+  ParsedProfile,
+  ParsedProject,
+  ParsedPublication,
+  ParsedResume,
+} from "./resume-parser";
+import { normalizeParsedProfile, normalizeUrl } from "./resume-schema";
+
+// Rule-based parser used when no LLM is configured or the LLM call fails. It
+// relies on the line structure of the extracted text: section headers, a
+// date range on or next to each job's header lines, and bullet glyphs.
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+const MONTH_PATTERN =
+  "jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?";
+// A season only tells the year
+const SEASON_PATTERN = "spring|summer|fall|autumn|winter";
+const DATE_PATTERN = `(?:(?:${MONTH_PATTERN})\\.?,?\\s+\\d{4}|(?:${SEASON_PATTERN})\\s+\\d{4}|\\d{1,2}\\/\\d{4}|\\d{4}[-/](?:0?[1-9]|1[0-2])(?!\\d)|\\d{4})`;
+const PRESENT_PATTERN = "present|current|now|today|ongoing";
+
+// "Jan 2020 – Present", "03/2018 - 06/2020", "2019 to 2021"
+const DATE_RANGE = new RegExp(
+  `\\b(${DATE_PATTERN})\\s*(?:–|—|-|to|until|through)\\s*(${DATE_PATTERN}|${PRESENT_PATTERN})\\b`,
+  "i"
+);
+
+const BULLET_GLYPH = /^(?:[•·▪▫●◦○■□►▸‣⁃∙*>~]|[-–—](?=\s))\s*/;
+
+const EXPERIENCE_HEADER =
+  /^(?:(?:(?:work|professional|relevant|industry)\s+)?experience|(?:employment|work|career)\s+history|employment)$/;
+const SKILLS_HEADER =
+  /^(?:(?:technical|core|key)\s+)?(?:skills|competencies|technologies)(?:\s+(?:and|&)\s+\w+)?$|^tech(?:nical)?\s+stack$/;
+const EDUCATION_HEADER =
+  /^(?:\w+\s+)?education(?:\s+(?:and|&)\s+\w+)?$|^academic\s+(?:background|history)$/;
+const PROJECTS_HEADER =
+  /^(?:(?:personal|side|selected|academic|technical|key|open[-\s]source)\s+)?projects$/;
+const CERTIFICATIONS_HEADER =
+  /^(?:(?:professional|technical)\s+)?(?:certifications?|certificates|licen[cs]es)(?:\s+(?:and|&)\s+(?:certifications?|licen[cs]es))?$/;
+const PUBLICATIONS_HEADER =
+  /^(?:publications?|papers)(?:\s+(?:and|&)\s+(?:talks|presentations))?$|^(?:talks|presentations)\s+(?:and|&)\s+publications$/;
+// Talks-only sections; a "Publications & Talks" section is decided per entry
+const TALKS_HEADER =
+  /^(?:(?:conference\s+)?talks|presentations|speaking(?:\s+engagements)?)$/;
+const SUMMARY_HEADER =
+  /^(?:(?:professional|career|executive|personal)\s+)?(?:summary|profile|objective|about(?:\s+me)?)$/;
+const OTHER_HEADER =
+  /^(?:\w+\s+){0,2}(?:education|projects?|certifications?|summary|profile|objective|awards|honou?rs|publications|volunteer(?:ing)?|interests|languages|references|activities|achievements|courses|coursework|training|leadership|contact)(?:\s+\w+)?$/;
+
+const TITLE_WORDS =
+  /\b(?:engineer|developer|programmer|manager|director|analyst|designer|consultant|intern|lead|architect|scientist|specialist|coordinator|administrator|officer|associate|head|vp|vice president|president|founder|co-founder|assistant|technician|representative|researcher|strategist|advisor|owner|partner|principal|supervisor|editor|writer|teacher|instructor|accountant|recruiter|product|marketing|sales|support|operations)\b/i;
+
+const INSTITUTION_WORDS =
+  /\b(?:university|universidad|college|institute|school|academy|polytechnic|conservatory|bootcamp)\b/i;
+const DEGREE_WORDS =
+  /\b(?:bachelor|master|doctor(?:ate)?|associate|diploma|certificate|mba|ph\.?\s?d)\b/i;
+// Short forms are matched case-sensitively so "as" or "ma" in running text
+// are not taken for degrees
+const DEGREE_ABBREVIATION =
+  /^(?:B\.?\s?S\.?c?|B\.?\s?A|B\.?\s?Eng|M\.?\s?S\.?c?|M\.?\s?A|M\.?\s?Eng|A\.?\s?A|A\.?\s?S|J\.?\s?D|M\.?\s?D|GED)\.?(?=\s|,|$)/;
+const GPA_PATTERN =
+  /\bGPA\b[:\s]*(\d\.\d{1,2}(?:\s*\/\s*\d(?:\.\d{1,2})?)?)|(\d\.\d{1,2}(?:\s*\/\s*\d(?:\.\d{1,2})?)?)\s*GPA\b/i;
+const HONORS_PATTERN =
+  /\b(?:(?:summa|magna)\s+)?cum\s+laude\b|\bwith\s+(?:high(?:est)?\s+)?(?:honou?rs|distinction)\b|\bdean'?s\s+list\b|\b(?:valedictorian|salutatorian)\b|\bfirst[-\s]class\s+honou?rs\b/gi;
+const SINGLE_DATE = new RegExp(`\\b(${DATE_PATTERN})\\b`, "i");
+const URL_PATTERN =
+  /\b(?:https?:\/\/|www\.)\S+|\b(?:github\.com|gitlab\.com|bitbucket\.org)\/\S+/i;
+const CREDENTIAL_ID_PATTERN =
+  /\b(?:credential|license|licence|certificate)\s*(?:id|no\.?|number|#)\s*:?\s*([A-Za-z0-9-]+)/i;
+const EXPIRES_PATTERN = new RegExp(
+  `\\b(?:expires?|expiry|exp\\.|valid\\s+(?:until|through))\\s*:?\\s*(${DATE_PATTERN})`,
+  "i"
+);
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const PHONE_PATTERN =
+  /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})(?:[\s.-]?\d{2,4}){2,3}/;
+const LINKEDIN_PATTERN = /\b(?:https?:\/\/)?(?:[\w-]+\.)?linkedin\.com\/\S+/i;
+const GITHUB_PATTERN = /\b(?:https?:\/\/)?(?:www\.)?github\.com\/\S+/i;
+// A bare domain such as "janedoe.dev" in the header is a portfolio link
+const DOMAIN_PATTERN =
+  /^(?:https?:\/\/)?(?:www\.)?[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}(?:\/\S*)?$/i;
+const TALK_WORDS =
+  /\b(?:talk|keynote|presented|presentation|speaker|panel|webinar|workshop)\b/i;
+
+const COMPANY_SUFFIX =
+  /^(?:inc|incorporated|llc|ltd|limited|corp|corporation|co|gmbh|plc|ag|sa)\.?$/i;
+
+const CITY_PREFIXES = new Set([
+  "new",
+  "san",
+  "santa",
+  "los",
+  "las",
+  "st.",
+  "saint",
+  "fort",
+  "el",
+  "palo",
+  "salt",
+  "lake",
+  "ann",
+  "des",
+  "baton",
+  "grand",
+  "long",
+  "mountain",
+  "jersey",
+  "kansas",
+  "oklahoma",
+  "virginia",
+  "corpus",
+]);
+
+const MAX_JOBS = 100;
+const MAX_HEADER_LINES = 3;
+const MAX_HEADER_LINE_LENGTH = 120;
+// A line below the date range is only taken as part of the header when it is
+// short; longer lines are usually the first bullet wrapped without a glyph
+const MAX_TRAILING_HEADER_LINE_LENGTH = 60;
+const MIN_BULLET_POINT_LENGTH = 10;
+const MAX_SKILL_LENGTH = 50;
+const MAX_SKILLS = 300;
+const MAX_SKILLS_PER_BULLET_POINT = 5;
+const MAX_EDUCATION = 20;
+const MAX_SECTION_ENTRIES = 50;
+const MAX_PROFILE_LINES = 6;
+const MAX_NAME_LENGTH = 60;
+const MAX_SUMMARY_LENGTH = 5000;
+
+type Section =
+  | "experience"
+  | "skills"
+  | "education"
+  | "projects"
+  | "certifications"
+  | "publications"
+  | "talks"
+  | "summary"
+  | "other"
+  | null;
+
+function headerSection(line: string): Section {
+  if (line.length > 40 || /\d/.test(line)) return null;
+  const normalized = line
+    .toLowerCase()
+    .replace(/[^a-z&\s-]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (EXPERIENCE_HEADER.test(normalized)) return "experience";
+  if (SKILLS_HEADER.test(normalized)) return "skills";
+  if (EDUCATION_HEADER.test(normalized)) return "education";
+  if (PROJECTS_HEADER.test(normalized)) return "projects";
+  if (CERTIFICATIONS_HEADER.test(normalized)) return "certifications";
+  if (TALKS_HEADER.test(normalized)) return "talks";
+  if (PUBLICATIONS_HEADER.test(normalized)) return "publications";
+  if (SUMMARY_HEADER.test(normalized)) return "summary";
+  if (OTHER_HEADER.test(normalized)) return "other";
+  return null;
+}
+
+function isBulletLine(line: string): boolean {
+  return BULLET_GLYPH.test(line);
+}
+
+function stripBulletGlyph(line: string): string {
+  return line.replace(BULLET_GLYPH, "").trim();
+}
+
+// Converts one side of a date range to "YYYY" or "YYYY-MM", as precise as
+// the resume is, or null for "Present"
+function parseDate(value: string): string | null {
+  const text = value.trim().toLowerCase();
+  if (new RegExp(`^(?:${PRESENT_PATTERN})$`).test(text)) return null;
+
+  const monthName = text.match(
+    new RegExp(`^(${MONTH_PATTERN})\\.?,?\\s+(\\d{4})$`)
+  );
+  if (monthName) {
+    const month = MONTHS.indexOf(monthName[1].substring(0, 3)) + 1;
+    return `${monthName[2]}-${String(month).padStart(2, "0")}`;
+  }
+
+  const monthFirst = text.match(/^(\d{1,2})\/(\d{4})$/);
+  if (monthFirst) {
+    return `${monthFirst[2]}-${monthFirst[1].padStart(2, "0")}`;
+  }
+
+  const yearFirst = text.match(/^(\d{4})[-/](\d{1,2})$/);
+  if (yearFirst) {
+    return `${yearFirst[1]}-${yearFirst[2].padStart(2, "0")}`;
+  }
+
+  return text.match(/\d{4}/)![0];
+}
+
+// Education and section dates are stored without a precision, as the first
+// day of the month or year
+function parseFullDate(value: string): string | null {
+  return normalizePartialDate(parseDate(value));
+}
+
+interface HeaderFields {
+  company: string | null;
+  title: string | null;
+  city: string | null;
+  state: string | null;
+  is_remote: boolean;
+}
+
+// Pulls "Remote" and "City, ST" out of a header fragment and returns what is
+// left of it
+function extractLocation(fragment: string, fields: HeaderFields): string {
+  if (/\bremote\b/i.test(fragment)) {
+    fields.is_remote = true;
+    fields.city = null;
+    fields.state = null;
+    fragment = fragment
+      .replace(/[(\[]?\s*\bremote\b\s*[)\]]?/i, "")
+      .replace(/^[\s,]+|[\s,]+$/g, "");
+  }
+  if (fields.is_remote || fields.city) return fragment;
+
+  // A trailing "City, ST". PDF text often runs a right-aligned location into
+  // the company name ("Acme Corp Austin, TX"), so only the last word is taken
+  // as the city unless it follows a common multi-word city prefix.
+  const trailing = fragment.match(
+    /^(.*?)[\s,]*((?:[A-Z][A-Za-z.'-]*\s)*[A-Z][A-Za-z.'-]+),\s*([A-Z]{2})$/
+  );
+  if (trailing && !TITLE_WORDS.test(trailing[2])) {
+    const words = trailing[2].split(" ");
+    let cityStart = words.length - 1;
+    while (
+      cityStart > 0 &&
+      CITY_PREFIXES.has(words[cityStart - 1].toLowerCase())
+    ) {
+      cityStart--;
+    }
+    fields.city = words.slice(cityStart).join(" ");
+    fields.state = trailing[3];
+    return [trailing[1], ...words.slice(0, cityStart)].join(" ").trim();
+  }
+
+  // A fragment that is only "City, Region", e.g. "Berlin, Germany"
+  const whole = fragment.match(
+    /^([A-Z][A-Za-z.'-]+(?:\s[A-Z][A-Za-z.'-]+){0,2}),\s*([A-Z][A-Za-z]+(?:\s[A-Z][A-Za-z]+)?)$/
+  );
+  if (
+    whole &&
+    !TITLE_WORDS.test(fragment) &&
+    !COMPANY_SUFFIX.test(whole[2].trim())
+  ) {
+    fields.city = whole[1];
+    fields.state = whole[2];
+    return "";
+  }
+
+  return fragment;
+}
+
+// Splits header lines such as "Senior Engineer | Acme Corp | Remote" or
+// "Acme Corp — Austin, TX" into company, title and location
+function parseHeaderLines(lines: string[]): HeaderFields {
+  const fields: HeaderFields = {
+    company: null,
+    title: null,
+    city: null,
+    state: null,
+    is_remote: false,
+  };
+
+  const fragments: string[] = [];
+  for (const line of lines) {
+    for (let fragment of line.split(/\s*[|•·\t]\s*|\s+[–—-]\s+/)) {
+      fragment = extractLocation(fragment.trim(), fields);
+      if (!fragment) continue;
+
+      const at = fragment.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i);
+      if (at && TITLE_WORDS.test(at[1])) {
+        fragments.push(at[1], at[2]);
+        continue;
+      }
+
+      // "Senior Engineer, Acme Corp", but not "Acme, Inc."
+      const comma = fragment.match(/^([^,]+),\s*(.+)$/);
+      if (comma && !COMPANY_SUFFIX.test(comma[2].trim())) {
+        fragments.push(comma[1], comma[2]);
+        continue;
+      }
+
+      fragments.push(fragment);
+    }
+  }
+
+  const cleaned = fragments
+    .map((fragment) => fragment.replace(/^[\s,;:()]+|[\s,;:()]+$/g, ""))
+    .filter(Boolean);
+
+  const titleIndex = cleaned.findIndex((fragment) =>
+    TITLE_WORDS.test(fragment)
+  );
+  if (titleIndex !== -1) {
+    fields.title = cleaned[titleIndex];
+    fields.company = cleaned.find((_, i) => i !== titleIndex) || null;
+  } else {
+    // Without a recognizable title the usual layout is company then title
+    fields.company = cleaned[0] || null;
+    fields.title = cleaned[1] || null;
+  }
+
+  return fields;
+}
+
+function looksLikeHeaderLine(line: string): boolean {
+  return (
+    !!line &&
+    !isBulletLine(line) &&
+    line.length <= MAX_HEADER_LINE_LENGTH &&
+    !/[.!?]$/.test(line)
+  );
+}
+
+// First line of the job header that ends at `anchor`, no earlier than `floor`
+function headerStart(lines: string[], anchor: number, floor: number): number {
+  let start = anchor;
+  while (
+    start > floor &&
+    anchor - start < MAX_HEADER_LINES - 1 &&
+    looksLikeHeaderLine(lines[start - 1])
+  ) {
+    start--;
+  }
+  return start;
+}
+
+// Joins wrapped lines back into bullets. Glyph lines always start a bullet;
+// other lines continue the previous bullet unless it already ended a sentence.
+function collectBulletPoints(lines: string[]): string[] {
+  const bullets: string[] = [];
+  let startNew = true;
+
+  for (const line of lines) {
+    if (isBulletLine(line)) {
+      const text = stripBulletGlyph(line);
+      if (text) {
+        bullets.push(text);
+        startNew = false;
+      } else {
+        // Glyph on a line of its own: the text follows on the next line
+        startNew = true;
+      }
+      continue;
+    }
+
+    const previous = bullets[bullets.length - 1];
+    if (
+      !startNew &&
+      previous !== undefined &&
+      (/^[a-z(]/.test(line) || !/[.!?]$/.test(previous))
+    ) {
+      bullets[bullets.length - 1] = `${previous} ${line}`;
+    } else {
+      bullets.push(line);
+    }
+    startNew = false;
+  }
+
+  return bullets
+    .map((text) => text.trim().substring(0, 5000))
+    .filter((text) => text.length > MIN_BULLET_POINT_LENGTH);
+}
+
+function parseSkills(lines: string[]): string[] {
+  const skills = new Map<string, string>();
+  for (const line of lines) {
+    // "Languages: TypeScript, Go" lists skills after the label
+    const list = stripBulletGlyph(line).replace(/^[^:,]{1,40}:\s*/, "");
+    for (const item of list.split(/\s*[,;|•·\t]\s*|\s+[–—-]\s+/)) {
+      const skill = item.replace(/^(?:and|&)\s+/i, "").trim();
+      if (
+        skill &&
+        skill.length <= MAX_SKILL_LENGTH &&
+        !skills.has(skill.toLowerCase())
+      ) {
+        skills.set(skill.toLowerCase(), skill);
+      }
+    }
+  }
+  return Array.from(skills.values()).slice(0, MAX_SKILLS);
+}
+
+function isDegree(text: string): boolean {
+  return DEGREE_WORDS.test(text) || DEGREE_ABBREVIATION.test(text);
+}
+
+// "BS in Computer Science", "B.S., Computer Science", "BS Computer Science"
+function splitDegree(text: string): { degree: string; field: string | null } {
+  const split =
+    text.match(/^(.+?)\s+in\s+(.+)$/i) ||
+    text.match(/^([^,]+),\s*(.+)$/) ||
+    text.match(new RegExp(`^(${DEGREE_ABBREVIATION.source})\\s+(.+)$`));
+  return split
+    ? { degree: split[1].trim(), field: split[2].trim() }
+    : { degree: text, field: null };
+}
+
+// One education entry from its lines. Dates, GPA and honors are taken out
+// first; the remaining fragments are the institution and the degree.
+function parseEducationEntry(lines: string[]): ParsedEducation | null {
+  let rest = lines.join(" | ");
+  let startDate: string | null = null;
+  let endDate: string | null = null;
+
+  const range = rest.match(DATE_RANGE);
+  const single = rest.match(SINGLE_DATE);
+  if (range) {
+    startDate = parseFullDate(range[1]);
+    endDate = parseFullDate(range[2]);
+    rest = rest.replace(range[0], " ");
+  } else if (single) {
+    // A single date is the graduation date
+    endDate = parseFullDate(single[1]);
+    rest = rest.replace(single[0], " ");
+  }
+  if (startDate && endDate && endDate < startDate) startDate = null;
+
+  let gpa: string | null = null;
+  const gpaMatch = rest.match(GPA_PATTERN);
+  if (gpaMatch) {
+    gpa = (gpaMatch[1] || gpaMatch[2]).replace(/\s+/g, "");
+    rest = rest.replace(gpaMatch[0], " ");
+  }
+
+  const honors = Array.from(
+    new Set((rest.match(HONORS_PATTERN) || []).map((match) => match.trim()))
+  );
+  rest = rest
+    .replace(HONORS_PATTERN, " ")
+    .replace(/\b(?:honou?rs|awards)\s*:\s*([^|]+)/i, (_, listed: string) => {
+      if (listed.trim()) honors.push(listed.trim());
+      return " ";
+    });
+
+  const location: HeaderFields = {
+    company: null,
+    title: null,
+    city: null,
+    state: null,
+    is_remote: false,
+  };
+  const fragments = rest
+    .split(/\s*[|•·\t;]\s*|\s+[–—-]\s+/)
+    .flatMap((fragment) =>
+      // "BS in Physics, Stanford University" names both on one line
+      INSTITUTION_WORDS.test(fragment) && isDegree(fragment)
+        ? fragment.split(/\s*,\s*|\s+(?:at|from)\s+/i)
+        : [fragment]
+    )
+    .map((fragment) =>
+      extractLocation(fragment.trim(), location).replace(
+        /^[\s,;:()]+|[\s,;:()]+$/g,
+        ""
+      )
+    )
+    .filter(Boolean);
+
+  const institution =
+    fragments.find((fragment) => INSTITUTION_WORDS.test(fragment)) ||
+    fragments.find((fragment) => !isDegree(fragment));
+  if (!institution) return null;
+  const degreeText = fragments.find(
+    (fragment) => fragment !== institution && isDegree(fragment)
+  );
+  const { degree, field } = degreeText
+    ? splitDegree(degreeText)
+    : { degree: null, field: null };
+
+  return {
+    institution: institution.substring(0, 255),
+    degree: degree?.substring(0, 255) || null,
+    field: field?.substring(0, 255) || null,
+    start_date: startDate,
+    end_date: endDate,
+    gpa: gpa?.substring(0, 20) || null,
+    honors: honors.join("; ").substring(0, 500) || null,
+  };
+}
+
+// Starts a new entry at a line naming an institution or a degree when the
+// current entry already has one, so "MIT / BS Physics / Stanford / MS
+// Physics" and "BS Physics / MIT / MS Physics / Stanford" both give two
+function parseEducation(lines: string[]): ParsedEducation[] {
+  const groups: string[][] = [];
+  for (const line of lines.map(stripBulletGlyph).filter(Boolean)) {
+    const current = groups[groups.length - 1];
+    const startsEntry =
+      !current ||
+      (INSTITUTION_WORDS.test(line) &&
+        current.some((other) => INSTITUTION_WORDS.test(other))) ||
+      (isDegree(line) && current.some(isDegree));
+    if (startsEntry) {
+      groups.push([line]);
+    } else {
+      current.push(line);
+    }
+  }
+
+  return groups
+    .map(parseEducationEntry)
+    .filter((entry): entry is ParsedEducation => entry !== null)
+    .slice(0, MAX_EDUCATION);
+}
+
+interface SectionEntry {
+  header: string;
+  bulletPoints: ParsedBulletPoint[];
+}
+
+// Splits a projects, certifications or publications section into entries.
+// A line without a bullet glyph starts an entry unless it continues a
+// wrapped bullet (starts in lower case); the bullets below belong to it.
+function parseSectionEntries(
+  lines: string[],
+  skills: string[]
+): SectionEntry[] {
+  const groups: { header: string; body: string[] }[] = [];
+  for (const line of lines) {
+    const current = groups[groups.length - 1];
+    if (isBulletLine(line) || (current?.body.length && /^[a-z(]/.test(line))) {
+      if (current) {
+        current.body.push(line);
+      } else {
+        groups.push({ header: stripBulletGlyph(line), body: [] });
+      }
+    } else {
+      groups.push({ header: line, body: [] });
+    }
+  }
+
+  return groups.slice(0, MAX_SECTION_ENTRIES).map((group) => ({
+    header: group.header,
+    bulletPoints: collectBulletPoints(group.body).map((bullet) => ({
+      text: bullet,
+      skills: skills
+        .filter((skill) => containsPhrase(bullet, skill))
+        .slice(0, MAX_SKILLS_PER_BULLET_POINT),
+    })),
+  }));
+}
+
+// Takes the URL, credential ID, expiry and dates out of a section entry's
+// header line and splits what is left into fragments
+function splitEntryHeader(header: string) {
+  let rest = header;
+  let url: string | null = null;
+  const urlMatch = rest.match(URL_PATTERN);
+  if (urlMatch) {
+    url = urlMatch[0].replace(/[),.;]+$/, "");
+    rest = rest.replace(urlMatch[0], " ");
+  }
+
+  let credentialId: string | null = null;
+  const credential = rest.match(CREDENTIAL_ID_PATTERN);
+  if (credential) {
+    credentialId = credential[1];
+    rest = rest.replace(credential[0], " ");
+  }
+
+  let expiry: string | null = null;
+  const expires = rest.match(EXPIRES_PATTERN);
+  if (expires) {
+    expiry = parseFullDate(expires[1]);
+    rest = rest.replace(expires[0], " ");
+  }
+
+  let start: string | null = null;
+  let end: string | null = null;
+  let single: string | null = null;
+  const range = rest.match(DATE_RANGE);
+  const date = rest.match(SINGLE_DATE);
+  if (range) {
+    start = parseFullDate(range[1]);
+    end = parseFullDate(range[2]);
+    rest = rest.replace(range[0], " ");
+  } else if (date) {
+    single = parseFullDate(date[1]);
+    rest = rest.replace(date[0], " ");
+  }
+  if (start && end && end < start) start = null;
+
+  const fragments = rest
+    .split(/\s*[|•·\t]\s*|,\s+/)
+    .map((fragment) =>
+      fragment
+        .replace(/^(?:issued\s+by|from|at|by)\s+/i, "")
+        .replace(/^[\s,;:()\-–—]+|[\s,;:()\-–—]+$/g, "")
+    )
+    .filter(Boolean);
+
+  return { fragments, url, credentialId, expiry, start, end, single };
+}
+
+function parseProjects(entries: SectionEntry[]): ParsedProject[] {
+  return entries.flatMap((entry) => {
+    const header = splitEntryHeader(entry.header);
+    const name = header.fragments[0];
+    if (!name) return [];
+    return [
+      {
+        name: name.substring(0, 255),
+        role:
+          header.fragments
+            .slice(1)
+            .find((fragment) => TITLE_WORDS.test(fragment))
+            ?.substring(0, 255) || null,
+        url: header.url?.substring(0, 500) || null,
+        start_date: header.start,
+        // A single date is when the project was finished
+        end_date: header.end ?? header.single,
+        bullet_points: entry.bulletPoints,
+      },
+    ];
+  });
+}
+
+function parseCertifications(entries: SectionEntry[]): ParsedCertification[] {
+  return entries.flatMap((entry) => {
+    const header = splitEntryHeader(entry.header);
+    const name = header.fragments[0];
+    if (!name) return [];
+    // "Jan 2021 - Jan 2024" is issued to expiry; a single date is the issue
+    // date unless it was labelled as the expiry
+    return [
+      {
+        name: name.substring(0, 255),
+        issuer: header.fragments[1]?.substring(0, 255) || null,
+        credential_id: header.credentialId?.substring(0, 255) || null,
+        url: header.url?.substring(0, 500) || null,
+        issue_date: header.start ?? header.single,
+        expiry_date: header.expiry ?? header.end,
+        bullet_points: entry.bulletPoints,
+      },
+    ];
+  });
+}
+
+// Titles are often quoted: “Scaling Postgres”, Journal of Databases, 2021
+function parsePublications(
+  entries: SectionEntry[],
+  talksOnly: boolean
+): ParsedPublication[] {
+  return entries.flatMap((entry) => {
+    const quoted = entry.header.match(/["“]([^"”]{3,})["”]/);
+    const header = splitEntryHeader(
+      quoted ? entry.header.replace(quoted[0], " | ") : entry.header
+    );
+    const title = quoted?.[1].trim() || header.fragments[0];
+    if (!title) return [];
+    const venue = header.fragments.find((fragment) => fragment !== title);
+    return [
+      {
+        kind:
+          talksOnly || TALK_WORDS.test(entry.header) ? "talk" : "publication",
+        title: title.substring(0, 500),
+        venue: venue?.substring(0, 255) || null,
+        url: header.url?.substring(0, 500) || null,
+        published_on: header.single ?? header.start,
+        bullet_points: entry.bulletPoints,
+      },
+    ];
+  });
+}
+
+function isContactLine(line: string): boolean {
+  return (
+    EMAIL_PATTERN.test(line) ||
+    PHONE_PATTERN.test(line) ||
+    URL_PATTERN.test(line) ||
+    LINKEDIN_PATTERN.test(line)
+  );
+}
+
+// Number of lines at the top of the resume that hold the name and contact
+// details. They end at the first section header or bullet. When a job comes
+// first, its header lines are left to the job, but never a contact line or
+// the name.
+function profileLineCount(lines: string[], sections: Section[]): number {
+  const end = lines.findIndex(
+    (line, i) => sections[i] || isBulletLine(line) || DATE_RANGE.test(line)
+  );
+  if (end === -1) return Math.min(lines.length, MAX_PROFILE_LINES);
+  if (sections[end] || isBulletLine(lines[end])) {
+    return Math.min(end, MAX_PROFILE_LINES);
+  }
+
+  let floor = 1;
+  lines.slice(0, end).forEach((line, i) => {
+    if (isContactLine(line)) floor = i + 1;
+  });
+  return Math.min(
+    headerStart(lines, end, Math.min(floor, end)),
+    MAX_PROFILE_LINES
+  );
+}
+
+// Name on the first line, then a headline, location, email, phone and links
+// in any order, separated by lines, pipes or bullets
+function parseProfile(
+  headerLines: string[],
+  summaryLines: string[]
+): ParsedProfile | null {
+  const profile: ParsedProfile = {
+    display_name: null,
+    headline: null,
+    email: null,
+    phone: null,
+    location: null,
+    github_url: null,
+    linkedin_url: null,
+    portfolio_url: null,
+    summary: null,
+  };
+
+  const fragments = headerLines.flatMap((line) =>
+    line
+      .split(/\s*[|•·◦\t]\s*|\s+[-–—]\s+/)
+      .map((fragment) => fragment.trim())
+      .filter(Boolean)
+  );
+  for (const fragment of fragments) {
+    const email = fragment.match(EMAIL_PATTERN);
+    const linkedin = fragment.match(LINKEDIN_PATTERN);
+    const github = fragment.match(GITHUB_PATTERN);
+    const url = fragment.match(URL_PATTERN);
+    const phone = fragment.match(PHONE_PATTERN);
+    const location: HeaderFields = {
+      company: null,
+      title: null,
+      city: null,
+      state: null,
+      is_remote: false,
+    };
+
+    if (email) {
+      profile.email ??= email[0];
+    } else if (linkedin) {
+      profile.linkedin_url ??= normalizeUrl(linkedin[0]);
+    } else if (github) {
+      profile.github_url ??= normalizeUrl(github[0]);
+    } else if (url || DOMAIN_PATTERN.test(fragment)) {
+      profile.portfolio_url ??= normalizeUrl(url ? url[0] : fragment);
+    } else if (phone && phone[0].replace(/\D/g, "").length >= 7) {
+      profile.phone ??= phone[0].trim();
+    } else if (
+      !profile.location &&
+      extractLocation(fragment, location) === "" &&
+      (location.city || location.is_remote)
+    ) {
+      profile.location = fragment;
+    } else if (
+      !profile.display_name &&
+      !profile.headline &&
+      fragment.length <= MAX_NAME_LENGTH &&
+      /^[\p{L}][\p{L}.'-]*(?:\s+[\p{L}][\p{L}.'-]*){1,4}$/u.test(fragment)
+    ) {
+      profile.display_name = fragment;
+    } else if (!profile.headline && !/\d{3}/.test(fragment)) {
+      profile.headline = fragment.substring(0, 255);
+    }
+  }
+
+  const summary = summaryLines.map(stripBulletGlyph).join(" ").trim();
+  profile.summary = summary.substring(0, MAX_SUMMARY_LENGTH) || null;
+
+  return normalizeParsedProfile(profile);
+}
+
+export function parseResumeHeuristically(text: string): ParsedResume {
+  const lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  // Group lines by the section header above them. Lines before any header, or
+  // under a header that is not recognized, count as experience only when the
+  // resume has no experience header at all.
+  const sections = lines.map(headerSection);
+  const hasExperienceHeader = sections.includes("experience");
+  const profileLines = profileLineCount(lines, sections);
+  const experienceLines: string[] = [];
+  const skillLines: string[] = [];
+  const educationLines: string[] = [];
+  const projectLines: string[] = [];
+  const certificationLines: string[] = [];
+  const publicationLines: string[] = [];
+  const talkLines: string[] = [];
+  const summaryLines: string[] = [];
+  let current: Section = null;
+  lines.forEach((line, i) => {
+    if (i < profileLines) return;
+    if (sections[i]) {
+      current = sections[i];
+      return;
+    }
+    if (current === "experience" || (!current && !hasExperienceHeader)) {
+      experienceLines.push(line);
+    } else if (current === "skills") {
+      skillLines.push(line);
+    } else if (current === "education") {
+      educationLines.push(line);
+    } else if (current === "projects") {
+      projectLines.push(line);
+    } else if (current === "certifications") {
+      certificationLines.push(line);
+    } else if (current === "publications") {
+      publicationLines.push(line);
+    } else if (current === "talks") {
+      talkLines.push(line);
+    } else if (current === "summary") {
+      summaryLines.push(line);
+    }
+  });
+
+  const skills = parseSkills(skillLines);
+
+  // Every date range outside a bullet anchors one job
+  const anchors = experienceLines
+    .map((line, i) => (!isBulletLine(line) && DATE_RANGE.test(line) ? i : -1))
+    .filter((i) => i !== -1)
+    .slice(0, MAX_JOBS);
+
+  // Header lines are the anchor line plus short lines just above it, and a
+  // line below it when that line is only a location or the title is missing
+  const blocks = anchors.map((anchor, k) => {
+    const floor = k > 0 ? anchors[k - 1] + 1 : 0;
+    const start = headerStart(experienceLines, anchor, floor);
+
+    let end = anchor + 1;
+    const next = experienceLines[end];
+    const nextAnchor = anchors[k + 1] ?? experienceLines.length;
+    if (
+      end < nextAnchor &&
+      looksLikeHeaderLine(next) &&
+      next.length <= MAX_TRAILING_HEADER_LINE_LENGTH
+    ) {
+      const probe = parseHeaderLines([next]);
+      const fields = parseHeaderLines(
+        experienceLines
+          .slice(start, end)
+          .map((line) => line.replace(DATE_RANGE, ""))
+      );
+      if (
+        (!probe.company && !probe.title) ||
+        !fields.title ||
+        !fields.company
+      ) {
+        end++;
+      }
+    }
+
+    return { start, anchor, end };
+  });
+
+  const blockFields = blocks.map((block) =>
+    parseHeaderLines(
+      experienceLines
+        .slice(block.start, block.end)
+        .map((line) => line.replace(DATE_RANGE, ""))
+    )
+  );
+
+  let previous: HeaderFields | null = null;
+  const jobs: ParsedJob[] = [];
+  blocks.forEach((block, k) => {
+    const match = experienceLines[block.anchor].match(DATE_RANGE)!;
+    const startDate = parseDate(match[1]) as string;
+    const endDate = parseDate(match[2]);
+    let fields = blockFields[k];
+
+    // Bullets run until the next job's header lines begin
+    const bodyEnd =
+      k + 1 < blocks.length ? blocks[k + 1].start : experienceLines.length;
+    const bullets = collectBulletPoints(
+      experienceLines.slice(block.end, Math.max(block.end, bodyEnd))
+    );
+
+    // An employer line with its overall dates, followed by the roles held
+    // there ("Acme Corp  2016 – Present", then "Staff Engineer  2022 –
+    // Present", ...), is a header for those roles rather than a job
+    const next = blockFields[k + 1];
+    if (
+      fields.company &&
+      !fields.title &&
+      bullets.length === 0 &&
+      next?.title &&
+      !next.company
+    ) {
+      previous = fields;
+      return;
+    }
+
+    // A title with no company is another role at the previous employer
+    if (!fields.company && fields.title && previous?.company) {
+      fields = { ...previous, title: fields.title };
+    }
+    previous = fields;
+
+    jobs.push({
+      company: (fields.company || "Unknown company").substring(0, 255),
+      city: fields.city?.substring(0, 100) || null,
+      state: fields.state?.substring(0, 50) || null,
+      is_remote: fields.is_remote,
+      title: (fields.title || "Unknown title").substring(0, 255),
+      start_date: startDate,
+      end_date: endDate,
+      is_current: endDate === null,
+      bullet_points: bullets.map((bullet) => ({
+        text: bullet,
+        skills: skills
+          .filter((skill) => containsPhrase(bullet, skill))
+          .slice(0, MAX_SKILLS_PER_BULLET_POINT),
+      })),
+    });
+  });
+
+  return {
+    profile: parseProfile(lines.slice(0, profileLines), summaryLines),
+    jobs,
+    education: parseEducation(educationLines),
+    projects: parseProjects(parseSectionEntries(projectLines, skills)),
+    certifications: parseCertifications(
+      parseSectionEntries(certificationLines, skills)
+    ),
+    publications: [
+      ...parsePublications(
+        parseSectionEntries(publicationLines, skills),
+        false
+      ),
+      ...parsePublications(parseSectionEntries(talkLines, skills), true),
+    ],
+    skills,
+  };
+}
+
+// Where a section or a job begins: `start` is its first line and its header
+// runs up to `headerEnd` (exclusive)
+export interface ResumeSegment {
+  start: number;
+  headerEnd: number;
+  isSection: boolean;
+}
+
+// Sections and jobs in line order. Used to split long resumes without cutting
+// a job in half.
+export function findResumeSegments(lines: string[]): ResumeSegment[] {
+  const segments: ResumeSegment[] = [];
+  let floor = 0;
+  lines.forEach((line, i) => {
+    if (headerSection(line)) {
+      segments.push({ start: i, headerEnd: i + 1, isSection: true });
+      floor = i + 1;
+    } else if (!isBulletLine(line) && DATE_RANGE.test(line)) {
+      segments.push({
+        start: headerStart(lines, i, floor),
+        headerEnd: i + 1,
+        isSection: false,
+      });
+      floor = i + 1;
+    }
+  });
+  return segments;
+}
@@ -0,0 +1,282 @@
+import { waitUntil } from "@vercel/functions";
+import {
+  ResumeImport,
+  ResumeImportProgress,
+  ResumeImportStatus,
+  getResumeImportById,
+  updateDocumentText,
+  updateResumeImportProgress,
+  updateResumeImportStatus,
+} from "./database";
+import { DocumentFormat, extractDocumentText } from "./document-formats";
+import { annotateProvenance } from "./provenance";
+import { ImportSummary, importParsedResume } from "./resume-import";
+import { ParsedResume, parseResumeContent } from "./resume-parser";
+import { consumeRemainingUsage } from "./usage";
+
+// Parsing an upload and saving a reviewed import both run after the response
+// is sent. Their stage, counts and errors are written to the imports row, so
+// the status endpoint can report them from any request.
+//
+// Work left running after a response is only safe where the process keeps
+// running: a long-running server (`next start`), or Vercel, which is told to
+// wait for it. Other serverless hosts freeze the function once the response
+// is sent, so there the work finishes before the response instead.
+
+// A running import that has not reported progress for this long was
+// interrupted, e.g. by a server restart. A single LLM request with repairs can
+// take several minutes, so this is generous.
+const STALLED_IMPORT_MINUTES = 30;
+
+export interface ResumeImportStatusReport {
+  id: number;
+  status: ResumeImportStatus;
+  file_name: string | null;
+  document_id: number | null;
+  parser: ResumeImport["parser"];
+  model: string | null;
+  progress: ResumeImportProgress;
+  error: string | null;
+  summary: ImportSummary | null;
+}
+
+// The status endpoint's view of an import, without the parsed resume
+export function toStatusReport(
+  resumeImport: ResumeImport
+): ResumeImportStatusReport {
+  return {
+    id: resumeImport.id,
+    status: resumeImport.status,
+    file_name: resumeImport.file_name,
+    document_id: resumeImport.document_id,
+    parser: resumeImport.parser,
+    model: resumeImport.model,
+    progress: resumeImport.progress || {},
+    error: resumeImport.error,
+    summary: resumeImport.summary,
+  };
+}
+
+export function isImportRunning(status: ResumeImportStatus): boolean {
+  return status === "extracting" || status === "parsing" || status === "saving";
+}
+
+// Marks an interrupted import so clients stop waiting for it. An interrupted
+// upload fails; an interrupted commit goes back to review so it can be
+// retried, and rows it already wrote are matched rather than duplicated.
+export async function checkForStalledImport(
+  resumeImport: ResumeImport
+): Promise<ResumeImport | null> {
+  const idleMs = Date.now() - new Date(resumeImport.updated_at).getTime();
+  if (
+    !isImportRunning(resumeImport.status) ||
+    idleMs < STALLED_IMPORT_MINUTES * 60 * 1000
+  ) {
+    return resumeImport;
+  }
+
+  const { id, user_id: userId, status } = resumeImport;
+  const updated =
+    status === "saving"
+      ? await updateResumeImportStatus(id, userId, status, "pending", {
+          error: "Saving was interrupted. Please import again.",
+        })
+      : await updateResumeImportStatus(id, userId, status, "failed", {
+          error: "Parsing was interrupted. Please upload the file again.",
+        });
+
+  // Null means the import moved on in the meantime
+  return updated || (await getResumeImportById(id, userId));
+}
+
+// Writes progress one update at a time so a slow write cannot overwrite a
+// newer one. `base` holds counts that stay the same for the whole stage.
+function createProgressWriter(
+  resumeImport: ResumeImport,
+  base: ResumeImportProgress
+) {
+  let latest = Promise.resolve();
+  return {
+    write(progress: ResumeImportProgress) {
+      latest = latest
+        .then(() =>
+          updateResumeImportProgress(resumeImport.id, resumeImport.user_id, {
+            ...base,
+            ...progress,
+          })
+        )
+        .catch((error) =>
+          console.error("Error updating import progress:", error)
+        );
+    },
+    flush: () => latest,
+  };
+}
+
+function countsOf(resume: ParsedResume): ResumeImportProgress {
+  return {
+    jobCount: resume.jobs.length,
+    bulletPointCount: resume.jobs.reduce(
+      (total, job) => total + job.bullet_points.length,
+      0
+    ),
+    skillCount: resume.skills.length,
+  };
+}
+
+// Hosts known to freeze a function after its response, or any host when
+// IMPORT_JOBS_INLINE is "true". Vercel also runs on Lambda but waits for
+// waitUntil, so it is checked first.
+function mustRunInline(): boolean {
+  return (
+    process.env.IMPORT_JOBS_INLINE === "true" ||
+    !!process.env.AWS_LAMBDA_FUNCTION_NAME ||
+    !!process.env.K_SERVICE
+  );
+}
+
+// Resolves once the task is safely scheduled: at once where it can outlive
+// the response, after it finishes where it cannot
+async function runAfterResponse(
+  task: Promise<void>,
+  description: string
+): Promise<void> {
+  const logged = task.catch((error) =>
+    console.error(`Error running ${description}:`, error)
+  );
+  if (process.env.VERCEL) {
+    waitUntil(logged);
+  } else if (mustRunInline()) {
+    await logged;
+  }
+}
+
+// Extracts and parses an upload, or a stored document being parsed again, in
+// the background, leaving the import pending review or failed
+export async function startUploadImport(
+  resumeImport: ResumeImport,
+  buffer: Buffer,
+  format: DocumentFormat
+): Promise<void> {
+  await runAfterResponse(
+    runUploadImport(resumeImport, buffer, format),
+    "upload import"
+  );
+}
+
+async function runUploadImport(
+  resumeImport: ResumeImport,
+  buffer: Buffer,
+  format: DocumentFormat
+) {
+  const { id, user_id: userId } = resumeImport;
+  let stage: ResumeImportStatus = "extracting";
+
+  try {
+    const text = await extractDocumentText(buffer, format);
+    if (resumeImport.document_id) {
+      await updateDocumentText(resumeImport.document_id, userId, text);
+    }
+
+    // Stop if the import was discarded in the meantime
+    if (
+      !(await updateResumeImportStatus(id, userId, stage, "parsing", {
+        extracted_text: text,
+      }))
+    ) {
+      return;
+    }
+    stage = "parsing";
+
+    const progress = createProgressWriter(resumeImport, {});
+    const {
+      resume: parsedResume,
+      parser,
+      model,
+    } = await parseResumeContent(
+      text,
+      (chunksParsed, chunkCount) =>
+        progress.write({ chunksParsed, chunkCount }),
+      // The upload route counted one part of the parse; the other parts of a
+      // long resume are counted here, once it is known how many the LLM is
+      // asked to parse
+      async (chunkCount) => {
+        if (chunkCount < 2) return;
+        const usage = await consumeRemainingUsage(
+          userId,
+          "parse",
+          chunkCount - 1,
+          1
+        );
+        if (!usage.allowed) throw new Error(usage.error!);
+      }
+    );
+    await progress.flush();
+
+    if (parsedResume.jobs.length === 0) {
+      throw new Error("No work experience found in the document.");
+    }
+
+    await updateResumeImportStatus(id, userId, stage, "pending", {
+      parsed_resume: parsedResume,
+      parser,
+      model,
+      progress: countsOf(parsedResume),
+    });
+  } catch (error) {
+    console.error("Error parsing resume:", error);
+    await updateResumeImportStatus(id, userId, stage, "failed", {
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to parse resume. Please try again.",
+    });
+  }
+}
+
+// Saves a reviewed import in the background. The import must already have
+// been moved to "saving"; it ends committed, or pending again on failure so
+// the user can retry.
+export async function startImportCommit(
+  resumeImport: ResumeImport,
+  resume: ParsedResume
+): Promise<void> {
+  await runAfterResponse(
+    runImportCommit(resumeImport, resume),
+    "import commit"
+  );
+}
+
+async function runImportCommit(
+  resumeImport: ResumeImport,
+  resume: ParsedResume
+) {
+  const { id, user_id: userId } = resumeImport;
+
+  try {
+    // The review may have edited or dropped rows, so provenance is measured
+    // again against the text the import was parsed from
+    const annotated = resumeImport.extracted_text
+      ? annotateProvenance(resume, resumeImport.extracted_text)
+      : resume;
+
+    const progress = createProgressWriter(resumeImport, countsOf(resume));
+    progress.write({ jobsSaved: 0, bulletPointsSaved: 0 });
+    const summary = await importParsedResume(
+      userId,
+      annotated,
+      (saved) => progress.write(saved),
+      id
+    );
+    await progress.flush();
+
+    await updateResumeImportStatus(id, userId, "saving", "committed", {
+      summary,
+    });
+  } catch (error) {
+    console.error("Error committing import:", error);
+    await updateResumeImportStatus(id, userId, "saving", "pending", {
+      error: "Failed to save the import. Please try again.",
+    });
+  }
+}
@@ -0,0 +1,274 @@
+import {
+  BulletPoint,
+  Certification,
+  Company,
+  Education,
+  Job,
+  Project,
+  Publication,
+} from "./database";
+import {
+  PartialDate,
+  lastDayOf,
+  parsePartialDate,
+  toPartialDate,
+} from "./dates";
+import { tokenize } from "./resume-generator";
+import {
+  ParsedCertification,
+  ParsedEducation,
+  ParsedJob,
+  ParsedProject,
+  ParsedPublication,
+} from "./resume-parser";
+
+// Legal suffixes that vary between resumes for the same employer
+const COMPANY_SUFFIXES = new Set([
+  "inc",
+  "incorporated",
+  "llc",
+  "ltd",
+  "limited",
+  "corp",
+  "corporation",
+  "co",
+  "company",
+  "gmbh",
+  "plc",
+  "ag",
+  "sa",
+]);
+
+// Share of distinct words two bullets must have in common to count as the
+// same accomplishment reworded
+const NEAR_DUPLICATE_SIMILARITY = 0.75;
+const MIN_TOKENS_FOR_SIMILARITY = 4;
+
+// Letters and digits from any script are kept, so names and bullets written
+// in Japanese, Chinese or Cyrillic still compare by their text. NFKC folds
+// full-width and compatibility forms ("ＡＣＭＥ", "ｶﾞ") into the usual ones.
+function normalizeText(value: string | null | undefined): string {
+  return (value || "")
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}+#]+/gu, " ")
+    .trim();
+}
+
+// Text with nothing left after normalizing, such as only punctuation, never
+// matches anything
+function textsMatch(
+  a: string | null | undefined,
+  b: string | null | undefined
+): boolean {
+  const normalized = normalizeText(a);
+  return normalized !== "" && normalized === normalizeText(b);
+}
+
+// "Acme, Inc." and "ACME Inc" both normalize to "acme"
+export function normalizeCompanyName(name: string): string {
+  const words = normalizeText(name).split(" ");
+  while (words.length > 1 && COMPANY_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+  return words.join(" ");
+}
+
+function companyNamesMatch(a: string, b: string): boolean {
+  const name = normalizeCompanyName(a);
+  return name !== "" && name === normalizeCompanyName(b);
+}
+
+// Locations only rule a match out when both sides name a city and they
+// differ. Resumes often leave the location off or list the employer as remote.
+function locationsMatch(
+  company: Pick<Company, "city" | "state">,
+  parsed: Pick<ParsedJob, "city" | "state">
+): boolean {
+  if (!company.city || !parsed.city) return true;
+  if (!textsMatch(company.city, parsed.city)) return false;
+  return (
+    !company.state || !parsed.state || textsMatch(company.state, parsed.state)
+  );
+}
+
+export function findMatchingCompany(
+  companies: Company[],
+  parsed: ParsedJob
+): Company | null {
+  return (
+    companies.find(
+      (company) =>
+        companyNamesMatch(company.name, parsed.company) &&
+        locationsMatch(company, parsed)
+    ) || null
+  );
+}
+
+// The days a job could have covered: "2019 – 2020" runs from 2019-01-01 to
+// 2020-12-31. ISO dates compare correctly as strings; open-ended roles run to
+// the end of time.
+function dateRange(
+  startDate: PartialDate | null,
+  endDate: PartialDate | null,
+  isCurrent: boolean
+): [string, string] {
+  return [
+    startDate?.date ?? "0000-01-01",
+    isCurrent || !endDate ? "9999-12-31" : lastDayOf(endDate),
+  ];
+}
+
+function parsedDateRange(job: ParsedJob): [string, string] {
+  return dateRange(
+    parsePartialDate(job.start_date),
+    parsePartialDate(job.end_date),
+    job.is_current
+  );
+}
+
+// Same company, same normalized title and overlapping dates
+export function findMatchingJob(
+  jobs: Job[],
+  companyId: number,
+  parsed: ParsedJob
+): Job | null {
+  const [start, end] = parsedDateRange(parsed);
+
+  return (
+    jobs.find((job) => {
+      if (job.company_id !== companyId) return false;
+      if (!textsMatch(job.title, parsed.title)) return false;
+      const [jobStart, jobEnd] = dateRange(
+        toPartialDate(job.start_date, job.start_date_precision),
+        job.end_date &&
+          toPartialDate(job.end_date, job.end_date_precision || "day"),
+        job.is_current
+      );
+      return jobStart <= end && start <= jobEnd;
+    }) || null
+  );
+}
+
+// The same job parsed twice, e.g. from two chunks of a long resume
+export function parsedJobsMatch(a: ParsedJob, b: ParsedJob): boolean {
+  if (!companyNamesMatch(a.company, b.company)) return false;
+  if (!textsMatch(a.title, b.title)) return false;
+  const [aStart, aEnd] = parsedDateRange(a);
+  const [bStart, bEnd] = parsedDateRange(b);
+  return aStart <= bEnd && bStart <= aEnd;
+}
+
+type EducationKey = Pick<ParsedEducation, "institution" | "degree" | "field">;
+
+// Same institution, with degree and field agreeing wherever both sides give
+// one. Resumes often shorten "Bachelor of Science in X" to just "BS".
+export function educationMatches(a: EducationKey, b: EducationKey): boolean {
+  const agree = (x: string | null, y: string | null) =>
+    !x || !y || textsMatch(x, y);
+  return (
+    textsMatch(a.institution, b.institution) &&
+    agree(a.degree, b.degree) &&
+    agree(a.field, b.field)
+  );
+}
+
+export function findMatchingEducation(
+  entries: Education[],
+  parsed: ParsedEducation
+): Education | null {
+  return entries.find((entry) => educationMatches(entry, parsed)) || null;
+}
+
+// Projects and publications match on name or title alone
+export function projectsMatch(
+  a: Pick<ParsedProject, "name">,
+  b: Pick<ParsedProject, "name">
+): boolean {
+  return textsMatch(a.name, b.name);
+}
+
+export function findMatchingProject(
+  projects: Project[],
+  parsed: ParsedProject
+): Project | null {
+  return projects.find((project) => projectsMatch(project, parsed)) || null;
+}
+
+// The same certification name from different issuers (e.g. "Associate") is
+// a different certification
+export function certificationsMatch(
+  a: Pick<ParsedCertification, "name" | "issuer">,
+  b: Pick<ParsedCertification, "name" | "issuer">
+): boolean {
+  return (
+    textsMatch(a.name, b.name) &&
+    (!a.issuer || !b.issuer || companyNamesMatch(a.issuer, b.issuer))
+  );
+}
+
+export function findMatchingCertification(
+  certifications: Certification[],
+  parsed: ParsedCertification
+): Certification | null {
+  return (
+    certifications.find((certification) =>
+      certificationsMatch(certification, parsed)
+    ) || null
+  );
+}
+
+export function publicationsMatch(
+  a: Pick<ParsedPublication, "title">,
+  b: Pick<ParsedPublication, "title">
+): boolean {
+  return textsMatch(a.title, b.title);
+}
+
+export function findMatchingPublication(
+  publications: Publication[],
+  parsed: ParsedPublication
+): Publication | null {
+  return (
+    publications.find((publication) =>
+      publicationsMatch(publication, parsed)
+    ) || null
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  a.forEach((token) => {
+    if (b.has(token)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function isNearDuplicate(tokens: Set<string>, text: string): boolean {
+  if (tokens.size < MIN_TOKENS_FOR_SIMILARITY) return false;
+  const other = new Set(tokenize(text));
+  return (
+    other.size >= MIN_TOKENS_FOR_SIMILARITY &&
+    jaccard(tokens, other) >= NEAR_DUPLICATE_SIMILARITY
+  );
+}
+
+// Exact matches ignore case and punctuation; longer bullets also match when
+// most of their words are shared, which catches small rewordings
+export function findDuplicateBulletPoint(
+  bulletPoints: BulletPoint[],
+  text: string
+): BulletPoint | null {
+  const tokens = new Set(tokenize(text));
+
+  return (
+    bulletPoints.find((bp) => textsMatch(bp.content, text)) ||
+    bulletPoints.find((bp) => isNearDuplicate(tokens, bp.content)) ||
+    null
+  );
+}
+
+export function bulletPointTextsMatch(a: string, b: string): boolean {
+  return textsMatch(a, b) || isNearDuplicate(new Set(tokenize(a)), b);
+}
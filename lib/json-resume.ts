@@ -0,0 +1,495 @@
+import { Resume } from "./resume";
+import { containsPhrase } from "./resume-generator";
+import {
+  comparePartialDates,
+  formatPartialDate,
+  normalizePartialDate,
+  parsePartialDate,
+} from "./dates";
+import { parseLocationText } from "./resume-import";
+import {
+  ParsedBulletPoint,
+  ParsedCertification,
+  ParsedEducation,
+  ParsedJob,
+  ParsedProfile,
+  ParsedProject,
+  ParsedPublication,
+  ParsedResume,
+} from "./resume-parser";
+import { normalizeParsedProfile, normalizeUrl } from "./resume-schema";
+import { formatLocation } from "./exporters/format";
+
+// Subset of the JSON Resume schema (https://jsonresume.org/schema) that maps
+// onto Skillshot's data. Unknown fields are ignored on import.
+export interface JsonResumeLocation {
+  address?: string;
+  postalCode?: string;
+  city?: string;
+  countryCode?: string;
+  region?: string;
+}
+
+export interface JsonResumeProfile {
+  network?: string;
+  username?: string;
+  url?: string;
+}
+
+export interface JsonResumeBasics {
+  name?: string;
+  label?: string;
+  email?: string;
+  phone?: string;
+  url?: string;
+  summary?: string;
+  location?: JsonResumeLocation;
+  profiles?: JsonResumeProfile[];
+}
+
+export interface JsonResumeWork {
+  name?: string;
+  position?: string;
+  location?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+}
+
+export interface JsonResumeEducation {
+  institution?: string;
+  url?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+  score?: string;
+  courses?: string[];
+}
+
+export interface JsonResumeProject {
+  name?: string;
+  description?: string;
+  highlights?: string[];
+  keywords?: string[];
+  startDate?: string;
+  endDate?: string;
+  url?: string;
+  roles?: string[];
+}
+
+export interface JsonResumeCertificate {
+  name?: string;
+  date?: string;
+  issuer?: string;
+  url?: string;
+}
+
+export interface JsonResumePublication {
+  name?: string;
+  publisher?: string;
+  releaseDate?: string;
+  url?: string;
+  summary?: string;
+}
+
+export interface JsonResumeSkill {
+  name?: string;
+  level?: string;
+  keywords?: string[];
+}
+
+export interface JsonResume {
+  $schema?: string;
+  basics?: JsonResumeBasics;
+  work?: JsonResumeWork[];
+  education?: JsonResumeEducation[];
+  projects?: JsonResumeProject[];
+  certificates?: JsonResumeCertificate[];
+  publications?: JsonResumePublication[];
+  skills?: JsonResumeSkill[];
+  meta?: Record<string, unknown>;
+}
+
+const JSON_RESUME_SCHEMA_URL =
+  "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json";
+
+const MAX_WORK_ENTRIES = 200;
+const MAX_HIGHLIGHTS_PER_WORK = 100;
+const MAX_EDUCATION_ENTRIES = 50;
+const MAX_SECTION_ENTRIES = 50;
+
+function cleanString(value: unknown, maxLength: number): string | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  return value.trim().substring(0, maxLength);
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+// GitHub and LinkedIn come from `profiles`, matched by network name or URL.
+// A profile with only a username gets the network's usual URL.
+function basicsToProfile(basics: unknown): ParsedProfile | null {
+  if (!basics || typeof basics !== "object" || Array.isArray(basics)) {
+    return null;
+  }
+
+  const { name, label, email, phone, url, summary, location, profiles } =
+    basics as JsonResumeBasics;
+  const networkUrl = (network: string, baseUrl: string) => {
+    const profile = (Array.isArray(profiles) ? profiles : []).find(
+      (entry) =>
+        cleanString(entry?.network, 100)?.toLowerCase() === network ||
+        cleanString(entry?.url, 500)?.toLowerCase().includes(`${network}.com`)
+    );
+    const username = cleanString(profile?.username, 100);
+    return normalizeUrl(
+      cleanString(profile?.url, 500) ||
+        (username ? `${baseUrl}${username}` : null)
+    );
+  };
+  const place =
+    location && typeof location === "object"
+      ? [location.city, location.region, location.countryCode]
+          .map((part) => cleanString(part, 100))
+          .filter(Boolean)
+          .join(", ")
+      : "";
+
+  return normalizeParsedProfile({
+    display_name: cleanString(name, 255),
+    headline: cleanString(label, 255),
+    email: cleanString(email, 255),
+    phone: cleanString(phone, 50),
+    location: place.substring(0, 255) || null,
+    github_url: networkUrl("github", "https://github.com/"),
+    linkedin_url: networkUrl("linkedin", "https://www.linkedin.com/in/"),
+    portfolio_url: normalizeUrl(cleanString(url, 500)),
+    summary: cleanString(summary, 5000),
+  });
+}
+
+// Converts a JSON Resume document into a ParsedResume so it can be imported
+// with no LLM call. Work entries without a company, position or start date,
+// or with an end date that is invalid or before the start, and other entries
+// without a name or institution, cannot be stored and are counted as skipped. JSON Resume has no talks, so every publication is
+// imported as a publication.
+export function jsonResumeToParsedResume(document: unknown): {
+  resume: ParsedResume;
+  skipped: number;
+} {
+  if (!document || typeof document !== "object" || Array.isArray(document)) {
+    throw new Error("Invalid JSON Resume: expected an object");
+  }
+
+  const {
+    basics,
+    work,
+    education,
+    projects,
+    certificates,
+    publications,
+    skills,
+  } = document as JsonResume;
+  const arrays = { work, education, projects, certificates, publications };
+  for (const [key, value] of Object.entries(arrays)) {
+    if (value !== undefined && !Array.isArray(value)) {
+      throw new Error(`Invalid JSON Resume: ${key} must be an array`);
+    }
+  }
+  if (skills !== undefined && !Array.isArray(skills)) {
+    throw new Error("Invalid JSON Resume: skills must be an array");
+  }
+
+  // Project keywords are skills too
+  const skillNames = new Map<string, string>();
+  for (const name of [
+    ...(skills || []).flatMap((skill) => [
+      skill?.name,
+      ...stringArray(skill?.keywords),
+    ]),
+    ...(projects || []).flatMap((project) => stringArray(project?.keywords)),
+  ]) {
+    const cleaned = cleanString(name, 100);
+    if (cleaned && !skillNames.has(cleaned.toLowerCase())) {
+      skillNames.set(cleaned.toLowerCase(), cleaned);
+    }
+  }
+  const allSkills = Array.from(skillNames.values());
+
+  const toBulletPoints = (texts: string[]): ParsedBulletPoint[] =>
+    texts
+      .map((text) => text.trim().substring(0, 5000))
+      .filter(Boolean)
+      .map((text) => ({
+        text,
+        skills: allSkills.filter((skill) => containsPhrase(text, skill)),
+      }));
+
+  let skipped = 0;
+  const jobs: ParsedJob[] = [];
+  for (const entry of (work || []).slice(0, MAX_WORK_ENTRIES)) {
+    // Older JSON Resume documents used "company" instead of "name"
+    const company = cleanString(
+      entry?.name ?? (entry as { company?: string })?.company,
+      255
+    );
+    const title = cleanString(entry?.position, 255);
+    // JSON Resume dates may be "2020", "2020-03" or "2020-03-15"; job dates
+    // keep that precision. A job with no end date is current, but one whose
+    // end date cannot be read or is before its start is skipped rather than
+    // stored with wrong dates.
+    const startDate = parsePartialDate(entry?.startDate);
+    const endDate = parsePartialDate(entry?.endDate);
+    if (
+      !company ||
+      !title ||
+      !startDate ||
+      (cleanString(entry.endDate, 50) && !endDate) ||
+      (endDate && comparePartialDates(endDate, startDate) < 0)
+    ) {
+      skipped++;
+      continue;
+    }
+
+    const highlights = stringArray(entry.highlights);
+    const texts =
+      highlights.length > 0 ? highlights : stringArray([entry.summary]);
+
+    jobs.push({
+      company,
+      ...parseLocationText(entry.location),
+      title,
+      start_date: formatPartialDate(startDate),
+      end_date: endDate && formatPartialDate(endDate),
+      is_current: !endDate,
+      bullet_points: toBulletPoints(texts.slice(0, MAX_HIGHLIGHTS_PER_WORK)),
+    });
+  }
+
+  skipped += Math.max(0, (work || []).length - MAX_WORK_ENTRIES);
+
+  const parsedEducation: ParsedEducation[] = [];
+  for (const entry of (education || []).slice(0, MAX_EDUCATION_ENTRIES)) {
+    const institution = cleanString(entry?.institution, 255);
+    if (!institution) {
+      skipped++;
+      continue;
+    }
+
+    const startDate = normalizePartialDate(entry.startDate);
+    const endDate = normalizePartialDate(entry.endDate);
+    parsedEducation.push({
+      institution,
+      degree: cleanString(entry.studyType, 255),
+      field: cleanString(entry.area, 255),
+      start_date:
+        startDate && endDate && endDate < startDate ? null : startDate,
+      end_date: endDate,
+      gpa: cleanString(entry.score, 20),
+      honors: null,
+    });
+  }
+
+  skipped += Math.max(0, (education || []).length - MAX_EDUCATION_ENTRIES);
+
+  const parsedProjects: ParsedProject[] = [];
+  for (const entry of (projects || []).slice(0, MAX_SECTION_ENTRIES)) {
+    const name = cleanString(entry?.name, 255);
+    if (!name) {
+      skipped++;
+      continue;
+    }
+
+    const startDate = normalizePartialDate(entry.startDate);
+    const endDate = normalizePartialDate(entry.endDate);
+    const highlights = stringArray(entry.highlights);
+    parsedProjects.push({
+      name,
+      role: cleanString(stringArray(entry.roles)[0], 255),
+      url: cleanString(entry.url, 500),
+      start_date:
+        startDate && endDate && endDate < startDate ? null : startDate,
+      end_date: endDate,
+      bullet_points: toBulletPoints(
+        (highlights.length > 0
+          ? highlights
+          : stringArray([entry.description])
+        ).slice(0, MAX_HIGHLIGHTS_PER_WORK)
+      ),
+    });
+  }
+
+  const parsedCertifications: ParsedCertification[] = [];
+  for (const entry of (certificates || []).slice(0, MAX_SECTION_ENTRIES)) {
+    const name = cleanString(entry?.name, 255);
+    if (!name) {
+      skipped++;
+      continue;
+    }
+
+    parsedCertifications.push({
+      name,
+      issuer: cleanString(entry.issuer, 255),
+      credential_id: null,
+      url: cleanString(entry.url, 500),
+      issue_date: normalizePartialDate(entry.date),
+      expiry_date: null,
+      bullet_points: [],
+    });
+  }
+
+  const parsedPublications: ParsedPublication[] = [];
+  for (const entry of (publications || []).slice(0, MAX_SECTION_ENTRIES)) {
+    const title = cleanString(entry?.name, 500);
+    if (!title) {
+      skipped++;
+      continue;
+    }
+
+    parsedPublications.push({
+      kind: "publication",
+      title,
+      venue: cleanString(entry.publisher, 255),
+      url: cleanString(entry.url, 500),
+      published_on: normalizePartialDate(entry.releaseDate),
+      bullet_points: toBulletPoints(stringArray([entry.summary])),
+    });
+  }
+
+  for (const entries of [projects, certificates, publications]) {
+    skipped += Math.max(0, (entries || []).length - MAX_SECTION_ENTRIES);
+  }
+
+  return {
+    resume: {
+      profile: basicsToProfile(basics),
+      jobs,
+      education: parsedEducation,
+      projects: parsedProjects,
+      certifications: parsedCertifications,
+      publications: parsedPublications,
+      skills: allSkills,
+    },
+    skipped,
+  };
+}
+
+function profileToBasics(resume: Resume): JsonResumeBasics {
+  const { profile } = resume;
+  if (!profile) return {};
+
+  const profiles: JsonResumeProfile[] = [
+    ...(profile.github_url
+      ? [{ network: "GitHub", url: profile.github_url }]
+      : []),
+    ...(profile.linkedin_url
+      ? [{ network: "LinkedIn", url: profile.linkedin_url }]
+      : []),
+  ];
+  return {
+    ...(profile.display_name ? { name: profile.display_name } : {}),
+    ...(profile.headline ? { label: profile.headline } : {}),
+    ...(profile.email ? { email: profile.email } : {}),
+    ...(profile.phone ? { phone: profile.phone } : {}),
+    ...(profile.portfolio_url ? { url: profile.portfolio_url } : {}),
+    ...(profile.summary ? { summary: profile.summary } : {}),
+    // Skillshot keeps the location as free text
+    ...(profile.location ? { location: { city: profile.location } } : {}),
+    ...(profiles.length > 0 ? { profiles } : {}),
+  };
+}
+
+// JSON Resume has no nesting below work entries, so each job becomes its own
+// work entry with the company repeated. It has no talks either, so talks
+// are exported as publications, and certificates have no bullet points.
+export function resumeToJsonResume(resume: Resume): JsonResume {
+  const skills = new Map<string, string>();
+  const collectSkills = (bulletPoints: { skills: string[] }[]) => {
+    for (const bp of bulletPoints) {
+      for (const skill of bp.skills) {
+        skills.set(skill.toLowerCase(), skill);
+      }
+    }
+  };
+
+  const work: JsonResumeWork[] = resume.companies.flatMap((company) =>
+    company.jobs.map((job) => {
+      collectSkills(job.bullet_points);
+
+      const location = formatLocation(company);
+      return {
+        name: company.name,
+        position: job.title,
+        ...(location ? { location } : {}),
+        startDate: job.start_date,
+        ...(job.end_date && !job.is_current ? { endDate: job.end_date } : {}),
+        highlights: job.bullet_points.map((bp) => bp.content),
+      };
+    })
+  );
+
+  return {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: profileToBasics(resume),
+    work,
+    education: resume.education.map((entry) => ({
+      institution: entry.institution,
+      ...(entry.field ? { area: entry.field } : {}),
+      ...(entry.degree ? { studyType: entry.degree } : {}),
+      ...(entry.start_date ? { startDate: entry.start_date } : {}),
+      ...(entry.end_date ? { endDate: entry.end_date } : {}),
+      ...(entry.gpa ? { score: entry.gpa } : {}),
+    })),
+    // Project skills become keywords, which the import reads back as skills
+    projects: resume.projects.map((project): JsonResumeProject => {
+      collectSkills(project.bullet_points);
+      const keywords = Array.from(
+        new Set(project.bullet_points.flatMap((bp) => bp.skills))
+      );
+      return {
+        name: project.name,
+        ...(project.role ? { roles: [project.role] } : {}),
+        ...(project.url ? { url: project.url } : {}),
+        ...(project.start_date ? { startDate: project.start_date } : {}),
+        ...(project.end_date ? { endDate: project.end_date } : {}),
+        highlights: project.bullet_points.map((bp) => bp.content),
+        ...(keywords.length > 0 ? { keywords } : {}),
+      };
+    }),
+    certificates: resume.certifications.map((certification) => {
+      collectSkills(certification.bullet_points);
+      return {
+        name: certification.name,
+        ...(certification.issuer ? { issuer: certification.issuer } : {}),
+        ...(certification.issue_date ? { date: certification.issue_date } : {}),
+        ...(certification.url ? { url: certification.url } : {}),
+      };
+    }),
+    publications: resume.publications.map((publication) => {
+      collectSkills(publication.bullet_points);
+      const summary = publication.bullet_points
+        .map((bp) => bp.content)
+        .join(" ");
+      return {
+        name: publication.title,
+        ...(publication.venue ? { publisher: publication.venue } : {}),
+        ...(publication.published_on
+          ? { releaseDate: publication.published_on }
+          : {}),
+        ...(publication.url ? { url: publication.url } : {}),
+        ...(summary ? { summary } : {}),
+      };
+    }),
+    skills: Array.from(skills.values()).map((name) => ({ name })),
+    meta: {
+      version: "v1.0.0",
+      lastModified: new Date().toISOString(),
+    },
+  };
+}
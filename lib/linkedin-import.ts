@@ -0,0 +1,397 @@
+import {
+  comparePartialDates,
+  formatPartialDate,
+  normalizePartialDate,
+  parsePartialDate,
+} from "./dates";
+import { containsPhrase } from "./resume-generator";
+import { parseLocationText } from "./resume-import";
+import JSZip from "jszip";
+import {
+  ParsedBulletPoint,
+  ParsedCertification,
+  ParsedEducation,
+  ParsedJob,
+  ParsedProfile,
+  ParsedProject,
+  ParsedPublication,
+  ParsedResume,
+} from "./resume-parser";
+import { normalizeParsedProfile, normalizeUrl } from "./resume-schema";
+import { findZipEntry, loadZip, readZipEntryText } from "./zip";
+
+// LinkedIn's "Download your data" archive is a zip of CSV files. Only
+// Positions.csv is required; the profile, education, projects,
+// certifications, publications and skills are imported when their files are
+// present.
+const POSITIONS_FILE = "Positions.csv";
+const PROFILE_FILE = "Profile.csv";
+const EMAIL_ADDRESSES_FILE = "Email Addresses.csv";
+const PHONE_NUMBERS_FILE = "PhoneNumbers.csv";
+const EDUCATION_FILE = "Education.csv";
+const PROJECTS_FILE = "Projects.csv";
+const CERTIFICATIONS_FILE = "Certifications.csv";
+const PUBLICATIONS_FILE = "Publications.csv";
+const SKILLS_FILE = "Skills.csv";
+
+const MAX_POSITIONS = 200;
+const MAX_BULLET_POINTS_PER_POSITION = 50;
+const MAX_EDUCATION_ENTRIES = 50;
+const MAX_SECTION_ENTRIES = 50;
+const MIN_BULLET_POINT_LENGTH = 10;
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and "" escapes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  text = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+// Maps rows to objects keyed by header. Some LinkedIn exports start with
+// "Notes:" lines, so the header is the first row containing `requiredColumn`.
+function toRecords(
+  rows: string[][],
+  requiredColumn: string
+): Record<string, string>[] {
+  const headerIndex = rows.findIndex((row) =>
+    row.some((cell) => cell.trim() === requiredColumn)
+  );
+  if (headerIndex === -1) return [];
+
+  const header = rows[headerIndex].map((cell) => cell.trim());
+  return rows
+    .slice(headerIndex + 1)
+    .map((row) =>
+      Object.fromEntries(header.map((column, i) => [column, row[i] ?? ""]))
+    );
+}
+
+// Records of an optional file, or none when the archive does not have it
+async function readOptionalRecords(
+  zip: JSZip,
+  fileName: string,
+  requiredColumn: string
+): Promise<Record<string, string>[]> {
+  const entry = findZipEntry(zip, fileName);
+  return entry
+    ? toRecords(parseCsv(await readZipEntryText(entry)), requiredColumn)
+    : [];
+}
+
+// LinkedIn writes dates as "Jan 2020" or, when no month was given, "2020".
+// Returns "2020-01" or "2020", keeping the precision for job dates.
+export function parseLinkedInDate(value: string | undefined): string | null {
+  if (!value || !value.trim()) return null;
+
+  const match = value.trim().match(/^(?:([A-Za-z]+)\.?\s+)?(\d{4})$/);
+  if (!match) return null;
+
+  const [, monthName, year] = match;
+  if (!monthName) return year;
+
+  const month = MONTHS.indexOf(monthName.substring(0, 3).toLowerCase());
+  if (month === -1) return null;
+  return `${year}-${String(month + 1).padStart(2, "0")}`;
+}
+
+// Education and section dates are stored as the first day of the month or year
+function parseLinkedInFullDate(value: string | undefined): string | null {
+  return normalizePartialDate(parseLinkedInDate(value));
+}
+
+// Turns a free-text position description into bullet candidates. Lines and
+// bullet glyphs start new bullets; paragraphs of several sentences are split
+// into one bullet per sentence.
+export function splitDescription(description: string): string[] {
+  return description
+    .split(/\r?\n|\s[•·▪●◦]\s/)
+    .map((line) => line.replace(/^\s*[•·▪●◦*-]\s*/, "").trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => paragraph.split(/(?<=[.!?])\s+(?=[A-Z])/))
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > MIN_BULLET_POINT_LENGTH);
+}
+
+// Profile.csv has one row. "Websites" lists links as
+// "[PORTFOLIO:https://jane.dev],[OTHER:https://github.com/jane]". The
+// archive does not include the member's own LinkedIn URL.
+async function readProfile(zip: JSZip): Promise<ParsedProfile | null> {
+  const [profile] = await readOptionalRecords(zip, PROFILE_FILE, "First Name");
+  const emails = await readOptionalRecords(
+    zip,
+    EMAIL_ADDRESSES_FILE,
+    "Email Address"
+  );
+  const [phone] = await readOptionalRecords(zip, PHONE_NUMBERS_FILE, "Number");
+  if (!profile && emails.length === 0 && !phone) return null;
+
+  const email =
+    emails.find((record) => record["Primary"]?.trim() === "Yes") ?? emails[0];
+  const websites = (profile?.["Websites"] || "").match(/https?:\/\/[^\s,\]]+/g);
+  const github = websites?.find((url) => /github\.com\//i.test(url));
+  const portfolio = websites?.find((url) => url !== github);
+  const name = [profile?.["First Name"], profile?.["Last Name"]]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(" ");
+
+  return normalizeParsedProfile({
+    display_name: name.substring(0, 255) || null,
+    headline: profile?.["Headline"]?.trim().substring(0, 255) || null,
+    email: email?.["Email Address"]?.trim().substring(0, 255) || null,
+    phone: phone?.["Number"]?.trim().substring(0, 50) || null,
+    location: profile?.["Geo Location"]?.trim().substring(0, 255) || null,
+    github_url: normalizeUrl(github?.substring(0, 500) ?? null),
+    linkedin_url: null,
+    portfolio_url: normalizeUrl(portfolio?.substring(0, 500) ?? null),
+    summary: profile?.["Summary"]?.trim().substring(0, 5000) || null,
+  });
+}
+
+export async function linkedInArchiveToParsedResume(buffer: Buffer): Promise<{
+  resume: ParsedResume;
+  skipped: number;
+}> {
+  const zip = await loadZip(buffer);
+
+  const positionsEntry = findZipEntry(zip, POSITIONS_FILE);
+  if (!positionsEntry) {
+    throw new Error(
+      `${POSITIONS_FILE} not found. Please upload the full archive from LinkedIn's "Download your data" page.`
+    );
+  }
+
+  const skillRecords = await readOptionalRecords(zip, SKILLS_FILE, "Name");
+  const skills = Array.from(
+    new Map(
+      skillRecords
+        .map((record) => record["Name"]?.trim().substring(0, 100))
+        .filter((name): name is string => !!name)
+        .map((name) => [name.toLowerCase(), name])
+    ).values()
+  );
+
+  const positions = toRecords(
+    parseCsv(await readZipEntryText(positionsEntry)),
+    "Company Name"
+  );
+
+  const toBulletPoints = (description: string | undefined) =>
+    splitDescription(description || "")
+      .slice(0, MAX_BULLET_POINTS_PER_POSITION)
+      .map((text): ParsedBulletPoint => ({
+        text: text.substring(0, 5000),
+        skills: skills.filter((skill) => containsPhrase(text, skill)),
+      }));
+
+  let skipped = 0;
+  const jobs: ParsedJob[] = [];
+  for (const position of positions.slice(0, MAX_POSITIONS)) {
+    const company = position["Company Name"]?.trim().substring(0, 255);
+    const title = position["Title"]?.trim().substring(0, 255);
+    // A position with no end date is current, but one whose end date cannot
+    // be read or is before its start is skipped rather than stored with
+    // wrong dates
+    const startDate = parseLinkedInDate(position["Started On"]);
+    const endDate = parseLinkedInDate(position["Finished On"]);
+    const start = parsePartialDate(startDate);
+    const end = parsePartialDate(endDate);
+    if (
+      !company ||
+      !title ||
+      !start ||
+      (position["Finished On"]?.trim() && !end) ||
+      (end && comparePartialDates(end, start) < 0)
+    ) {
+      skipped++;
+      continue;
+    }
+
+    jobs.push({
+      company,
+      ...parseLocationText(position["Location"]),
+      title,
+      start_date: formatPartialDate(start),
+      end_date: end && formatPartialDate(end),
+      is_current: !end,
+      bullet_points: toBulletPoints(position["Description"]),
+    });
+  }
+
+  skipped += Math.max(0, positions.length - MAX_POSITIONS);
+
+  const schools = await readOptionalRecords(zip, EDUCATION_FILE, "School Name");
+  const education: ParsedEducation[] = [];
+  for (const school of schools.slice(0, MAX_EDUCATION_ENTRIES)) {
+    const institution = school["School Name"]?.trim().substring(0, 255);
+    if (!institution) {
+      skipped++;
+      continue;
+    }
+
+    const startDate = parseLinkedInFullDate(school["Start Date"]);
+    const endDate = parseLinkedInFullDate(school["End Date"]);
+    education.push({
+      institution,
+      degree: school["Degree Name"]?.trim().substring(0, 255) || null,
+      field: null,
+      start_date:
+        startDate && endDate && endDate < startDate ? null : startDate,
+      end_date: endDate,
+      gpa: null,
+      honors: null,
+    });
+  }
+  skipped += Math.max(0, schools.length - MAX_EDUCATION_ENTRIES);
+
+  const projectRecords = await readOptionalRecords(zip, PROJECTS_FILE, "Title");
+  const projects: ParsedProject[] = [];
+  for (const project of projectRecords.slice(0, MAX_SECTION_ENTRIES)) {
+    const name = project["Title"]?.trim().substring(0, 255);
+    if (!name) {
+      skipped++;
+      continue;
+    }
+
+    const startDate = parseLinkedInFullDate(project["Started On"]);
+    const endDate = parseLinkedInFullDate(project["Finished On"]);
+    projects.push({
+      name,
+      role: null,
+      url: project["Url"]?.trim().substring(0, 500) || null,
+      start_date:
+        startDate && endDate && endDate < startDate ? null : startDate,
+      end_date: endDate,
+      bullet_points: toBulletPoints(project["Description"]),
+    });
+  }
+
+  // "Finished On" is when a certification expires
+  const certificationRecords = await readOptionalRecords(
+    zip,
+    CERTIFICATIONS_FILE,
+    "Name"
+  );
+  const certifications: ParsedCertification[] = [];
+  for (const certification of certificationRecords.slice(
+    0,
+    MAX_SECTION_ENTRIES
+  )) {
+    const name = certification["Name"]?.trim().substring(0, 255);
+    if (!name) {
+      skipped++;
+      continue;
+    }
+
+    const issueDate = parseLinkedInFullDate(certification["Started On"]);
+    const expiryDate = parseLinkedInFullDate(certification["Finished On"]);
+    certifications.push({
+      name,
+      issuer: certification["Authority"]?.trim().substring(0, 255) || null,
+      credential_id:
+        certification["License Number"]?.trim().substring(0, 255) || null,
+      url: certification["Url"]?.trim().substring(0, 500) || null,
+      issue_date:
+        issueDate && expiryDate && expiryDate < issueDate ? null : issueDate,
+      expiry_date: expiryDate,
+      bullet_points: [],
+    });
+  }
+
+  const publicationRecords = await readOptionalRecords(
+    zip,
+    PUBLICATIONS_FILE,
+    "Name"
+  );
+  const publications: ParsedPublication[] = [];
+  for (const publication of publicationRecords.slice(0, MAX_SECTION_ENTRIES)) {
+    const title = publication["Name"]?.trim().substring(0, 500);
+    if (!title) {
+      skipped++;
+      continue;
+    }
+
+    publications.push({
+      kind: "publication",
+      title,
+      venue: publication["Publisher"]?.trim().substring(0, 255) || null,
+      url: publication["Url"]?.trim().substring(0, 500) || null,
+      published_on: parseLinkedInFullDate(publication["Published On"]),
+      bullet_points: toBulletPoints(publication["Description"]),
+    });
+  }
+
+  for (const records of [
+    projectRecords,
+    certificationRecords,
+    publicationRecords,
+  ]) {
+    skipped += Math.max(0, records.length - MAX_SECTION_ENTRIES);
+  }
+
+  return {
+    resume: {
+      profile: await readProfile(zip),
+      jobs,
+      education,
+      projects,
+      certifications,
+      publications,
+      skills,
+    },
+    skipped,
+  };
+}
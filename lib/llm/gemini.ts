@@ -0,0 +1,82 @@
+import {
+  GoogleGenerativeAI,
+  HarmBlockThreshold,
+  HarmCategory,
+  ResponseSchema,
+  SchemaType,
+} from "@google/generative-ai";
+import {
+  LlmGenerateOptions,
+  LlmMessage,
+  LlmProvider,
+  LlmSchema,
+} from "./types";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+// Gemini takes an OpenAPI-style schema, which already uses `nullable`
+function toGeminiSchema(schema: LlmSchema): ResponseSchema {
+  return {
+    type: schema.type as SchemaType,
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.nullable ? { nullable: true } : {}),
+    ...(schema.properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [
+              key,
+              toGeminiSchema(value),
+            ])
+          ),
+        }
+      : {}),
+    ...(schema.required ? { required: schema.required } : {}),
+    ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+  };
+}
+
+export function createGeminiProvider(
+  apiKey: string,
+  model: string = DEFAULT_GEMINI_MODEL
+): LlmProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    name: "gemini",
+    model,
+    async generate(messages: LlmMessage[], options: LlmGenerateOptions = {}) {
+      const generativeModel = genAI.getGenerativeModel({
+        model,
+        safetySettings: [
+          {
+            category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+            threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+          },
+          {
+            category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+            threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+          },
+        ],
+        ...(options.json || options.schema
+          ? {
+              generationConfig: {
+                responseMimeType: "application/json",
+                ...(options.schema
+                  ? { responseSchema: toGeminiSchema(options.schema) }
+                  : {}),
+              },
+            }
+          : {}),
+      });
+
+      const result = await generativeModel.generateContent({
+        contents: messages.map((message) => ({
+          role: message.role === "assistant" ? "model" : "user",
+          parts: [{ text: message.content }],
+        })),
+      });
+      const response = await result.response;
+      return response.text();
+    },
+  };
+}
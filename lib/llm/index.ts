@@ -0,0 +1,68 @@
+import { DEFAULT_GEMINI_MODEL, createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOpenAiCompatibleProvider } from "./openai-compatible";
+import { LlmProvider } from "./types";
+
+export type {
+  LlmGenerateOptions,
+  LlmMessage,
+  LlmProvider,
+  LlmSchema,
+} from "./types";
+
+export const LLM_PROVIDERS = ["gemini", "openai", "mock"] as const;
+export type LlmProviderName = (typeof LLM_PROVIDERS)[number];
+
+// LLM_PROVIDER picks the provider; "none" turns LLM parsing off so only the
+// heuristic parser is used. When it is unset, Gemini is used if
+// GOOGLE_GEMINI_API_KEY is present so existing setups keep working.
+export function getConfiguredProviderName(): LlmProviderName | null {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (configured === "none") return null;
+  if (configured) {
+    if (!(LLM_PROVIDERS as readonly string[]).includes(configured)) {
+      throw new Error(
+        `Unknown LLM_PROVIDER "${configured}". Expected one of: ${LLM_PROVIDERS.join(", ")}, none.`
+      );
+    }
+    return configured as LlmProviderName;
+  }
+  return process.env.GOOGLE_GEMINI_API_KEY ? "gemini" : null;
+}
+
+// Returns null when no provider is configured
+export function getLlmProvider(): LlmProvider | null {
+  const name = getConfiguredProviderName();
+  const model = process.env.LLM_MODEL?.trim() || undefined;
+
+  switch (name) {
+    case "gemini": {
+      const apiKey = process.env.GOOGLE_GEMINI_API_KEY;
+      if (!apiKey) {
+        throw new Error(
+          "Gemini API key is not configured. Please set GOOGLE_GEMINI_API_KEY in your environment variables."
+        );
+      }
+      return createGeminiProvider(apiKey, model || DEFAULT_GEMINI_MODEL);
+    }
+    case "openai": {
+      const baseUrl = process.env.LLM_BASE_URL?.trim();
+      if (!baseUrl || !model) {
+        throw new Error(
+          "LLM_BASE_URL and LLM_MODEL must be set to use an OpenAI-compatible provider."
+        );
+      }
+      return createOpenAiCompatibleProvider(
+        baseUrl,
+        model,
+        process.env.LLM_API_KEY?.trim() || undefined
+      );
+    }
+    case "mock":
+      return createMockProvider(
+        process.env.LLM_MOCK_FIXTURE?.trim() || undefined
+      );
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,30 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { LlmProvider } from "./types";
+
+const DEFAULT_FIXTURE = path.join(
+  process.cwd(),
+  "lib",
+  "llm",
+  "fixtures",
+  "parsed-resume.json"
+);
+
+// Returns the fixture file verbatim for every prompt, so uploads work with no
+// network access and always produce the same result
+export function createMockProvider(
+  fixturePath: string = DEFAULT_FIXTURE
+): LlmProvider {
+  return {
+    name: "mock",
+    model: path.basename(fixturePath),
+    async generate() {
+      try {
+        return await readFile(path.resolve(fixturePath), "utf8");
+      } catch (error) {
+        console.error("Error reading LLM mock fixture:", error);
+        throw new Error(`LLM mock fixture not found: ${fixturePath}`);
+      }
+    },
+  };
+}
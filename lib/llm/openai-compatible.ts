@@ -0,0 +1,93 @@
+import {
+  LlmGenerateOptions,
+  LlmMessage,
+  LlmProvider,
+  LlmSchema,
+} from "./types";
+
+// Local models can take minutes on long resumes
+const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Standard JSON Schema expresses nullable fields as a union with "null"
+function toJsonSchema(schema: LlmSchema): Record<string, unknown> {
+  return {
+    type: schema.nullable ? [schema.type, "null"] : schema.type,
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [
+              key,
+              toJsonSchema(value),
+            ])
+          ),
+        }
+      : {}),
+    ...(schema.required ? { required: schema.required } : {}),
+    ...(schema.items ? { items: toJsonSchema(schema.items) } : {}),
+  };
+}
+
+function responseFormat(options: LlmGenerateOptions) {
+  if (options.schema) {
+    return {
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "response",
+          schema: toJsonSchema(options.schema),
+        },
+      },
+    };
+  }
+  return options.json ? { response_format: { type: "json_object" } } : {};
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+// Works with any server that implements the OpenAI chat completions API,
+// including Ollama (http://localhost:11434/v1) and llama.cpp's server
+export function createOpenAiCompatibleProvider(
+  baseUrl: string,
+  model: string,
+  apiKey?: string
+): LlmProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: "openai",
+    model,
+    async generate(messages: LlmMessage[], options: LlmGenerateOptions = {}) {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: 0,
+          ...responseFormat(options),
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new Error(
+          `LLM request failed with status ${response.status}: ${detail.substring(0, 500)}`
+        );
+      }
+
+      const data = (await response.json()) as ChatCompletionResponse;
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== "string") {
+        throw new Error("LLM response did not include any content");
+      }
+      return content;
+    },
+  };
+}
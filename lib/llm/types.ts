@@ -0,0 +1,33 @@
+// Provider-neutral subset of JSON Schema used to request structured output.
+// Each provider converts it to the dialect its API accepts.
+export interface LlmSchema {
+  type: "object" | "array" | "string" | "boolean" | "number" | "integer";
+  description?: string;
+  nullable?: boolean;
+  properties?: Record<string, LlmSchema>;
+  required?: string[];
+  items?: LlmSchema;
+}
+
+export interface LlmMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface LlmGenerateOptions {
+  // Ask the model for a bare JSON response where the provider supports it
+  json?: boolean;
+  // Constrain the JSON response to this schema where the provider supports it
+  schema?: LlmSchema;
+}
+
+// A chat model. Parsing and validation of the response stay with the caller
+// so every provider is held to the same rules.
+export interface LlmProvider {
+  name: string;
+  model: string;
+  generate(
+    messages: LlmMessage[],
+    options?: LlmGenerateOptions
+  ): Promise<string>;
+}
@@ -0,0 +1,83 @@
+import { createHash } from "crypto";
+import {
+  deleteParseCacheEntries,
+  getParseCacheEntry,
+  saveParseCacheEntry,
+} from "./database";
+import type { ParsedResume } from "./resume-parser";
+
+// LLM parse results are cached so uploading the same resume again, or retrying
+// an upload that failed after parsing, does not call the model again and gets
+// the same result back. An entry is keyed by a hash of the text, the prompts
+// and schema it was parsed with, and the model, so changing any of them
+// parses afresh.
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+// PARSE_CACHE_TTL_HOURS sets how long results are kept; 0 turns the cache off
+export function getParseCacheTtlHours(): number {
+  const configured = process.env.PARSE_CACHE_TTL_HOURS?.trim();
+  if (!configured) return DEFAULT_TTL_HOURS;
+
+  const hours = Number(configured);
+  if (!Number.isFinite(hours) || hours < 0) {
+    throw new Error(
+      `PARSE_CACHE_TTL_HOURS must be a number of hours, got "${configured}".`
+    );
+  }
+  return hours;
+}
+
+export function parseCacheKey(
+  text: string,
+  model: string,
+  promptFingerprint: string
+): string {
+  return createHash("sha256")
+    .update(JSON.stringify([text, model, promptFingerprint]))
+    .digest("hex");
+}
+
+// A cache that cannot be read, or is misconfigured, is treated as empty rather
+// than failing the parse
+export async function getCachedParse(
+  cacheKey: string
+): Promise<ParsedResume | null> {
+  try {
+    if (getParseCacheTtlHours() === 0) return null;
+    const entry = await getParseCacheEntry(cacheKey);
+    return entry?.parsed_resume ?? null;
+  } catch (error) {
+    console.error("Error reading parse cache:", error);
+    return null;
+  }
+}
+
+// Expired entries are removed whenever a new one is stored
+export async function cacheParse(
+  cacheKey: string,
+  model: string,
+  resume: ParsedResume
+): Promise<void> {
+  try {
+    const ttlHours = getParseCacheTtlHours();
+    if (ttlHours === 0) return;
+    await saveParseCacheEntry(
+      cacheKey,
+      model,
+      resume,
+      new Date(Date.now() + ttlHours * 60 * 60 * 1000)
+    );
+    await deleteParseCacheEntries(true);
+  } catch (error) {
+    console.error("Error writing parse cache:", error);
+  }
+}
+
+// Removes every cached result, or only the expired ones. Returns how many
+// were removed.
+export async function purgeParseCache(
+  expiredOnly: boolean = false
+): Promise<number> {
+  return deleteParseCacheEntries(expiredOnly);
+}
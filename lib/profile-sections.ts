@@ -0,0 +1,122 @@
+import {
+  SectionBulletPoint,
+  SectionType,
+  Skill,
+  createSectionBulletPoints,
+  deleteSectionBulletPoints,
+  getOrCreateSkills,
+  getSectionBulletPoints,
+  getSectionBulletPointsByUserId,
+  getSkillsForSectionBulletPoints,
+  linkSectionBulletPointsToSkills,
+} from "./database";
+import { ParsedBulletPoint } from "./resume-parser";
+
+// Projects, certifications and publications are returned by the API with
+// their bullet points and each bullet point's skills
+export interface SectionBulletPointWithSkills extends SectionBulletPoint {
+  skills: Skill[];
+}
+
+export type WithSectionBulletPoints<T> = T & {
+  bullet_points: SectionBulletPointWithSkills[];
+};
+
+async function attachSkills(
+  bulletPoints: SectionBulletPoint[]
+): Promise<SectionBulletPointWithSkills[]> {
+  const skillsByBulletPoint = await getSkillsForSectionBulletPoints(
+    bulletPoints.map((bp) => bp.id)
+  );
+  return bulletPoints.map((bp) => ({
+    ...bp,
+    skills: skillsByBulletPoint.get(bp.id) || [],
+  }));
+}
+
+// Loads the bullet points of all of a user's entries of one type at once
+export async function withSectionBulletPoints<T extends { id: number }>(
+  userId: number,
+  sectionType: SectionType,
+  entries: T[]
+): Promise<WithSectionBulletPoints<T>[]> {
+  const bulletPoints = await attachSkills(
+    (await getSectionBulletPointsByUserId(userId)).filter(
+      (bp) => bp[`${sectionType}_id`] !== null
+    )
+  );
+  return entries.map((entry) => ({
+    ...entry,
+    bullet_points: bulletPoints.filter(
+      (bp) => bp[`${sectionType}_id`] === entry.id
+    ),
+  }));
+}
+
+export async function withEntryBulletPoints<T extends { id: number }>(
+  userId: number,
+  sectionType: SectionType,
+  entry: T
+): Promise<WithSectionBulletPoints<T>> {
+  return {
+    ...entry,
+    bullet_points: await attachSkills(
+      await getSectionBulletPoints(userId, sectionType, entry.id)
+    ),
+  };
+}
+
+// Creates an entry's bullet points and links each to its skills
+export async function createSectionBulletPointsWithSkills(
+  userId: number,
+  sectionType: SectionType,
+  sectionId: number,
+  bulletPoints: { content: string; skillIds: number[] }[],
+  importId: number | null = null
+): Promise<SectionBulletPoint[]> {
+  const created = await createSectionBulletPoints(
+    userId,
+    sectionType,
+    sectionId,
+    bulletPoints.map((bp) => bp.content),
+    importId
+  );
+  await linkSectionBulletPointsToSkills(
+    created.flatMap((bulletPoint, i) =>
+      Array.from(new Set(bulletPoints[i].skillIds)).map((skillId) => ({
+        bulletPointId: bulletPoint.id,
+        skillId,
+      }))
+    )
+  );
+  return created;
+}
+
+// Replaces an entry's bullet points, creating any skills they name
+export async function replaceSectionBulletPoints(
+  userId: number,
+  sectionType: SectionType,
+  sectionId: number,
+  bulletPoints: ParsedBulletPoint[]
+): Promise<void> {
+  const skillIds = new Map<string, number>();
+  for (const skill of await getOrCreateSkills(
+    userId,
+    bulletPoints.flatMap((bp) => bp.skills)
+  )) {
+    skillIds.set(skill.name.toLowerCase(), skill.id);
+  }
+
+  await deleteSectionBulletPoints(userId, sectionType, sectionId);
+  await createSectionBulletPointsWithSkills(
+    userId,
+    sectionType,
+    sectionId,
+    bulletPoints.map((bp) => ({
+      content: bp.text,
+      skillIds: bp.skills
+        .map((name) => skillIds.get(name.toLowerCase()))
+        .filter((skillId): skillId is number => skillId !== undefined),
+    }))
+  );
+}
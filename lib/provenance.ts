@@ -0,0 +1,288 @@
+import type {
+  ParsedBulletPoint,
+  ParsedJob,
+  ParsedResume,
+} from "./resume-parser";
+
+// Where a parsed job, bullet point or skill came from in the text its import
+// was parsed from. This is worked out here after parsing, by looking for each
+// row in the text; neither parser reports it.
+
+// Character offsets into the import's extracted text; `end` is exclusive
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export interface Provenance {
+  // Null when the row could not be found in the text
+  source_span: SourceSpan | null;
+  // How closely the row matches the text, from 0 (nothing found) to 1 (found
+  // as written). A text-match score, not the parser's own confidence: rows
+  // the LLM reworded, guessed or inferred score lower.
+  confidence: number;
+}
+
+// The columns provenance is stored in on jobs, bullet points and skills.
+// All three are null for rows that were not imported from a document.
+export interface ProvenanceColumns {
+  source_start?: number | null;
+  source_end?: number | null;
+  confidence?: number | null;
+}
+
+// Below this share of matching words a row is treated as not found
+const MIN_SPAN_MATCH = 0.5;
+// How far either side of a job's title and company its dates are looked for
+const DATE_SEARCH_CHARS = 300;
+const CURRENT_JOB_PATTERN = /\b(present|current|now|today)\b/i;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+interface TextMatch {
+  span: SourceSpan | null;
+  // Share of the searched words found together in the text
+  ratio: number;
+}
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), (match) => ({
+    word: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Finds the run of source words that shares the most words with `text`,
+// allowing for reordering, line breaks and small rewordings. Among equally
+// good runs the one with the smallest `distance` from its start wins.
+function findText(
+  tokens: Token[],
+  text: string,
+  distance: (start: number) => number = (start) => start
+): TextMatch {
+  const wanted = tokenize(text);
+  if (wanted.length === 0 || tokens.length === 0) {
+    return { span: null, ratio: 0 };
+  }
+
+  const needed = new Map<string, number>();
+  for (const { word } of wanted) {
+    needed.set(word, (needed.get(word) || 0) + 1);
+  }
+  // Runs are allowed to be longer than the text for words the parser left out
+  const size = Math.min(
+    wanted.length + Math.ceil(wanted.length / 2),
+    tokens.length
+  );
+  const inWindow = new Map<string, number>();
+  let matched = 0;
+  let best = { matched: -1, index: 0, distance: Infinity };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const added = tokens[i].word;
+    const addedCount = inWindow.get(added) || 0;
+    if (addedCount < (needed.get(added) || 0)) matched++;
+    inWindow.set(added, addedCount + 1);
+
+    if (i >= size) {
+      const removed = tokens[i - size].word;
+      const removedCount = inWindow.get(removed)! - 1;
+      inWindow.set(removed, removedCount);
+      if (removedCount < (needed.get(removed) || 0)) matched--;
+    }
+
+    if (i >= size - 1) {
+      const index = i - size + 1;
+      const windowDistance = distance(tokens[index].start);
+      if (
+        matched > best.matched ||
+        (matched === best.matched && windowDistance < best.distance)
+      ) {
+        best = { matched, index, distance: windowDistance };
+      }
+    }
+  }
+
+  const ratio = best.matched / wanted.length;
+  if (ratio < MIN_SPAN_MATCH) {
+    return { span: null, ratio };
+  }
+
+  // Trim words at either end of the run that are not part of the match
+  const window = tokens.slice(best.index, best.index + size);
+  const first = window.find((token) => needed.has(token.word))!;
+  const last = [...window].reverse().find((token) => needed.has(token.word))!;
+  return { span: { start: first.start, end: last.end }, ratio };
+}
+
+// Prefers runs starting at or after `position`, then the closest before it
+function after(position: number, textLength: number) {
+  return (start: number) =>
+    start >= position ? start - position : textLength + position - start;
+}
+
+function toProvenance(match: TextMatch): Provenance {
+  return { source_span: match.span, confidence: round(match.ratio) };
+}
+
+function coveringSpan(spans: (SourceSpan | null)[]): SourceSpan | null {
+  const found = spans.filter((span): span is SourceSpan => span !== null);
+  if (found.length === 0) return null;
+  return {
+    start: Math.min(...found.map((span) => span.start)),
+    end: Math.max(...found.map((span) => span.end)),
+  };
+}
+
+// A job is checked on its title, company and dates. Dates only count when
+// they appear near the title or company, so a year the parser guessed lowers
+// the score even if it occurs elsewhere in the resume.
+function annotateJob(
+  text: string,
+  tokens: Token[],
+  job: ParsedJob,
+  previousStart: number
+): ParsedJob {
+  // Jobs are usually listed in document order, so prefer the first title
+  // after the previous job
+  const title = findText(tokens, job.title, after(previousStart, text.length));
+  const company = findText(tokens, job.company, (start) =>
+    title.span ? Math.abs(start - title.span.start) : start
+  );
+  const header = coveringSpan([title.span, company.span]);
+
+  const checks = [title.ratio, company.ratio];
+  if (header) {
+    const nearby = text.substring(
+      Math.max(0, header.start - DATE_SEARCH_CHARS),
+      header.end + DATE_SEARCH_CHARS
+    );
+    checks.push(nearby.includes(job.start_date.substring(0, 4)) ? 1 : 0);
+    if (job.is_current) {
+      checks.push(CURRENT_JOB_PATTERN.test(nearby) ? 1 : 0);
+    } else if (job.end_date) {
+      checks.push(nearby.includes(job.end_date.substring(0, 4)) ? 1 : 0);
+    }
+  } else {
+    checks.push(0);
+  }
+
+  const bulletPoints: ParsedBulletPoint[] = job.bullet_points.map((bp) => ({
+    ...bp,
+    provenance: toProvenance(
+      findText(tokens, bp.text, after(header?.start || 0, text.length))
+    ),
+  }));
+
+  // The job's span runs from its header to the last of its bullet points
+  const span =
+    header &&
+    coveringSpan([
+      header,
+      ...bulletPoints.map((bp) => {
+        const bulletSpan = bp.provenance?.source_span || null;
+        return bulletSpan && bulletSpan.start >= header.start
+          ? bulletSpan
+          : null;
+      }),
+    ]);
+
+  return {
+    ...job,
+    bullet_points: bulletPoints,
+    provenance: {
+      source_span: span,
+      confidence: round(
+        checks.reduce((total, check) => total + check, 0) / checks.length
+      ),
+    },
+  };
+}
+
+// A skill found as written scores 1. Skills the parser inferred from the
+// bullet points but that never appear in the text score low.
+function annotateSkill(
+  text: string,
+  tokens: Token[],
+  skill: string
+): Provenance {
+  const escaped = skill.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const exact = new RegExp(
+    `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`,
+    "iu"
+  ).exec(text);
+  if (exact) {
+    return {
+      source_span: { start: exact.index, end: exact.index + exact[0].length },
+      confidence: 1,
+    };
+  }
+  return toProvenance(findText(tokens, skill));
+}
+
+// Adds provenance to the jobs, their bullet points and the skills of a parsed
+// resume, measured against the text it was parsed from
+export function annotateProvenance(
+  resume: ParsedResume,
+  text: string
+): ParsedResume {
+  const tokens = tokenize(text);
+
+  const jobs: ParsedJob[] = [];
+  let previousStart = 0;
+  for (const job of resume.jobs) {
+    const annotated = annotateJob(text, tokens, job, previousStart);
+    previousStart = annotated.provenance?.source_span?.start ?? previousStart;
+    jobs.push(annotated);
+  }
+
+  const skillProvenance: Record<string, Provenance> = {};
+  for (const skill of resume.skills) {
+    skillProvenance[skill.toLowerCase()] = annotateSkill(text, tokens, skill);
+  }
+
+  return { ...resume, jobs, skill_provenance: skillProvenance };
+}
+
+export function toProvenanceColumns(
+  provenance: Provenance | null | undefined
+): ProvenanceColumns {
+  return {
+    source_start: provenance?.source_span?.start ?? null,
+    source_end: provenance?.source_span?.end ?? null,
+    confidence: provenance?.confidence ?? null,
+  };
+}
+
+// Replaces a row's provenance columns with a `provenance` object, null for
+// rows that were not imported from a document
+export function withProvenance<T extends ProvenanceColumns>(
+  row: T
+): Omit<T, keyof ProvenanceColumns> & { provenance: Provenance | null } {
+  const { source_start, source_end, confidence, ...rest } = row;
+  return {
+    ...rest,
+    provenance:
+      confidence === null || confidence === undefined
+        ? null
+        : {
+            source_span:
+              source_start !== null &&
+              source_start !== undefined &&
+              source_end !== null &&
+              source_end !== undefined
+                ? { start: source_start, end: source_end }
+                : null,
+            confidence,
+          },
+  };
+}
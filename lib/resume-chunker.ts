@@ -0,0 +1,221 @@
+import { findResumeSegments } from "./heuristic-parser";
+import {
+  bulletPointTextsMatch,
+  certificationsMatch,
+  educationMatches,
+  parsedJobsMatch,
+  projectsMatch,
+  publicationsMatch,
+} from "./import-matching";
+import {
+  ParsedBulletPoint,
+  ParsedEducation,
+  ParsedJob,
+  ParsedProfile,
+  ParsedResume,
+} from "./resume-parser";
+import { uniqueSkills } from "./resume-schema";
+
+// Long resumes are parsed in several prompts so that no single response has
+// to hold every job. Chunks are cut between sections and jobs where possible.
+export const MAX_CHUNK_LENGTH = 15000;
+
+function length(lines: string[]): number {
+  return lines.reduce((total, line) => total + line.length + 1, 0);
+}
+
+// Splits text into chunks of at most `maxLength` characters, breaking before
+// a section header or a job's header lines. A chunk that starts inside a
+// section repeats that section's header, and one that starts inside a job
+// (only when the job alone is longer than a chunk) also repeats the job's
+// header lines, so each chunk can be parsed on its own.
+export function chunkResumeText(
+  text: string,
+  maxLength = MAX_CHUNK_LENGTH
+): string[] {
+  if (text.length <= maxLength) return [text];
+
+  // Lines longer than a chunk are cut into pieces; there is no better place
+  // to break them
+  const lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .flatMap((line) => {
+      const pieces: string[] = [];
+      for (let i = 0; i < line.length; i += maxLength / 2) {
+        pieces.push(line.substring(i, i + maxLength / 2));
+      }
+      return pieces;
+    });
+
+  const segments = findResumeSegments(lines);
+  if (segments.length === 0 || segments[0].start > 0) {
+    segments.unshift({ start: 0, headerEnd: 0, isSection: false });
+  }
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let sectionHeader: string | null = null;
+
+  const flush = () => {
+    if (current.length > 0) chunks.push(current.join("\n"));
+    current = [];
+  };
+
+  segments.forEach((segment, k) => {
+    const end = segments[k + 1]?.start ?? lines.length;
+    const segmentLines = lines.slice(segment.start, end);
+    if (segment.isSection) sectionHeader = lines[segment.start];
+
+    if (
+      current.length > 0 &&
+      length(current) + length(segmentLines) > maxLength
+    ) {
+      flush();
+    }
+    if (current.length === 0 && !segment.isSection && sectionHeader) {
+      current.push(sectionHeader);
+    }
+    if (length(current) + length(segmentLines) <= maxLength) {
+      current.push(...segmentLines);
+      return;
+    }
+
+    // The segment alone is too long; split it between lines
+    const header = lines.slice(segment.start, segment.headerEnd);
+    const context = [
+      ...(sectionHeader && !segment.isSection ? [sectionHeader] : []),
+      ...header,
+    ];
+    segmentLines.forEach((line, i) => {
+      if (current.length > 0 && length(current) + line.length + 1 > maxLength) {
+        flush();
+        // Repeating the header only helps when it leaves room for content
+        if (length(context) <= maxLength / 2 && i >= header.length) {
+          current.push(...context);
+        }
+      }
+      current.push(line);
+    });
+  });
+  flush();
+
+  return chunks;
+}
+
+function mergeBulletPoints(
+  into: ParsedBulletPoint[],
+  bulletPoints: ParsedBulletPoint[]
+) {
+  for (const bp of bulletPoints) {
+    const duplicate = into.find((existing) =>
+      bulletPointTextsMatch(existing.text, bp.text)
+    );
+    if (duplicate) {
+      duplicate.skills = uniqueSkills([...duplicate.skills, ...bp.skills]);
+    } else {
+      into.push({ ...bp });
+    }
+  }
+}
+
+function mergeJob(into: ParsedJob, job: ParsedJob) {
+  into.city = into.city ?? job.city;
+  into.state = into.state ?? job.state;
+  mergeBulletPoints(into.bullet_points, job.bullet_points);
+}
+
+// Projects, certifications and publications repeated across chunks are
+// merged into the first: it fills in anything it was missing and gains the
+// other's bullet points
+function mergeSectionEntries<T extends { bullet_points: ParsedBulletPoint[] }>(
+  entries: T[],
+  matches: (a: T, b: T) => boolean
+): T[] {
+  const merged: T[] = [];
+  for (const entry of entries) {
+    const existing = merged.find((other) => matches(other, entry));
+    if (!existing) {
+      merged.push({
+        ...entry,
+        bullet_points: entry.bullet_points.map((bp) => ({ ...bp })),
+      });
+      continue;
+    }
+    for (const key of Object.keys(entry) as (keyof T)[]) {
+      if (key !== "bullet_points") existing[key] = existing[key] ?? entry[key];
+    }
+    mergeBulletPoints(existing.bullet_points, entry.bullet_points);
+  }
+  return merged;
+}
+
+// The header is normally in the first chunk, but a summary can spill into
+// the next one, so later chunks only fill fields that are still empty
+function mergeProfiles(
+  profiles: (ParsedProfile | null)[]
+): ParsedProfile | null {
+  let merged: ParsedProfile | null = null;
+  for (const profile of profiles) {
+    if (!profile) continue;
+    if (!merged) {
+      merged = { ...profile };
+      continue;
+    }
+    for (const key of Object.keys(profile) as (keyof ParsedProfile)[]) {
+      merged[key] = merged[key] ?? profile[key];
+    }
+  }
+  return merged;
+}
+
+// Combines the results of parsing each chunk, in chunk order. A job that was
+// split across chunks is parsed once per chunk and merged back into one, and
+// the other sections and skills are de-duplicated.
+export function mergeParsedResumes(parts: ParsedResume[]): ParsedResume {
+  const jobs: ParsedJob[] = [];
+  for (const job of parts.flatMap((part) => part.jobs)) {
+    const existing = jobs.find((other) => parsedJobsMatch(other, job));
+    if (existing) {
+      mergeJob(existing, job);
+    } else {
+      jobs.push({
+        ...job,
+        bullet_points: job.bullet_points.map((bp) => ({ ...bp })),
+      });
+    }
+  }
+
+  const education: ParsedEducation[] = [];
+  for (const entry of parts.flatMap((part) => part.education)) {
+    const existing = education.find((other) => educationMatches(other, entry));
+    if (existing) {
+      // Keep the first entry but fill in anything it was missing
+      for (const key of Object.keys(entry) as (keyof ParsedEducation)[]) {
+        if (key !== "institution") existing[key] = existing[key] ?? entry[key];
+      }
+    } else {
+      education.push({ ...entry });
+    }
+  }
+
+  return {
+    profile: mergeProfiles(parts.map((part) => part.profile)),
+    jobs,
+    education,
+    projects: mergeSectionEntries(
+      parts.flatMap((part) => part.projects),
+      projectsMatch
+    ),
+    certifications: mergeSectionEntries(
+      parts.flatMap((part) => part.certifications),
+      certificationsMatch
+    ),
+    publications: mergeSectionEntries(
+      parts.flatMap((part) => part.publications),
+      publicationsMatch
+    ),
+    skills: uniqueSkills(parts.flatMap((part) => part.skills)),
+  };
+}
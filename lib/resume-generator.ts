@@ -0,0 +1,182 @@
+import {
+  Resume,
+  ResumeBulletPoint,
+  buildResumeEducation,
+  buildResumeProfile,
+  buildResumeSections,
+  loadResumeSource,
+  sortResumeCompanies,
+  toResumeBulletPoint,
+  toResumeCompany,
+  toResumeJob,
+} from "./resume";
+
+export interface GeneratedBulletPoint extends ResumeBulletPoint {
+  score: number;
+  matched_skills: string[];
+  matched_keywords: string[];
+  reasoning: string;
+}
+
+export type GeneratedResume = Resume<GeneratedBulletPoint>;
+
+export interface GenerateResumeOptions {
+  maxBulletPointsPerJob?: number;
+  minBulletPointsPerJob?: number;
+}
+
+const DEFAULT_MAX_BULLET_POINTS_PER_JOB = 4;
+const DEFAULT_MIN_BULLET_POINTS_PER_JOB = 1;
+
+// A linked skill that appears in the posting is a much stronger signal than a
+// shared word in the bullet text
+const SKILL_MATCH_WEIGHT = 3;
+const KEYWORD_MATCH_WEIGHT = 1;
+
+const STOP_WORDS = new Set(
+  (
+    "a about across after all also an and any are as at be been but by can " +
+    "could do for from has have how in including into is it its more most " +
+    "new not of on or our over per should such than that the their them " +
+    "then there these they this those through to up us using was we were " +
+    "what when which while who will with within work would you your"
+  ).split(" ")
+);
+
+export function tokenize(text: string): string[] {
+  return (
+    text.toLowerCase().match(/[a-z0-9][a-z0-9+#.]*[a-z0-9+#]|[a-z0-9]/g) || []
+  ).filter((token) => token.length > 2 && !STOP_WORDS.has(token));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Matches whole phrases only, so "Go" does not match "good" while "C++" and
+// "Node.js" still match
+export function containsPhrase(text: string, phrase: string): boolean {
+  const normalized = phrase.trim().toLowerCase();
+  if (!normalized) return false;
+  const pattern = new RegExp(
+    `(^|[^a-z0-9])${escapeRegExp(normalized)}(?![a-z0-9])`
+  );
+  return pattern.test(text.toLowerCase());
+}
+
+function describeMatch(matchedSkills: string[], matchedKeywords: string[]) {
+  const reasons: string[] = [];
+  if (matchedSkills.length > 0) {
+    reasons.push(
+      `Linked skills mentioned in the posting: ${matchedSkills.join(", ")}`
+    );
+  }
+  if (matchedKeywords.length > 0) {
+    reasons.push(
+      `Shares wording with the posting: ${matchedKeywords.join(", ")}`
+    );
+  }
+  return reasons.join(". ");
+}
+
+export function scoreBulletPoint(
+  bulletPoint: ResumeBulletPoint,
+  posting: string,
+  postingTokens: Set<string>
+): GeneratedBulletPoint {
+  const matchedSkills = bulletPoint.skills.filter((skill) =>
+    containsPhrase(posting, skill)
+  );
+
+  const matchedKeywords = Array.from(
+    new Set(tokenize(bulletPoint.content).filter((t) => postingTokens.has(t)))
+  );
+
+  const score =
+    matchedSkills.length * SKILL_MATCH_WEIGHT +
+    matchedKeywords.length * KEYWORD_MATCH_WEIGHT;
+
+  return {
+    ...bulletPoint,
+    score,
+    matched_skills: matchedSkills,
+    matched_keywords: matchedKeywords,
+    reasoning: describeMatch(matchedSkills, matchedKeywords),
+  };
+}
+
+// Picks the highest scoring bullet points for a job. Jobs with no matching
+// bullets keep the first ones in their list, which puts the newest first
+// and keeps an import's bullets in the resume's order, so the role is not
+// left empty.
+function selectBulletPoints(
+  scored: GeneratedBulletPoint[],
+  maxCount: number,
+  minCount: number
+): GeneratedBulletPoint[] {
+  const ranked = scored
+    .map((bp, index) => ({ bp, index }))
+    .sort((a, b) => b.bp.score - a.bp.score || a.index - b.index)
+    .map(({ bp }) => bp);
+
+  const matching = ranked.filter((bp) => bp.score > 0).slice(0, maxCount);
+  if (matching.length >= minCount) return matching;
+
+  const fillers = ranked
+    .filter((bp) => bp.score === 0)
+    .slice(0, minCount - matching.length)
+    .map((bp) => ({
+      ...bp,
+      reasoning:
+        "No direct match with the posting; kept so the role is not empty",
+    }));
+
+  return [...matching, ...fillers];
+}
+
+export async function generateResume(
+  userId: number,
+  jobDescription: string,
+  options: GenerateResumeOptions = {}
+): Promise<GeneratedResume> {
+  const maxCount =
+    options.maxBulletPointsPerJob ?? DEFAULT_MAX_BULLET_POINTS_PER_JOB;
+  const minCount = Math.min(
+    options.minBulletPointsPerJob ?? DEFAULT_MIN_BULLET_POINTS_PER_JOB,
+    maxCount
+  );
+
+  const source = await loadResumeSource(userId);
+  const postingTokens = new Set(tokenize(jobDescription));
+
+  const companies = source.companies.map((company) => {
+    const jobs = source.jobs
+      .filter((job) => job.company_id === company.id)
+      .map((job) => {
+        const scored = source.bulletPoints
+          .filter((bp) => bp.job_id === job.id && bp.id !== undefined)
+          .map((bp) =>
+            scoreBulletPoint(
+              toResumeBulletPoint(
+                bp,
+                source.skillsByBulletPoint.get(bp.id as number)
+              ),
+              jobDescription,
+              postingTokens
+            )
+          );
+
+        return toResumeJob(job, selectBulletPoints(scored, maxCount, minCount));
+      });
+
+    return toResumeCompany(company, jobs);
+  });
+
+  return {
+    name: "Tailored resume",
+    profile: buildResumeProfile(source),
+    companies: sortResumeCompanies(companies),
+    education: buildResumeEducation(source),
+    ...buildResumeSections(source),
+  };
+}
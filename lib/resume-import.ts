@@ -0,0 +1,1184 @@
+import {
+  BulletPoint,
+  CertificationFields,
+  Company,
+  EducationFields,
+  ProfileFields,
+  ProjectFields,
+  PublicationFields,
+  SectionBulletPoint,
+  SectionType,
+  createBulletPoints,
+  createCertification,
+  createCompany,
+  createEducation,
+  createJob,
+  createProject,
+  createPublication,
+  getBulletPointsByUserId,
+  getCertificationsByUserId,
+  getCompaniesByUserId,
+  getEducationByUserId,
+  getJobsByUserId,
+  getOrCreateSkills,
+  getProfileByUserId,
+  getProjectsByUserId,
+  getPublicationsByUserId,
+  getSectionBulletPointsByUserId,
+  getSkillsForBulletPoints,
+  linkBulletPointsToSkills,
+  saveProfile,
+} from "./database";
+import {
+  comparePartialDates,
+  normalizePartialDate,
+  formatPartialDate,
+  parsePartialDate,
+} from "./dates";
+import {
+  bulletPointTextsMatch,
+  findDuplicateBulletPoint,
+  findMatchingCertification,
+  findMatchingCompany,
+  findMatchingEducation,
+  findMatchingJob,
+  findMatchingProject,
+  findMatchingPublication,
+  normalizeCompanyName,
+} from "./import-matching";
+import { createSectionBulletPointsWithSkills } from "./profile-sections";
+import { Provenance } from "./provenance";
+import {
+  ParsedBulletPoint,
+  ParsedCertification,
+  ParsedEducation,
+  ParsedJob,
+  ParsedProject,
+  ParsedPublication,
+  ParsedResume,
+} from "./resume-parser";
+import { isValidISODate, toWebUrl } from "./resume-schema";
+
+export interface ImportSummary {
+  // Bullet points and skills written by this import
+  jobCount: number;
+  bulletPointCount: number;
+  skillCount: number;
+  companies: { matched: number; created: number };
+  jobsMatched: number;
+  jobsCreated: number;
+  // Bullet points that duplicated one already saved; their skills are added
+  // to the existing bullet point instead
+  bulletPointsSkipped: number;
+  // Education, project, certification and publication entries already saved
+  // are kept; matched sections only gain bullet points they did not have
+  education: { matched: number; created: number };
+  projects: { matched: number; created: number };
+  certifications: { matched: number; created: number };
+  publications: { matched: number; created: number };
+  // Whether the import filled in profile fields that were empty. Fields the
+  // user already set are never overwritten.
+  profileUpdated: boolean;
+  jobs: Array<{
+    company: string;
+    title: string;
+    status: "matched" | "created";
+    bulletPointCount: number;
+    skippedBulletPointCount: number;
+  }>;
+}
+
+// Called after each job is written with the running totals
+export type ImportProgressCallback = (progress: {
+  jobsSaved: number;
+  bulletPointsSaved: number;
+}) => Promise<void> | void;
+
+// Uploads are parsed into a pending import that the user reviews before
+// anything is written. Unconfirmed imports are discarded after this long.
+export const PENDING_IMPORT_TTL_HOURS = 24;
+
+const MAX_REVIEWED_JOBS = 200;
+const MAX_REVIEWED_BULLET_POINTS_PER_JOB = 100;
+const MAX_REVIEWED_SKILLS = 1000;
+const MAX_REVIEWED_EDUCATION = 50;
+const MAX_REVIEWED_SECTION_ENTRIES = 50;
+const MAX_SECTION_BULLET_POINTS = 50;
+const MAX_SKILLS_PER_BULLET_POINT = 20;
+
+const EDUCATION_TEXT_FIELDS = [
+  ["degree", "Degree", 255],
+  ["field", "Field of study", 255],
+  ["gpa", "GPA", 20],
+  ["honors", "Honors", 500],
+] as const;
+
+const EDUCATION_DATE_FIELDS = [
+  ["start_date", "start date"],
+  ["end_date", "end date"],
+] as const;
+
+const PROJECT_TEXT_FIELDS = [
+  ["role", "Role", 255],
+  ["url", "URL", 500],
+] as const;
+
+const PROJECT_DATE_FIELDS = [
+  ["start_date", "start date"],
+  ["end_date", "end date"],
+] as const;
+
+const CERTIFICATION_TEXT_FIELDS = [
+  ["issuer", "Issuer", 255],
+  ["credential_id", "Credential ID", 255],
+  ["url", "URL", 500],
+] as const;
+
+const CERTIFICATION_DATE_FIELDS = [
+  ["issue_date", "issue date"],
+  ["expiry_date", "expiry date"],
+] as const;
+
+const PUBLICATION_TEXT_FIELDS = [
+  ["venue", "Venue", 255],
+  ["url", "URL", 500],
+] as const;
+
+const PUBLICATION_DATE_FIELDS = [["published_on", "publication date"]] as const;
+
+const PROFILE_TEXT_FIELDS = [
+  ["display_name", "Name", 255],
+  ["headline", "Headline", 255],
+  ["email", "Email", 255],
+  ["phone", "Phone", 50],
+  ["location", "Location", 255],
+  ["github_url", "GitHub URL", 500],
+  ["linkedin_url", "LinkedIn URL", 500],
+  ["portfolio_url", "Portfolio URL", 500],
+  ["summary", "Summary", 5000],
+] as const;
+
+const PROFILE_URL_FIELDS = [
+  ["github_url", "GitHub URL"],
+  ["linkedin_url", "LinkedIn URL"],
+  ["portfolio_url", "Portfolio URL"],
+] as const;
+
+// Links are normalized as on the profile ("github.com/jane" gets https://)
+// and must be http or https
+function readUrl(
+  value: string | null,
+  label: string
+): { url: string | null; error: null } | { url: null; error: string } {
+  if (!value) return { url: null, error: null };
+  const url = toWebUrl(value);
+  if (!url) {
+    return { url: null, error: `Invalid ${label}` };
+  }
+  if (url.length > 500) {
+    return { url: null, error: `${label} too long (max 500 characters)` };
+  }
+  return { url, error: null };
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+// Reads optional text and date fields into `target`, returning the first
+// problem found
+function readOptionalFields(
+  entry: Record<string, unknown>,
+  target: Record<string, string | null>,
+  textFields: readonly (readonly [string, string, number])[],
+  dateFields: readonly (readonly [string, string])[]
+): string | null {
+  for (const [key, label, maxLength] of textFields) {
+    const value = entry[key];
+    if (isEmpty(value)) continue;
+    if (typeof value !== "string") {
+      return `${label} must be a string`;
+    }
+    if (value.length > maxLength) {
+      return `${label} too long (max ${maxLength} characters)`;
+    }
+    target[key] = value.trim() || null;
+  }
+
+  for (const [key, label] of dateFields) {
+    const value = entry[key];
+    if (isEmpty(value)) continue;
+    const date = normalizePartialDate(value);
+    if (!date || !isValidISODate(date)) {
+      return `Invalid ${label}`;
+    }
+    target[key] = date;
+  }
+
+  return null;
+}
+
+// The required name of a project, certification or publication
+function readRequiredName(
+  entry: Record<string, unknown>,
+  key: string,
+  label: string,
+  maxLength: number
+): { name: string; error: null } | { name: null; error: string } {
+  const value = entry[key];
+  if (typeof value !== "string" || !value.trim()) {
+    return { name: null, error: `${label} is required` };
+  }
+  if (value.length > maxLength) {
+    return {
+      name: null,
+      error: `${label} too long (max ${maxLength} characters)`,
+    };
+  }
+  return { name: value.trim(), error: null };
+}
+
+function isEntryObject(input: unknown): input is Record<string, unknown> {
+  return !!input && typeof input === "object" && !Array.isArray(input);
+}
+
+// Validates an education entry sent to /api/education or in an import
+// review. Dates may be given as "2020", "2020-05" or "2020-05-15".
+export function parseEducationInput(
+  input: unknown
+):
+  | { education: EducationFields; error: null }
+  | { education: null; error: string } {
+  if (!isEntryObject(input)) {
+    return { education: null, error: "Education entry must be an object" };
+  }
+  const entry = input;
+
+  const institution = readRequiredName(
+    entry,
+    "institution",
+    "Institution",
+    255
+  );
+  if (institution.error !== null) {
+    return { education: null, error: institution.error };
+  }
+
+  const education: EducationFields = {
+    institution: institution.name,
+    degree: null,
+    field: null,
+    start_date: null,
+    end_date: null,
+    gpa: null,
+    honors: null,
+  };
+
+  const error = readOptionalFields(
+    entry,
+    education as unknown as Record<string, string | null>,
+    EDUCATION_TEXT_FIELDS,
+    EDUCATION_DATE_FIELDS
+  );
+  if (error) {
+    return { education: null, error };
+  }
+
+  if (
+    education.start_date &&
+    education.end_date &&
+    education.end_date < education.start_date
+  ) {
+    return {
+      education: null,
+      error: "End date must not be before start date",
+    };
+  }
+
+  return { education, error: null };
+}
+
+// Validates the profile sent to /api/profile or in an import review. Every
+// field is optional; links without a scheme get https://.
+export function parseProfileInput(
+  input: unknown
+): { profile: ProfileFields; error: null } | { profile: null; error: string } {
+  if (!isEntryObject(input)) {
+    return { profile: null, error: "Profile must be an object" };
+  }
+
+  const profile: ProfileFields = {
+    display_name: null,
+    headline: null,
+    email: null,
+    phone: null,
+    location: null,
+    github_url: null,
+    linkedin_url: null,
+    portfolio_url: null,
+    summary: null,
+  };
+  const error = readOptionalFields(
+    input,
+    profile as unknown as Record<string, string | null>,
+    PROFILE_TEXT_FIELDS,
+    []
+  );
+  if (error) {
+    return { profile: null, error };
+  }
+
+  if (profile.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(profile.email)) {
+    return { profile: null, error: "Invalid email" };
+  }
+  for (const [key, label] of PROFILE_URL_FIELDS) {
+    const url = readUrl(profile[key], label);
+    if (url.error !== null) {
+      return { profile: null, error: url.error };
+    }
+    profile[key] = url.url;
+  }
+
+  return { profile, error: null };
+}
+
+// Validates a project sent to /api/projects or in an import review
+export function parseProjectInput(
+  input: unknown
+): { project: ProjectFields; error: null } | { project: null; error: string } {
+  if (!isEntryObject(input)) {
+    return { project: null, error: "Project must be an object" };
+  }
+
+  const name = readRequiredName(input, "name", "Project name", 255);
+  if (name.error !== null) {
+    return { project: null, error: name.error };
+  }
+
+  const project: ProjectFields = {
+    name: name.name,
+    role: null,
+    url: null,
+    start_date: null,
+    end_date: null,
+  };
+  const error = readOptionalFields(
+    input,
+    project as unknown as Record<string, string | null>,
+    PROJECT_TEXT_FIELDS,
+    PROJECT_DATE_FIELDS
+  );
+  if (error) {
+    return { project: null, error };
+  }
+  const url = readUrl(project.url, "URL");
+  if (url.error !== null) {
+    return { project: null, error: url.error };
+  }
+  project.url = url.url;
+  if (
+    project.start_date &&
+    project.end_date &&
+    project.end_date < project.start_date
+  ) {
+    return { project: null, error: "End date must not be before start date" };
+  }
+
+  return { project, error: null };
+}
+
+// Validates a certification sent to /api/certifications or in an import
+// review. A certification without an expiry date does not expire.
+export function parseCertificationInput(
+  input: unknown
+):
+  | { certification: CertificationFields; error: null }
+  | { certification: null; error: string } {
+  if (!isEntryObject(input)) {
+    return { certification: null, error: "Certification must be an object" };
+  }
+
+  const name = readRequiredName(input, "name", "Certification name", 255);
+  if (name.error !== null) {
+    return { certification: null, error: name.error };
+  }
+
+  const certification: CertificationFields = {
+    name: name.name,
+    issuer: null,
+    credential_id: null,
+    url: null,
+    issue_date: null,
+    expiry_date: null,
+  };
+  const error = readOptionalFields(
+    input,
+    certification as unknown as Record<string, string | null>,
+    CERTIFICATION_TEXT_FIELDS,
+    CERTIFICATION_DATE_FIELDS
+  );
+  if (error) {
+    return { certification: null, error };
+  }
+  const url = readUrl(certification.url, "URL");
+  if (url.error !== null) {
+    return { certification: null, error: url.error };
+  }
+  certification.url = url.url;
+  if (
+    certification.issue_date &&
+    certification.expiry_date &&
+    certification.expiry_date < certification.issue_date
+  ) {
+    return {
+      certification: null,
+      error: "Expiry date must not be before issue date",
+    };
+  }
+
+  return { certification, error: null };
+}
+
+// Validates a publication or talk sent to /api/publications or in an import
+// review. `kind` defaults to "publication".
+export function parsePublicationInput(
+  input: unknown
+):
+  | { publication: PublicationFields; error: null }
+  | { publication: null; error: string } {
+  if (!isEntryObject(input)) {
+    return { publication: null, error: "Publication must be an object" };
+  }
+
+  const kind = input.kind ?? "publication";
+  if (kind !== "publication" && kind !== "talk") {
+    return {
+      publication: null,
+      error: 'Kind must be "publication" or "talk"',
+    };
+  }
+
+  const title = readRequiredName(input, "title", "Title", 500);
+  if (title.error !== null) {
+    return { publication: null, error: title.error };
+  }
+
+  const publication: PublicationFields = {
+    kind,
+    title: title.name,
+    venue: null,
+    url: null,
+    published_on: null,
+  };
+  const error = readOptionalFields(
+    input,
+    publication as unknown as Record<string, string | null>,
+    PUBLICATION_TEXT_FIELDS,
+    PUBLICATION_DATE_FIELDS
+  );
+  if (error) {
+    return { publication: null, error };
+  }
+  const url = readUrl(publication.url, "URL");
+  if (url.error !== null) {
+    return { publication: null, error: url.error };
+  }
+  publication.url = url.url;
+
+  return { publication, error: null };
+}
+
+// Validates the bullet points sent with a project, certification or
+// publication: [{ content, skills }], as for /api/bullet-points
+export function parseSectionBulletPointsInput(
+  input: unknown
+):
+  | { bulletPoints: ParsedBulletPoint[]; error: null }
+  | { bulletPoints: null; error: string } {
+  if (!Array.isArray(input)) {
+    return { bulletPoints: null, error: "Bullet points must be an array" };
+  }
+  if (input.length > MAX_SECTION_BULLET_POINTS) {
+    return {
+      bulletPoints: null,
+      error: `Too many bullet points (max ${MAX_SECTION_BULLET_POINTS})`,
+    };
+  }
+
+  const bulletPoints: ParsedBulletPoint[] = [];
+  for (const item of input) {
+    if (typeof item?.content !== "string" || !item.content.trim()) {
+      return { bulletPoints: null, error: "Bullet point content is required" };
+    }
+    if (item.content.length > 5000) {
+      return {
+        bulletPoints: null,
+        error: "Bullet point content too long (max 5000 characters)",
+      };
+    }
+    if (item.skills !== undefined && !Array.isArray(item.skills)) {
+      return { bulletPoints: null, error: "Skills must be an array" };
+    }
+    bulletPoints.push({
+      text: item.content.trim(),
+      skills: skillList(item.skills).slice(0, MAX_SKILLS_PER_BULLET_POINT),
+    });
+  }
+
+  return { bulletPoints, error: null };
+}
+
+function requiredString(value: unknown, maxLength: number): string | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  return value.trim().substring(0, maxLength);
+}
+
+function skillList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((skill): skill is string => typeof skill === "string")
+    .map((skill) => skill.trim().substring(0, 100))
+    .filter(Boolean);
+}
+
+// Bullet points of a reviewed job or section entry, without the unchecked ones
+function reviewedBulletPoints(value: unknown[]): ParsedBulletPoint[] {
+  return value
+    .filter((bp) => (bp as { include?: unknown })?.include !== false)
+    .map((bp) => {
+      const item = bp as { text?: unknown; skills?: unknown } | null;
+      return {
+        text: requiredString(item?.text, 5000) || "",
+        skills: skillList(item?.skills),
+      };
+    })
+    .filter((bp) => bp.text);
+}
+
+// Validates the reviewed entries of one section with `parse`, which returns
+// the entry's fields or an error. Entries the user unchecked are dropped.
+function parseReviewedSection<T>(
+  value: unknown,
+  label: string,
+  parse: (item: unknown) => T | string
+):
+  | { entries: (T & { bullet_points: ParsedBulletPoint[] })[]; error: null }
+  | {
+      entries: null;
+      error: string;
+    } {
+  if (value === undefined) return { entries: [], error: null };
+  if (!Array.isArray(value)) {
+    return { entries: null, error: `${label} must be an array` };
+  }
+  if (value.length > MAX_REVIEWED_SECTION_ENTRIES) {
+    return {
+      entries: null,
+      error: `Too many ${label.toLowerCase()} (max ${MAX_REVIEWED_SECTION_ENTRIES})`,
+    };
+  }
+
+  const entries: (T & { bullet_points: ParsedBulletPoint[] })[] = [];
+  for (const item of value) {
+    if (item?.include === false) continue;
+    const parsed = parse(item);
+    if (typeof parsed === "string") {
+      return { entries: null, error: parsed };
+    }
+    const bulletPoints = item.bullet_points ?? [];
+    if (
+      !Array.isArray(bulletPoints) ||
+      bulletPoints.length > MAX_SECTION_BULLET_POINTS
+    ) {
+      return {
+        entries: null,
+        error: `Bullet points must be an array (max ${MAX_SECTION_BULLET_POINTS})`,
+      };
+    }
+    entries.push({
+      ...parsed,
+      bullet_points: reviewedBulletPoints(bulletPoints),
+    });
+  }
+  return { entries, error: null };
+}
+
+// Validates the edited preview sent back when a pending import is committed.
+// Entries and bullet points the user unchecked carry `include: false` and are
+// dropped; skills are only created if they are still in the top-level list.
+export function parseReviewedResume(
+  input: unknown
+): { resume: ParsedResume; error: null } | { resume: null; error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { resume: null, error: "Resume must be an object" };
+  }
+
+  const {
+    profile,
+    jobs,
+    education,
+    projects,
+    certifications,
+    publications,
+    skills,
+  } = input as {
+    profile?: unknown;
+    jobs?: unknown;
+    education?: unknown;
+    projects?: unknown;
+    certifications?: unknown;
+    publications?: unknown;
+    skills?: unknown;
+  };
+  if (!Array.isArray(jobs)) {
+    return { resume: null, error: "Jobs must be an array" };
+  }
+  if (jobs.length > MAX_REVIEWED_JOBS) {
+    return {
+      resume: null,
+      error: `Too many jobs (max ${MAX_REVIEWED_JOBS})`,
+    };
+  }
+  if (skills !== undefined && !Array.isArray(skills)) {
+    return { resume: null, error: "Skills must be an array" };
+  }
+  if (Array.isArray(skills) && skills.length > MAX_REVIEWED_SKILLS) {
+    return {
+      resume: null,
+      error: `Too many skills (max ${MAX_REVIEWED_SKILLS})`,
+    };
+  }
+
+  if (education !== undefined && !Array.isArray(education)) {
+    return { resume: null, error: "Education must be an array" };
+  }
+  if (Array.isArray(education) && education.length > MAX_REVIEWED_EDUCATION) {
+    return {
+      resume: null,
+      error: `Too many education entries (max ${MAX_REVIEWED_EDUCATION})`,
+    };
+  }
+
+  const parsedEducation: ParsedEducation[] = [];
+  for (const item of education || []) {
+    if (item?.include === false) continue;
+    const parsed = parseEducationInput(item);
+    if (parsed.error !== null) {
+      return { resume: null, error: parsed.error };
+    }
+    parsedEducation.push(parsed.education);
+  }
+
+  // The profile is left out when it was unchecked or not parsed at all
+  let parsedProfile: ProfileFields | null = null;
+  if (
+    profile !== undefined &&
+    profile !== null &&
+    (profile as { include?: unknown }).include !== false
+  ) {
+    const parsed = parseProfileInput(profile);
+    if (parsed.error !== null) {
+      return { resume: null, error: parsed.error };
+    }
+    parsedProfile = parsed.profile;
+  }
+
+  const parsedProjects = parseReviewedSection(projects, "Projects", (item) => {
+    const parsed = parseProjectInput(item);
+    return parsed.error ?? parsed.project;
+  });
+  if (parsedProjects.error !== null) {
+    return { resume: null, error: parsedProjects.error };
+  }
+  const parsedCertifications = parseReviewedSection(
+    certifications,
+    "Certifications",
+    (item) => {
+      const parsed = parseCertificationInput(item);
+      return parsed.error ?? parsed.certification;
+    }
+  );
+  if (parsedCertifications.error !== null) {
+    return { resume: null, error: parsedCertifications.error };
+  }
+  const parsedPublications = parseReviewedSection(
+    publications,
+    "Publications",
+    (item) => {
+      const parsed = parsePublicationInput(item);
+      return parsed.error ?? parsed.publication;
+    }
+  );
+  if (parsedPublications.error !== null) {
+    return { resume: null, error: parsedPublications.error };
+  }
+
+  const parsedJobs: ParsedJob[] = [];
+  for (const item of jobs) {
+    if (item?.include === false) continue;
+
+    const company = requiredString(item?.company, 255);
+    const title = requiredString(item?.title, 255);
+    if (!company || !title) {
+      return { resume: null, error: "Each job needs a company and a title" };
+    }
+
+    const startDate = parsePartialDate(item.start_date);
+    if (!startDate) {
+      return {
+        resume: null,
+        error: `Invalid start date for ${title} at ${company}`,
+      };
+    }
+
+    const isCurrent = item.is_current === true;
+    const endDate = isCurrent ? null : parsePartialDate(item.end_date);
+    if (!isCurrent && item.end_date && !endDate) {
+      return {
+        resume: null,
+        error: `Invalid end date for ${title} at ${company}`,
+      };
+    }
+    if (endDate && comparePartialDates(endDate, startDate) < 0) {
+      return {
+        resume: null,
+        error: `End date is before start date for ${title} at ${company}`,
+      };
+    }
+
+    const bulletPoints = item.bullet_points ?? [];
+    if (!Array.isArray(bulletPoints)) {
+      return { resume: null, error: "Bullet points must be an array" };
+    }
+    if (bulletPoints.length > MAX_REVIEWED_BULLET_POINTS_PER_JOB) {
+      return {
+        resume: null,
+        error: `Too many bullet points for one job (max ${MAX_REVIEWED_BULLET_POINTS_PER_JOB})`,
+      };
+    }
+
+    parsedJobs.push({
+      company,
+      city: requiredString(item.city, 100),
+      state: requiredString(item.state, 50),
+      is_remote: item.is_remote === true,
+      title,
+      start_date: formatPartialDate(startDate),
+      end_date: endDate && formatPartialDate(endDate),
+      is_current: isCurrent,
+      bullet_points: reviewedBulletPoints(bulletPoints),
+    });
+  }
+
+  return {
+    resume: {
+      profile: parsedProfile,
+      jobs: parsedJobs,
+      education: parsedEducation,
+      projects: parsedProjects.entries,
+      certifications: parsedCertifications.entries,
+      publications: parsedPublications.entries,
+      skills: skillList(skills),
+    },
+    error: null,
+  };
+}
+
+// Writes a parsed resume for a user. Every importer (uploads, JSON Resume,
+// LinkedIn) converts its input to a ParsedResume and goes through here.
+// Companies, jobs and bullet points the user already has are reused rather
+// than duplicated, so re-importing an updated resume only adds what changed.
+// Rows are written in batches: all skills at once, then each job's bullet
+// points and skill links. Rows created for an upload record its import.
+export async function importParsedResume(
+  userId: number,
+  parsedResume: ParsedResume,
+  onProgress?: ImportProgressCallback,
+  importId: number | null = null
+): Promise<ImportSummary> {
+  // Create all skills first
+  const skillNames = parsedResume.skills
+    .map((name) => (name || "").trim())
+    .filter(Boolean);
+  const skillMap = new Map<string, number>();
+  for (const skill of await getOrCreateSkills(
+    userId,
+    skillNames,
+    importId,
+    parsedResume.skill_provenance
+  )) {
+    skillMap.set(skill.name.toLowerCase(), skill.id);
+  }
+
+  const [
+    companies,
+    jobs,
+    bulletPoints,
+    education,
+    projects,
+    certifications,
+    publications,
+    sectionBulletPoints,
+  ] = await Promise.all([
+    getCompaniesByUserId(userId),
+    getJobsByUserId(userId),
+    getBulletPointsByUserId(userId),
+    getEducationByUserId(userId),
+    getProjectsByUserId(userId),
+    getCertificationsByUserId(userId),
+    getPublicationsByUserId(userId),
+    getSectionBulletPointsByUserId(userId),
+  ]);
+
+  const summary: ImportSummary = {
+    jobCount: parsedResume.jobs.length,
+    bulletPointCount: 0,
+    skillCount: skillMap.size,
+    companies: { matched: 0, created: 0 },
+    jobsMatched: 0,
+    jobsCreated: 0,
+    bulletPointsSkipped: 0,
+    education: { matched: 0, created: 0 },
+    projects: { matched: 0, created: 0 },
+    certifications: { matched: 0, created: 0 },
+    publications: { matched: 0, created: 0 },
+    profileUpdated: false,
+    jobs: [],
+  };
+
+  // Consecutive roles at one employer (promotions, transfers) share its
+  // company even when only some of them give a location
+  let previousCompanyName: string | null = null;
+  let previousCompany: Company | null = null;
+  for (const jobData of parsedResume.jobs) {
+    const companyName = normalizeCompanyName(jobData.company);
+    let company: Company | null;
+    if (
+      previousCompany &&
+      companyName !== "" &&
+      previousCompanyName === companyName
+    ) {
+      // Already counted with the employer's first role
+      company = previousCompany;
+    } else {
+      company = findMatchingCompany(companies, jobData);
+      if (company) {
+        summary.companies.matched++;
+      } else {
+        company = await createCompany(
+          userId,
+          jobData.company,
+          jobData.city,
+          jobData.state,
+          jobData.is_remote,
+          importId
+        );
+        companies.push(company);
+        summary.companies.created++;
+      }
+    }
+    previousCompanyName = companyName;
+    previousCompany = company;
+
+    const startDate = parsePartialDate(jobData.start_date);
+    const endDate = jobData.end_date
+      ? parsePartialDate(jobData.end_date)
+      : null;
+    if (!startDate || (jobData.end_date && !endDate)) {
+      throw new Error(
+        `Invalid dates for ${jobData.title} at ${jobData.company}`
+      );
+    }
+
+    let job = findMatchingJob(jobs, company.id, jobData);
+    const status = job ? "matched" : "created";
+    if (job) {
+      summary.jobsMatched++;
+    } else {
+      job = await createJob(
+        userId,
+        company.id,
+        jobData.title,
+        startDate,
+        endDate,
+        jobData.is_current,
+        importId,
+        jobData.provenance
+      );
+      jobs.push(job);
+      summary.jobsCreated++;
+    }
+
+    const jobId = job.id;
+    const jobBulletPoints = bulletPoints.filter((bp) => bp.job_id === jobId);
+    const { created, skipped } = await importBulletPoints(
+      userId,
+      jobId,
+      jobData.bullet_points,
+      jobBulletPoints,
+      skillMap,
+      importId
+    );
+    bulletPoints.push(...created);
+
+    summary.bulletPointCount += created.length;
+    summary.bulletPointsSkipped += skipped;
+    summary.jobs.push({
+      company: company.name,
+      title: job.title,
+      status,
+      bulletPointCount: created.length,
+      skippedBulletPointCount: skipped,
+    });
+
+    await onProgress?.({
+      jobsSaved: summary.jobs.length,
+      bulletPointsSaved: summary.bulletPointCount,
+    });
+  }
+
+  for (const entry of parsedResume.education) {
+    if (findMatchingEducation(education, entry)) {
+      summary.education.matched++;
+    } else {
+      education.push(await createEducation(userId, entry, importId));
+      summary.education.created++;
+    }
+  }
+
+  // JSON Resume and LinkedIn imports are not reviewed, so a link that is not
+  // http or https is dropped here rather than stored
+  summary.projects = await importSectionEntries(
+    userId,
+    "project",
+    parsedResume.projects,
+    projects,
+    findMatchingProject,
+    ({ bullet_points, ...fields }) =>
+      createProject(
+        userId,
+        { ...fields, url: readUrl(fields.url, "URL").url },
+        importId
+      ),
+    sectionBulletPoints,
+    skillMap,
+    importId
+  );
+  summary.certifications = await importSectionEntries(
+    userId,
+    "certification",
+    parsedResume.certifications,
+    certifications,
+    findMatchingCertification,
+    ({ bullet_points, ...fields }) =>
+      createCertification(
+        userId,
+        { ...fields, url: readUrl(fields.url, "URL").url },
+        importId
+      ),
+    sectionBulletPoints,
+    skillMap,
+    importId
+  );
+  summary.publications = await importSectionEntries(
+    userId,
+    "publication",
+    parsedResume.publications,
+    publications,
+    findMatchingPublication,
+    ({ bullet_points, ...fields }) =>
+      createPublication(
+        userId,
+        { ...fields, url: readUrl(fields.url, "URL").url },
+        importId
+      ),
+    sectionBulletPoints,
+    skillMap,
+    importId
+  );
+
+  if (parsedResume.profile) {
+    summary.profileUpdated = await importProfile(userId, parsedResume.profile);
+  }
+
+  return summary;
+}
+
+// Fills in the profile fields that are still empty. Returns whether anything
+// was written.
+async function importProfile(
+  userId: number,
+  parsed: ProfileFields
+): Promise<boolean> {
+  const existing = await getProfileByUserId(userId);
+  const fields = { ...parsed };
+  let changed = false;
+  for (const key of Object.keys(fields) as (keyof ProfileFields)[]) {
+    if (existing?.[key]) {
+      fields[key] = existing[key];
+    } else if (fields[key]) {
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    await saveProfile(userId, fields);
+  }
+  return changed;
+}
+
+// Creates the project, certification or publication entries that are not
+// saved yet. A matched entry keeps its fields and only gains the bullet
+// points it does not already have.
+async function importSectionEntries<
+  P extends { bullet_points: ParsedBulletPoint[] },
+  R extends { id: number },
+>(
+  userId: number,
+  sectionType: SectionType,
+  parsedEntries: P[],
+  existing: R[],
+  findMatch: (entries: R[], parsed: P) => R | null,
+  create: (parsed: P) => Promise<R>,
+  existingBulletPoints: SectionBulletPoint[],
+  skillMap: Map<string, number>,
+  importId: number | null
+): Promise<{ matched: number; created: number }> {
+  const counts = { matched: 0, created: 0 };
+
+  for (const parsed of parsedEntries) {
+    let entry = findMatch(existing, parsed);
+    if (entry) {
+      counts.matched++;
+    } else {
+      entry = await create(parsed);
+      existing.push(entry);
+      counts.created++;
+    }
+
+    const entryId = entry.id;
+    const saved = existingBulletPoints.filter(
+      (bp) => bp[`${sectionType}_id`] === entryId
+    );
+    const newBulletPoints = parsed.bullet_points.filter(
+      (bp) =>
+        !saved.some((other) => bulletPointTextsMatch(other.content, bp.text))
+    );
+    existingBulletPoints.push(
+      ...(await createSectionBulletPointsWithSkills(
+        userId,
+        sectionType,
+        entryId,
+        newBulletPoints.map((bp) => ({
+          content: bp.text,
+          skillIds: bp.skills
+            .map((name) => skillMap.get(name.toLowerCase()))
+            .filter((skillId): skillId is number => skillId !== undefined),
+        })),
+        importId
+      ))
+    );
+  }
+
+  return counts;
+}
+
+async function importBulletPoints(
+  userId: number,
+  jobId: number,
+  parsedBulletPoints: ParsedJob["bullet_points"],
+  existing: BulletPoint[],
+  skillMap: Map<string, number>,
+  importId: number | null
+): Promise<{ created: BulletPoint[]; skipped: number }> {
+  const skillsByBulletPoint = await getSkillsForBulletPoints(
+    existing.map((bp) => bp.id as number)
+  );
+  const linkedSkillIds = new Map<number, Set<number>>();
+  skillsByBulletPoint.forEach((skills, bulletPointId) =>
+    linkedSkillIds.set(bulletPointId, new Set(skills.map((skill) => skill.id)))
+  );
+  const links: { bulletPointId: number; skillId: number }[] = [];
+  // New bullet points are compared with each other as well as with the saved
+  // ones; they only get ids once the batch is inserted
+  const pending: BulletPoint[] = [];
+  const pendingSkillIds: Set<number>[] = [];
+  const pendingProvenance: (Provenance | undefined)[] = [];
+  let skipped = 0;
+
+  for (const bpData of parsedBulletPoints) {
+    const skillIds = bpData.skills
+      .map((skillName) => skillMap.get(skillName.toLowerCase()))
+      .filter((skillId): skillId is number => skillId !== undefined);
+
+    const duplicate = findDuplicateBulletPoint(
+      [...existing, ...pending],
+      bpData.text
+    );
+    if (duplicate) {
+      // Merge: keep the saved wording but add any skills it was missing
+      const alreadyLinked = duplicate.id
+        ? linkedSkillIds.get(duplicate.id) || new Set<number>()
+        : pendingSkillIds[pending.indexOf(duplicate)];
+      for (const skillId of skillIds) {
+        if (!alreadyLinked.has(skillId)) {
+          if (duplicate.id) {
+            links.push({ bulletPointId: duplicate.id, skillId });
+          }
+          alreadyLinked.add(skillId);
+        }
+      }
+      if (duplicate.id) linkedSkillIds.set(duplicate.id, alreadyLinked);
+      skipped++;
+      continue;
+    }
+
+    pending.push({ user_id: userId, job_id: jobId, content: bpData.text });
+    pendingProvenance.push(bpData.provenance);
+    pendingSkillIds.push(new Set(skillIds));
+  }
+
+  const created = await createBulletPoints(
+    userId,
+    jobId,
+    pending.map((bp, i) => ({
+      content: bp.content,
+      provenance: pendingProvenance[i],
+    })),
+    importId
+  );
+  created.forEach((bulletPoint, i) => {
+    for (const skillId of pendingSkillIds[i]) {
+      links.push({ bulletPointId: bulletPoint.id as number, skillId });
+    }
+  });
+  await linkBulletPointsToSkills(links);
+
+  return { created, skipped };
+}
+
+// Splits free-form locations such as "Austin, TX", "Remote" or
+// "Berlin, Germany (Remote)" into the company location columns
+export function parseLocationText(location: unknown): {
+  city: string | null;
+  state: string | null;
+  is_remote: boolean;
+} {
+  if (typeof location !== "string" || !location.trim()) {
+    return { city: null, state: null, is_remote: false };
+  }
+
+  if (/\bremote\b/i.test(location)) {
+    return { city: null, state: null, is_remote: true };
+  }
+
+  const parts = location
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  return {
+    city: parts[0]?.substring(0, 100) || null,
+    state: parts[1]?.substring(0, 50) || null,
+    is_remote: false,
+  };
+}
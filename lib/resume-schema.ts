@@ -0,0 +1,671 @@
+import {
+  comparePartialDates,
+  parsePartialDate,
+  toPartialDateString,
+} from "./dates";
+import { LlmSchema } from "./llm";
+import {
+  ParsedBulletPoint,
+  ParsedCertification,
+  ParsedEducation,
+  ParsedJob,
+  ParsedProfile,
+  ParsedProject,
+  ParsedPublication,
+  ParsedResume,
+} from "./resume-parser";
+
+const BULLET_POINTS_SCHEMA: LlmSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      text: { type: "string" },
+      skills: { type: "array", items: { type: "string" } },
+    },
+    required: ["text", "skills"],
+  },
+};
+
+const OPTIONAL_DATE_SCHEMA: LlmSchema = {
+  type: "string",
+  nullable: true,
+  description: "YYYY-MM-DD",
+};
+
+// Declared shape of the LLM's resume output. Providers that support
+// structured output are constrained to it, and every response is checked
+// against the same rules by validateParsedResume.
+export const PARSED_RESUME_SCHEMA: LlmSchema = {
+  type: "object",
+  properties: {
+    profile: {
+      type: "object",
+      nullable: true,
+      description: "Name and contact details from the top of the resume",
+      properties: {
+        display_name: { type: "string", nullable: true },
+        headline: { type: "string", nullable: true },
+        email: { type: "string", nullable: true },
+        phone: { type: "string", nullable: true },
+        location: { type: "string", nullable: true },
+        github_url: { type: "string", nullable: true },
+        linkedin_url: { type: "string", nullable: true },
+        portfolio_url: { type: "string", nullable: true },
+        summary: { type: "string", nullable: true },
+      },
+      required: [
+        "display_name",
+        "headline",
+        "email",
+        "phone",
+        "location",
+        "github_url",
+        "linkedin_url",
+        "portfolio_url",
+        "summary",
+      ],
+    },
+    jobs: {
+      type: "array",
+      description: "All jobs, most recent first",
+      items: {
+        type: "object",
+        properties: {
+          company: { type: "string" },
+          city: { type: "string", nullable: true },
+          state: { type: "string", nullable: true },
+          is_remote: { type: "boolean" },
+          title: { type: "string" },
+          start_date: {
+            type: "string",
+            description:
+              "YYYY, YYYY-MM or YYYY-MM-DD, as precise as the resume",
+          },
+          end_date: {
+            type: "string",
+            nullable: true,
+            description:
+              "YYYY, YYYY-MM or YYYY-MM-DD, or null when is_current is true",
+          },
+          is_current: { type: "boolean" },
+          bullet_points: BULLET_POINTS_SCHEMA,
+        },
+        required: [
+          "company",
+          "city",
+          "state",
+          "is_remote",
+          "title",
+          "start_date",
+          "end_date",
+          "is_current",
+          "bullet_points",
+        ],
+      },
+    },
+    education: {
+      type: "array",
+      description: "Degrees and other programs, most recent first",
+      items: {
+        type: "object",
+        properties: {
+          institution: { type: "string" },
+          degree: { type: "string", nullable: true },
+          field: { type: "string", nullable: true },
+          start_date: OPTIONAL_DATE_SCHEMA,
+          end_date: OPTIONAL_DATE_SCHEMA,
+          gpa: { type: "string", nullable: true },
+          honors: { type: "string", nullable: true },
+        },
+        required: [
+          "institution",
+          "degree",
+          "field",
+          "start_date",
+          "end_date",
+          "gpa",
+          "honors",
+        ],
+      },
+    },
+    projects: {
+      type: "array",
+      description: "Side, personal and open source projects",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          role: { type: "string", nullable: true },
+          url: { type: "string", nullable: true },
+          start_date: OPTIONAL_DATE_SCHEMA,
+          end_date: OPTIONAL_DATE_SCHEMA,
+          bullet_points: BULLET_POINTS_SCHEMA,
+        },
+        required: [
+          "name",
+          "role",
+          "url",
+          "start_date",
+          "end_date",
+          "bullet_points",
+        ],
+      },
+    },
+    certifications: {
+      type: "array",
+      description: "Certifications and licenses",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          issuer: { type: "string", nullable: true },
+          credential_id: { type: "string", nullable: true },
+          url: { type: "string", nullable: true },
+          issue_date: OPTIONAL_DATE_SCHEMA,
+          expiry_date: OPTIONAL_DATE_SCHEMA,
+          bullet_points: BULLET_POINTS_SCHEMA,
+        },
+        required: [
+          "name",
+          "issuer",
+          "credential_id",
+          "url",
+          "issue_date",
+          "expiry_date",
+          "bullet_points",
+        ],
+      },
+    },
+    publications: {
+      type: "array",
+      description: "Papers, articles and talks",
+      items: {
+        type: "object",
+        properties: {
+          kind: { type: "string", description: "publication or talk" },
+          title: { type: "string" },
+          venue: { type: "string", nullable: true },
+          url: { type: "string", nullable: true },
+          published_on: OPTIONAL_DATE_SCHEMA,
+          bullet_points: BULLET_POINTS_SCHEMA,
+        },
+        required: [
+          "kind",
+          "title",
+          "venue",
+          "url",
+          "published_on",
+          "bullet_points",
+        ],
+      },
+    },
+    skills: { type: "array", items: { type: "string" } },
+  },
+  required: [
+    "profile",
+    "jobs",
+    "education",
+    "projects",
+    "certifications",
+    "publications",
+    "skills",
+  ],
+};
+
+const MAX_COMPANY_LENGTH = 255;
+const MAX_TITLE_LENGTH = 255;
+const MAX_CITY_LENGTH = 100;
+const MAX_STATE_LENGTH = 50;
+const MAX_BULLET_POINT_LENGTH = 5000;
+const MAX_SKILL_LENGTH = 100;
+const MAX_INSTITUTION_LENGTH = 255;
+const MAX_DEGREE_LENGTH = 255;
+const MAX_FIELD_LENGTH = 255;
+const MAX_GPA_LENGTH = 20;
+const MAX_HONORS_LENGTH = 500;
+const MAX_SECTION_NAME_LENGTH = 255;
+const MAX_PUBLICATION_TITLE_LENGTH = 500;
+const MAX_URL_LENGTH = 500;
+const MAX_PHONE_LENGTH = 50;
+const MAX_SUMMARY_LENGTH = 5000;
+
+// Errors are reported per field so they can be sent back to the model
+export type ResumeValidationResult =
+  { resume: ParsedResume; errors: [] } | { resume: null; errors: string[] };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// A real calendar date in YYYY-MM-DD form
+export function isValidISODate(value: unknown): value is string {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return (
+    !isNaN(date.getTime()) && date.toISOString().substring(0, 10) === value
+  );
+}
+
+function checkString(
+  errors: string[],
+  path: string,
+  value: unknown,
+  maxLength: number,
+  nullable: boolean
+) {
+  if (value === null && nullable) return;
+  if (typeof value !== "string") {
+    errors.push(`${path}: expected a string${nullable ? " or null" : ""}`);
+  } else if (!nullable && !value.trim()) {
+    errors.push(`${path}: must not be empty`);
+  } else if (value.length > maxLength) {
+    errors.push(`${path}: longer than ${maxLength} characters`);
+  }
+}
+
+function checkSkills(errors: string[], path: string, value: unknown) {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array of strings`);
+    return;
+  }
+  value.forEach((skill, i) =>
+    checkString(errors, `${path}[${i}]`, skill, MAX_SKILL_LENGTH, false)
+  );
+}
+
+function checkJob(errors: string[], path: string, job: unknown) {
+  if (!isObject(job)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+
+  checkString(
+    errors,
+    `${path}.company`,
+    job.company,
+    MAX_COMPANY_LENGTH,
+    false
+  );
+  checkString(errors, `${path}.title`, job.title, MAX_TITLE_LENGTH, false);
+  checkString(errors, `${path}.city`, job.city, MAX_CITY_LENGTH, true);
+  checkString(errors, `${path}.state`, job.state, MAX_STATE_LENGTH, true);
+
+  if (typeof job.is_remote !== "boolean") {
+    errors.push(`${path}.is_remote: expected true or false`);
+  }
+  if (typeof job.is_current !== "boolean") {
+    errors.push(`${path}.is_current: expected true or false`);
+  }
+
+  // Job dates keep the precision the resume gives them
+  const startDate = parsePartialDate(job.start_date);
+  const endDate = parsePartialDate(job.end_date);
+  if (!startDate) {
+    errors.push(
+      `${path}.start_date: expected a valid date as YYYY, YYYY-MM or YYYY-MM-DD`
+    );
+  }
+  if (job.end_date !== null && !endDate) {
+    errors.push(
+      `${path}.end_date: expected a valid date as YYYY, YYYY-MM or YYYY-MM-DD, or null`
+    );
+  }
+
+  if (job.is_current === true && job.end_date !== null) {
+    errors.push(`${path}.end_date: must be null when is_current is true`);
+  }
+  if (job.is_current === false && job.end_date === null) {
+    errors.push(
+      `${path}.end_date: required when is_current is false (use is_current: true for ongoing jobs)`
+    );
+  }
+  if (startDate && endDate && comparePartialDates(endDate, startDate) < 0) {
+    errors.push(`${path}.end_date: must not be before start_date`);
+  }
+
+  checkBulletPoints(errors, `${path}.bullet_points`, job.bullet_points);
+}
+
+function checkBulletPoints(errors: string[], path: string, value: unknown) {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array`);
+    return;
+  }
+  value.forEach((bp, i) => {
+    const bpPath = `${path}[${i}]`;
+    if (!isObject(bp)) {
+      errors.push(`${bpPath}: expected an object`);
+      return;
+    }
+    checkString(
+      errors,
+      `${bpPath}.text`,
+      bp.text,
+      MAX_BULLET_POINT_LENGTH,
+      false
+    );
+    checkSkills(errors, `${bpPath}.skills`, bp.skills);
+  });
+}
+
+// Optional dates, the second of which must not come before the first
+function checkDateRange(
+  errors: string[],
+  path: string,
+  entry: Record<string, unknown>,
+  startKey: string,
+  endKey: string
+) {
+  for (const key of [startKey, endKey]) {
+    if (entry[key] !== null && !isValidISODate(entry[key])) {
+      errors.push(
+        `${path}.${key}: expected a valid date as YYYY-MM-DD, or null`
+      );
+    }
+  }
+  const start = entry[startKey];
+  const end = entry[endKey];
+  if (isValidISODate(start) && isValidISODate(end) && end < start) {
+    errors.push(`${path}.${endKey}: must not be before ${startKey}`);
+  }
+}
+
+function checkEducation(errors: string[], path: string, entry: unknown) {
+  if (!isObject(entry)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+
+  checkString(
+    errors,
+    `${path}.institution`,
+    entry.institution,
+    MAX_INSTITUTION_LENGTH,
+    false
+  );
+  checkString(errors, `${path}.degree`, entry.degree, MAX_DEGREE_LENGTH, true);
+  checkString(errors, `${path}.field`, entry.field, MAX_FIELD_LENGTH, true);
+  checkString(errors, `${path}.gpa`, entry.gpa, MAX_GPA_LENGTH, true);
+  checkString(errors, `${path}.honors`, entry.honors, MAX_HONORS_LENGTH, true);
+
+  checkDateRange(errors, path, entry, "start_date", "end_date");
+}
+
+function checkProject(errors: string[], path: string, entry: unknown) {
+  if (!isObject(entry)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+
+  checkString(
+    errors,
+    `${path}.name`,
+    entry.name,
+    MAX_SECTION_NAME_LENGTH,
+    false
+  );
+  checkString(errors, `${path}.role`, entry.role, MAX_TITLE_LENGTH, true);
+  checkString(errors, `${path}.url`, entry.url, MAX_URL_LENGTH, true);
+  checkDateRange(errors, path, entry, "start_date", "end_date");
+  checkBulletPoints(errors, `${path}.bullet_points`, entry.bullet_points);
+}
+
+function checkCertification(errors: string[], path: string, entry: unknown) {
+  if (!isObject(entry)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+
+  checkString(
+    errors,
+    `${path}.name`,
+    entry.name,
+    MAX_SECTION_NAME_LENGTH,
+    false
+  );
+  checkString(
+    errors,
+    `${path}.issuer`,
+    entry.issuer,
+    MAX_SECTION_NAME_LENGTH,
+    true
+  );
+  checkString(
+    errors,
+    `${path}.credential_id`,
+    entry.credential_id,
+    MAX_SECTION_NAME_LENGTH,
+    true
+  );
+  checkString(errors, `${path}.url`, entry.url, MAX_URL_LENGTH, true);
+  checkDateRange(errors, path, entry, "issue_date", "expiry_date");
+  checkBulletPoints(errors, `${path}.bullet_points`, entry.bullet_points);
+}
+
+function checkPublication(errors: string[], path: string, entry: unknown) {
+  if (!isObject(entry)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+
+  if (entry.kind !== "publication" && entry.kind !== "talk") {
+    errors.push(`${path}.kind: expected "publication" or "talk"`);
+  }
+  checkString(
+    errors,
+    `${path}.title`,
+    entry.title,
+    MAX_PUBLICATION_TITLE_LENGTH,
+    false
+  );
+  checkString(
+    errors,
+    `${path}.venue`,
+    entry.venue,
+    MAX_SECTION_NAME_LENGTH,
+    true
+  );
+  checkString(errors, `${path}.url`, entry.url, MAX_URL_LENGTH, true);
+  if (entry.published_on !== null && !isValidISODate(entry.published_on)) {
+    errors.push(
+      `${path}.published_on: expected a valid date as YYYY-MM-DD, or null`
+    );
+  }
+  checkBulletPoints(errors, `${path}.bullet_points`, entry.bullet_points);
+}
+
+function checkProfile(errors: string[], path: string, profile: unknown) {
+  if (!isObject(profile)) {
+    errors.push(`${path}: expected an object or null`);
+    return;
+  }
+
+  for (const key of ["display_name", "headline", "email", "location"]) {
+    checkString(errors, `${path}.${key}`, profile[key], MAX_TITLE_LENGTH, true);
+  }
+  checkString(errors, `${path}.phone`, profile.phone, MAX_PHONE_LENGTH, true);
+  for (const key of ["github_url", "linkedin_url", "portfolio_url"]) {
+    checkString(errors, `${path}.${key}`, profile[key], MAX_URL_LENGTH, true);
+  }
+  checkString(
+    errors,
+    `${path}.summary`,
+    profile.summary,
+    MAX_SUMMARY_LENGTH,
+    true
+  );
+}
+
+function checkEntries(
+  errors: string[],
+  path: string,
+  value: unknown,
+  check: (errors: string[], path: string, entry: unknown) => void
+) {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array`);
+    return;
+  }
+  value.forEach((entry, i) => check(errors, `${path}[${i}]`, entry));
+}
+
+// Checks an LLM response against PARSED_RESUME_SCHEMA plus the rules the
+// schema cannot express: date formats and is_current/end_date consistency
+export function validateParsedResume(value: unknown): ResumeValidationResult {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return { resume: null, errors: ["response: expected a JSON object"] };
+  }
+
+  // A missing profile is treated as null rather than sent back for repair
+  if (value.profile !== undefined && value.profile !== null) {
+    checkProfile(errors, "profile", value.profile);
+  }
+  checkEntries(errors, "jobs", value.jobs, checkJob);
+  checkEntries(errors, "education", value.education, checkEducation);
+  checkEntries(errors, "projects", value.projects, checkProject);
+  checkEntries(
+    errors,
+    "certifications",
+    value.certifications,
+    checkCertification
+  );
+  checkEntries(errors, "publications", value.publications, checkPublication);
+  checkSkills(errors, "skills", value.skills);
+
+  if (errors.length > 0) {
+    return { resume: null, errors };
+  }
+
+  return {
+    resume: { ...value, profile: value.profile ?? null } as ParsedResume,
+    errors: [],
+  };
+}
+
+// Tidies a validated resume: remote jobs carry no city or state, and very
+// short bullets are usually stray fragments
+export function normalizeParsedResume(resume: ParsedResume): ParsedResume {
+  return {
+    profile: resume.profile && normalizeParsedProfile(resume.profile),
+    jobs: resume.jobs.map((job): ParsedJob => ({
+      company: job.company.trim(),
+      city: job.is_remote ? null : job.city?.trim() || null,
+      state: job.is_remote ? null : job.state?.trim() || null,
+      is_remote: job.is_remote,
+      title: job.title.trim(),
+      start_date: toPartialDateString(job.start_date)!,
+      end_date: job.end_date && toPartialDateString(job.end_date),
+      is_current: job.is_current,
+      bullet_points: normalizeBulletPoints(job.bullet_points),
+    })),
+    education: resume.education.map((entry): ParsedEducation => ({
+      institution: entry.institution.trim(),
+      degree: entry.degree?.trim() || null,
+      field: entry.field?.trim() || null,
+      start_date: entry.start_date,
+      end_date: entry.end_date,
+      gpa: entry.gpa?.trim() || null,
+      honors: entry.honors?.trim() || null,
+    })),
+    projects: resume.projects.map((entry): ParsedProject => ({
+      name: entry.name.trim(),
+      role: entry.role?.trim() || null,
+      url: toWebUrl(entry.url),
+      start_date: entry.start_date,
+      end_date: entry.end_date,
+      bullet_points: normalizeBulletPoints(entry.bullet_points),
+    })),
+    certifications: resume.certifications.map((entry): ParsedCertification => ({
+      name: entry.name.trim(),
+      issuer: entry.issuer?.trim() || null,
+      credential_id: entry.credential_id?.trim() || null,
+      url: toWebUrl(entry.url),
+      issue_date: entry.issue_date,
+      expiry_date: entry.expiry_date,
+      bullet_points: normalizeBulletPoints(entry.bullet_points),
+    })),
+    publications: resume.publications.map((entry): ParsedPublication => ({
+      kind: entry.kind,
+      title: entry.title.trim(),
+      venue: entry.venue?.trim() || null,
+      url: toWebUrl(entry.url),
+      published_on: entry.published_on,
+      bullet_points: normalizeBulletPoints(entry.bullet_points),
+    })),
+    skills: uniqueSkills(resume.skills),
+  };
+}
+
+// Empty fields become null and links get a scheme. A profile with nothing
+// left in it is dropped.
+export function normalizeParsedProfile(
+  profile: ParsedProfile
+): ParsedProfile | null {
+  const text = (value: string | null) => value?.trim() || null;
+  const normalized: ParsedProfile = {
+    display_name: text(profile.display_name),
+    headline: text(profile.headline),
+    email: text(profile.email),
+    phone: text(profile.phone),
+    location: text(profile.location),
+    github_url: normalizeUrl(profile.github_url),
+    linkedin_url: normalizeUrl(profile.linkedin_url),
+    portfolio_url: normalizeUrl(profile.portfolio_url),
+    summary: text(profile.summary),
+  };
+  return Object.values(normalized).some(Boolean) ? normalized : null;
+}
+
+// "github.com/jane" becomes "https://github.com/jane"
+export function normalizeUrl(url: string | null): string | null {
+  const trimmed = url?.trim();
+  if (!trimmed) return null;
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+// The link as an http or https URL, or null when it is not one. Links on
+// exported resumes are clickable, so no other scheme is kept: "ftp://",
+// "mailto:" and "javascript:" are rejected rather than given https://, while
+// a host and port such as "example.com:8080" is not mistaken for a scheme.
+export function toWebUrl(url: string | null): string | null {
+  const trimmed = url?.trim();
+  if (!trimmed) return null;
+  if (
+    /^[a-z][a-z\d+.-]*:(?!\d)/i.test(trimmed) &&
+    !/^https?:\/\//i.test(trimmed)
+  ) {
+    return null;
+  }
+
+  const normalized = normalizeUrl(trimmed)!;
+  if (!URL.canParse(normalized)) return null;
+  const parsed = new URL(normalized);
+  return parsed.username || parsed.password ? null : normalized;
+}
+
+function normalizeBulletPoints(
+  bulletPoints: ParsedBulletPoint[]
+): ParsedBulletPoint[] {
+  return bulletPoints
+    .map((bp) => ({
+      text: bp.text.trim(),
+      skills: bp.skills.map((skill) => skill.trim()).slice(0, 5),
+    }))
+    .filter((bp) => bp.text.length > 10);
+}
+
+// Case-insensitive dedupe that keeps the first spelling seen
+export function uniqueSkills(skills: string[]): string[] {
+  const unique = new Map<string, string>();
+  for (const skill of skills.map((name) => name.trim()).filter(Boolean)) {
+    if (!unique.has(skill.toLowerCase())) {
+      unique.set(skill.toLowerCase(), skill);
+    }
+  }
+  return Array.from(unique.values());
+}
@@ -0,0 +1,408 @@
+import {
+  BulletPoint,
+  Certification,
+  Company,
+  Education,
+  Job,
+  Profile,
+  ProfileFields,
+  Project,
+  Publication,
+  PublicationKind,
+  SectionBulletPoint,
+  Skill,
+  getBulletPointsByUserId,
+  getCertificationsByUserId,
+  getCompaniesByUserId,
+  getEducationByUserId,
+  getJobsByUserId,
+  getProfileByUserId,
+  getProjectsByUserId,
+  getPublicationsByUserId,
+  getSectionBulletPointsByUserId,
+  getSkillsForBulletPoints,
+  getSkillsForSectionBulletPoints,
+} from "./database";
+import { formatPartialDate, toPartialDate } from "./dates";
+
+// A resume is a header built from the user's profile, an ordered tree of
+// companies → jobs → bullet points, and the education, projects,
+// certifications and publications sections. It is the shape returned by
+// resume generation and consumed by every exporter.
+export interface ResumeBulletPoint {
+  bullet_point_id: number;
+  content: string;
+  skills: string[];
+}
+
+export interface ResumeJob<B extends ResumeBulletPoint = ResumeBulletPoint> {
+  job_id: number;
+  title: string;
+  // As precise as the job was entered: "2019", "2019-06" or "2019-06-15"
+  start_date: string;
+  end_date: string | null;
+  is_current: boolean;
+  bullet_points: B[];
+}
+
+export interface ResumeCompany<
+  B extends ResumeBulletPoint = ResumeBulletPoint,
+> {
+  company_id: number;
+  name: string;
+  city: string | null;
+  state: string | null;
+  is_remote: boolean;
+  jobs: ResumeJob<B>[];
+}
+
+export interface ResumeEducation {
+  education_id: number;
+  institution: string;
+  degree: string | null;
+  field: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  gpa: string | null;
+  honors: string | null;
+}
+
+// Bullet points under a project, certification or publication. Their ids are
+// section bullet point ids, separate from job bullet point ids.
+export interface ResumeSectionBulletPoint {
+  section_bullet_point_id: number;
+  content: string;
+  skills: string[];
+}
+
+export interface ResumeProject {
+  project_id: number;
+  name: string;
+  role: string | null;
+  url: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  bullet_points: ResumeSectionBulletPoint[];
+}
+
+export interface ResumeCertification {
+  certification_id: number;
+  name: string;
+  issuer: string | null;
+  credential_id: string | null;
+  url: string | null;
+  issue_date: string | null;
+  expiry_date: string | null;
+  bullet_points: ResumeSectionBulletPoint[];
+}
+
+export interface ResumePublication {
+  publication_id: number;
+  kind: PublicationKind;
+  title: string;
+  venue: string | null;
+  url: string | null;
+  published_on: string | null;
+  bullet_points: ResumeSectionBulletPoint[];
+}
+
+export type ResumeProfile = ProfileFields;
+
+export interface Resume<B extends ResumeBulletPoint = ResumeBulletPoint> {
+  name: string;
+  // Null when the user has no profile yet
+  profile: ResumeProfile | null;
+  companies: ResumeCompany<B>[];
+  education: ResumeEducation[];
+  projects: ResumeProject[];
+  certifications: ResumeCertification[];
+  publications: ResumePublication[];
+}
+
+// Everything a user has stored, loaded once so a resume can be assembled
+// without a query per job or bullet point
+export interface ResumeSource {
+  companies: Company[];
+  jobs: Job[];
+  bulletPoints: BulletPoint[];
+  skillsByBulletPoint: Map<number, Skill[]>;
+  education: Education[];
+  projects: Project[];
+  certifications: Certification[];
+  publications: Publication[];
+  sectionBulletPoints: SectionBulletPoint[];
+  skillsBySectionBulletPoint: Map<number, Skill[]>;
+  profile: Profile | null;
+}
+
+export async function loadResumeSource(userId: number): Promise<ResumeSource> {
+  const [
+    companies,
+    jobs,
+    bulletPoints,
+    education,
+    projects,
+    certifications,
+    publications,
+    sectionBulletPoints,
+    profile,
+  ] = await Promise.all([
+    getCompaniesByUserId(userId),
+    getJobsByUserId(userId),
+    getBulletPointsByUserId(userId),
+    getEducationByUserId(userId),
+    getProjectsByUserId(userId),
+    getCertificationsByUserId(userId),
+    getPublicationsByUserId(userId),
+    getSectionBulletPointsByUserId(userId),
+    getProfileByUserId(userId),
+  ]);
+
+  const [skillsByBulletPoint, skillsBySectionBulletPoint] = await Promise.all([
+    getSkillsForBulletPoints(
+      bulletPoints
+        .map((bp) => bp.id)
+        .filter((id): id is number => id !== undefined)
+    ),
+    getSkillsForSectionBulletPoints(sectionBulletPoints.map((bp) => bp.id)),
+  ]);
+
+  return {
+    companies,
+    jobs,
+    bulletPoints,
+    skillsByBulletPoint,
+    education,
+    projects,
+    certifications,
+    publications,
+    sectionBulletPoints,
+    skillsBySectionBulletPoint,
+    profile,
+  };
+}
+
+// Supabase returns DATE columns as "YYYY-MM-DD" strings even though the row
+// interfaces declare them as Date
+export function toISODate(value: Date | string): string {
+  if (typeof value === "string") return value.substring(0, 10);
+  return value.toISOString().substring(0, 10);
+}
+
+export function toResumeBulletPoint(
+  bulletPoint: BulletPoint,
+  skills: Skill[] = []
+): ResumeBulletPoint {
+  return {
+    bullet_point_id: bulletPoint.id as number,
+    content: bulletPoint.content,
+    skills: skills.map((s) => s.name),
+  };
+}
+
+export function toResumeJob<B extends ResumeBulletPoint>(
+  job: Job,
+  bulletPoints: B[]
+): ResumeJob<B> {
+  return {
+    job_id: job.id,
+    title: job.title,
+    start_date: formatPartialDate(
+      toPartialDate(job.start_date, job.start_date_precision)
+    ),
+    end_date: job.end_date
+      ? formatPartialDate(
+          toPartialDate(job.end_date, job.end_date_precision || "day")
+        )
+      : null,
+    is_current: job.is_current,
+    bullet_points: bulletPoints,
+  };
+}
+
+export function toResumeCompany<B extends ResumeBulletPoint>(
+  company: Company,
+  jobs: ResumeJob<B>[]
+): ResumeCompany<B> {
+  return {
+    company_id: company.id,
+    name: company.name,
+    city: company.city,
+    state: company.state,
+    is_remote: company.is_remote,
+    jobs,
+  };
+}
+
+export function toResumeEducation(education: Education): ResumeEducation {
+  return {
+    education_id: education.id,
+    institution: education.institution,
+    degree: education.degree,
+    field: education.field,
+    start_date: education.start_date ? toISODate(education.start_date) : null,
+    end_date: education.end_date ? toISODate(education.end_date) : null,
+    gpa: education.gpa,
+    honors: education.honors,
+  };
+}
+
+export function buildResumeProfile(source: ResumeSource): ResumeProfile | null {
+  const { profile } = source;
+  if (!profile) return null;
+  return {
+    display_name: profile.display_name,
+    headline: profile.headline,
+    email: profile.email,
+    phone: profile.phone,
+    location: profile.location,
+    github_url: profile.github_url,
+    linkedin_url: profile.linkedin_url,
+    portfolio_url: profile.portfolio_url,
+    summary: profile.summary,
+  };
+}
+
+// Every resume lists all education, most recent first. Entries still in
+// progress (a start date but no end date) come first and undated ones last.
+export function buildResumeEducation(source: ResumeSource): ResumeEducation[] {
+  const sortKey = (entry: ResumeEducation) =>
+    entry.end_date ?? (entry.start_date ? "9999-12-31" : "");
+  return source.education
+    .map(toResumeEducation)
+    .sort((a, b) => sortKey(b).localeCompare(sortKey(a)));
+}
+
+// Newest first by the given date, with undated entries last
+function sortByDateDesc<T>(entries: T[], date: (entry: T) => string | null) {
+  return [...entries].sort((a, b) =>
+    (date(b) ?? "").localeCompare(date(a) ?? "")
+  );
+}
+
+function toResumeSectionBulletPoints(
+  source: ResumeSource,
+  belongsTo: (bulletPoint: SectionBulletPoint) => boolean
+): ResumeSectionBulletPoint[] {
+  return source.sectionBulletPoints.filter(belongsTo).map((bp) => ({
+    section_bullet_point_id: bp.id,
+    content: bp.content,
+    skills: (source.skillsBySectionBulletPoint.get(bp.id) || []).map(
+      (s) => s.name
+    ),
+  }));
+}
+
+// Every resume lists all projects, certifications and publications with
+// their bullet points, most recent first. Projects still in progress (a
+// start date but no end date) come first.
+export function buildResumeSections(
+  source: ResumeSource
+): Pick<Resume, "projects" | "certifications" | "publications"> {
+  const toDate = (value: Date | null) => (value ? toISODate(value) : null);
+
+  const projects = source.projects.map((project): ResumeProject => ({
+    project_id: project.id,
+    name: project.name,
+    role: project.role,
+    url: project.url,
+    start_date: toDate(project.start_date),
+    end_date: toDate(project.end_date),
+    bullet_points: toResumeSectionBulletPoints(
+      source,
+      (bp) => bp.project_id === project.id
+    ),
+  }));
+  const certifications = source.certifications.map(
+    (certification): ResumeCertification => ({
+      certification_id: certification.id,
+      name: certification.name,
+      issuer: certification.issuer,
+      credential_id: certification.credential_id,
+      url: certification.url,
+      issue_date: toDate(certification.issue_date),
+      expiry_date: toDate(certification.expiry_date),
+      bullet_points: toResumeSectionBulletPoints(
+        source,
+        (bp) => bp.certification_id === certification.id
+      ),
+    })
+  );
+  const publications = source.publications.map(
+    (publication): ResumePublication => ({
+      publication_id: publication.id,
+      kind: publication.kind,
+      title: publication.title,
+      venue: publication.venue,
+      url: publication.url,
+      published_on: toDate(publication.published_on),
+      bullet_points: toResumeSectionBulletPoints(
+        source,
+        (bp) => bp.publication_id === publication.id
+      ),
+    })
+  );
+
+  return {
+    projects: sortByDateDesc(
+      projects,
+      (entry) => entry.end_date ?? (entry.start_date ? "9999-12-31" : null)
+    ),
+    certifications: sortByDateDesc(certifications, (entry) => entry.issue_date),
+    publications: sortByDateDesc(publications, (entry) => entry.published_on),
+  };
+}
+
+// Most recent first: current roles, then by start date
+export function compareJobsByRecency(
+  a: { start_date: string; is_current: boolean },
+  b: { start_date: string; is_current: boolean }
+): number {
+  if (a.is_current !== b.is_current) return a.is_current ? -1 : 1;
+  return b.start_date.localeCompare(a.start_date);
+}
+
+// Orders companies by their most recent job, dropping companies with no jobs
+export function sortResumeCompanies<B extends ResumeBulletPoint>(
+  companies: ResumeCompany<B>[]
+): ResumeCompany<B>[] {
+  return companies
+    .filter((company) => company.jobs.length > 0)
+    .map((company) => ({
+      ...company,
+      jobs: [...company.jobs].sort(compareJobsByRecency),
+    }))
+    .sort((a, b) => compareJobsByRecency(a.jobs[0], b.jobs[0]));
+}
+
+// Every company, job and bullet point the user has, most recent first
+export function buildFullResume(source: ResumeSource, name: string): Resume {
+  const companies = source.companies.map((company) =>
+    toResumeCompany(
+      company,
+      source.jobs
+        .filter((job) => job.company_id === company.id)
+        .map((job) =>
+          toResumeJob(
+            job,
+            source.bulletPoints
+              .filter((bp) => bp.job_id === job.id && bp.id !== undefined)
+              .map((bp) =>
+                toResumeBulletPoint(
+                  bp,
+                  source.skillsByBulletPoint.get(bp.id as number)
+                )
+              )
+          )
+        )
+    )
+  );
+
+  return {
+    name,
+    profile: buildResumeProfile(source),
+    companies: sortResumeCompanies(companies),
+    education: buildResumeEducation(source),
+    ...buildResumeSections(source),
+  };
+}
@@ -0,0 +1,238 @@
+import {
+  SavedResume,
+  getSavedResumeBulletPoints,
+  getSavedResumeById,
+  getSavedResumeJobs,
+} from "./database";
+import {
+  Resume,
+  ResumeCompany,
+  ResumeSource,
+  buildResumeEducation,
+  buildResumeProfile,
+  buildResumeSections,
+  loadResumeSource,
+  toResumeBulletPoint,
+  toResumeCompany,
+  toResumeJob,
+} from "./resume";
+
+// A saved resume only references existing jobs and bullet points, so edits to
+// the underlying rows flow through unless the resume overrides them
+export interface ResumeSelectionBulletPoint {
+  bullet_point_id: number;
+  content_override: string | null;
+}
+
+export interface ResumeSelectionJob {
+  job_id: number;
+  is_hidden: boolean;
+  title_override: string | null;
+  bullet_points: ResumeSelectionBulletPoint[];
+}
+
+export interface SavedResumeDetail extends SavedResume {
+  jobs: ResumeSelectionJob[];
+}
+
+const MAX_SELECTED_JOBS = 100;
+const MAX_SELECTED_BULLET_POINTS_PER_JOB = 50;
+
+function optionalString(value: unknown, maxLength: number): string | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  return value.trim().substring(0, maxLength);
+}
+
+// Validates a client-supplied selection and checks that every job and bullet
+// point belongs to the user whose data is in `source`
+export function parseResumeSelection(
+  input: unknown,
+  source: ResumeSource
+): { jobs: ResumeSelectionJob[]; error: null } | { jobs: null; error: string } {
+  if (!Array.isArray(input)) {
+    return { jobs: null, error: "Jobs must be an array" };
+  }
+
+  if (input.length > MAX_SELECTED_JOBS) {
+    return {
+      jobs: null,
+      error: `Too many jobs (max ${MAX_SELECTED_JOBS})`,
+    };
+  }
+
+  const jobIds = new Set(source.jobs.map((job) => job.id));
+  const bulletPointJobs = new Map(
+    source.bulletPoints.map((bp) => [bp.id, bp.job_id])
+  );
+  const seenJobs = new Set<number>();
+  const jobs: ResumeSelectionJob[] = [];
+
+  for (const item of input) {
+    const jobId = item?.job_id;
+    if (typeof jobId !== "number" || !jobIds.has(jobId)) {
+      return { jobs: null, error: "Job not found or does not belong to user" };
+    }
+    if (seenJobs.has(jobId)) {
+      return { jobs: null, error: "Each job can only be selected once" };
+    }
+    seenJobs.add(jobId);
+
+    const bulletPoints = item.bullet_points ?? [];
+    if (!Array.isArray(bulletPoints)) {
+      return { jobs: null, error: "Bullet points must be an array" };
+    }
+    if (bulletPoints.length > MAX_SELECTED_BULLET_POINTS_PER_JOB) {
+      return {
+        jobs: null,
+        error: `Too many bullet points for one job (max ${MAX_SELECTED_BULLET_POINTS_PER_JOB})`,
+      };
+    }
+
+    const seenBulletPoints = new Set<number>();
+    const selectedBulletPoints: ResumeSelectionBulletPoint[] = [];
+    for (const bp of bulletPoints) {
+      const bulletPointId = bp?.bullet_point_id;
+      if (
+        typeof bulletPointId !== "number" ||
+        bulletPointJobs.get(bulletPointId) !== jobId
+      ) {
+        return {
+          jobs: null,
+          error: "Bullet point not found or does not belong to the job",
+        };
+      }
+      if (seenBulletPoints.has(bulletPointId)) continue;
+      seenBulletPoints.add(bulletPointId);
+
+      selectedBulletPoints.push({
+        bullet_point_id: bulletPointId,
+        content_override: optionalString(bp.content_override, 5000),
+      });
+    }
+
+    jobs.push({
+      job_id: jobId,
+      is_hidden: item.is_hidden === true,
+      title_override: optionalString(item.title_override, 255),
+      bullet_points: selectedBulletPoints,
+    });
+  }
+
+  return { jobs, error: null };
+}
+
+// Resolves a selection against the live rows, applying overrides. Jobs keep
+// the selection's order and are grouped under their company in the order each
+// company first appears.
+export function buildSavedResume(
+  name: string,
+  selection: ResumeSelectionJob[],
+  source: ResumeSource
+): Resume {
+  const companiesById = new Map(source.companies.map((c) => [c.id, c]));
+  const jobsById = new Map(source.jobs.map((j) => [j.id, j]));
+  const bulletPointsById = new Map(
+    source.bulletPoints.map((bp) => [bp.id, bp])
+  );
+  const companies = new Map<number, ResumeCompany>();
+
+  for (const selected of selection) {
+    const job = jobsById.get(selected.job_id);
+    if (!job || selected.is_hidden) continue;
+
+    const company = companiesById.get(job.company_id);
+    if (!company) continue;
+
+    const bulletPoints = selected.bullet_points.flatMap((sbp) => {
+      const bp = bulletPointsById.get(sbp.bullet_point_id);
+      if (!bp) return [];
+      const resumeBulletPoint = toResumeBulletPoint(
+        bp,
+        source.skillsByBulletPoint.get(sbp.bullet_point_id)
+      );
+      return [
+        {
+          ...resumeBulletPoint,
+          content: sbp.content_override ?? resumeBulletPoint.content,
+        },
+      ];
+    });
+
+    const resumeJob = {
+      ...toResumeJob(job, bulletPoints),
+      title: selected.title_override ?? job.title,
+    };
+
+    const resumeCompany = companies.get(company.id);
+    if (resumeCompany) {
+      resumeCompany.jobs.push(resumeJob);
+    } else {
+      companies.set(company.id, toResumeCompany(company, [resumeJob]));
+    }
+  }
+
+  return {
+    name,
+    profile: buildResumeProfile(source),
+    companies: Array.from(companies.values()),
+    education: buildResumeEducation(source),
+    ...buildResumeSections(source),
+  };
+}
+
+export async function loadSavedResume(
+  id: number,
+  userId: number
+): Promise<{ resume: SavedResumeDetail; rendered: Resume } | null> {
+  const savedResume = await getSavedResumeById(id, userId);
+  if (!savedResume) return null;
+
+  const [source, savedJobs, savedBulletPoints] = await Promise.all([
+    loadResumeSource(userId),
+    getSavedResumeJobs(id),
+    getSavedResumeBulletPoints(id),
+  ]);
+
+  const bulletPointJobs = new Map(
+    source.bulletPoints.map((bp) => [bp.id, bp.job_id])
+  );
+
+  const jobs: ResumeSelectionJob[] = savedJobs.map((savedJob) => ({
+    job_id: savedJob.job_id,
+    is_hidden: savedJob.is_hidden,
+    title_override: savedJob.title_override,
+    bullet_points: savedBulletPoints
+      .filter(
+        (sbp) => bulletPointJobs.get(sbp.bullet_point_id) === savedJob.job_id
+      )
+      .map((sbp) => ({
+        bullet_point_id: sbp.bullet_point_id,
+        content_override: sbp.content_override,
+      })),
+  }));
+
+  return {
+    resume: { ...savedResume, jobs },
+    rendered: buildSavedResume(savedResume.name, jobs, source),
+  };
+}
+
+// Flattens a selection into the rows stored in resume_jobs and
+// resume_bullet_points. Bullet point positions are relative to their job.
+export function toSelectionRows(jobs: ResumeSelectionJob[]) {
+  return {
+    jobs: jobs.map((job, index) => ({
+      job_id: job.job_id,
+      position: index,
+      is_hidden: job.is_hidden,
+      title_override: job.title_override,
+    })),
+    bulletPoints: jobs.flatMap((job) =>
+      job.bullet_points.map((bp, index) => ({
+        bullet_point_id: bp.bullet_point_id,
+        position: index,
+        content_override: bp.content_override,
+      }))
+    ),
+  };
+}
@@ -0,0 +1,42 @@
+import path from "path";
+import { createLocalStorage } from "./local";
+import { createSupabaseStorage } from "./supabase";
+import { DocumentStorage } from "./types";
+
+export type { DocumentStorage } from "./types";
+
+export const STORAGE_BACKENDS = ["supabase", "local"] as const;
+export type StorageBackendName = (typeof STORAGE_BACKENDS)[number];
+
+const DEFAULT_BUCKET = "documents";
+const DEFAULT_DIRECTORY = path.join(process.cwd(), ".documents");
+
+// DOCUMENT_STORAGE picks where new uploads are kept; Supabase Storage unless
+// set to "local"
+export function getConfiguredStorageName(): StorageBackendName {
+  const configured = process.env.DOCUMENT_STORAGE?.trim().toLowerCase();
+  if (!configured) return "supabase";
+  if (!(STORAGE_BACKENDS as readonly string[]).includes(configured)) {
+    throw new Error(
+      `Unknown DOCUMENT_STORAGE "${configured}". Expected one of: ${STORAGE_BACKENDS.join(", ")}.`
+    );
+  }
+  return configured as StorageBackendName;
+}
+
+// Stored documents record their backend, so they are read back from it even
+// after DOCUMENT_STORAGE changes
+export function getDocumentStorage(
+  name: StorageBackendName = getConfiguredStorageName()
+): DocumentStorage {
+  switch (name) {
+    case "local":
+      return createLocalStorage(
+        process.env.DOCUMENT_STORAGE_DIR?.trim() || DEFAULT_DIRECTORY
+      );
+    case "supabase":
+      return createSupabaseStorage(
+        process.env.DOCUMENT_STORAGE_BUCKET?.trim() || DEFAULT_BUCKET
+      );
+  }
+}
@@ -0,0 +1,38 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { DocumentStorage } from "./types";
+
+// Keeps documents as files under a directory, for local development without
+// Supabase Storage
+export function createLocalStorage(directory: string): DocumentStorage {
+  const root = path.resolve(directory);
+
+  // Security: Keep every key inside the storage directory
+  function resolveKey(key: string): string {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid document storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  return {
+    name: "local",
+    async put(key, body) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+    },
+    async get(key) {
+      try {
+        return await readFile(resolveKey(key));
+      } catch (error) {
+        console.error("Error reading stored document:", error);
+        throw new Error("Failed to read stored document");
+      }
+    },
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { supabase } from "../db";
+import { DocumentStorage } from "./types";
+
+// Keeps documents in a private Supabase Storage bucket. The bucket is created
+// by the add_documents migration.
+export function createSupabaseStorage(bucket: string): DocumentStorage {
+  return {
+    name: "supabase",
+    async put(key, body, contentType) {
+      const { error } = await supabase.storage
+        .from(bucket)
+        .upload(key, body, { contentType, upsert: true });
+      if (error) {
+        console.error("Error uploading document to storage:", error);
+        throw new Error("Failed to store document");
+      }
+    },
+    async get(key) {
+      const { data, error } = await supabase.storage.from(bucket).download(key);
+      if (error || !data) {
+        console.error("Error downloading document from storage:", error);
+        throw new Error("Failed to read stored document");
+      }
+      return Buffer.from(await data.arrayBuffer());
+    },
+    async delete(key) {
+      const { error } = await supabase.storage.from(bucket).remove([key]);
+      if (error) {
+        console.error("Error deleting document from storage:", error);
+        throw new Error("Failed to delete stored document");
+      }
+    },
+  };
+}
@@ -0,0 +1,8 @@
+// Where uploaded documents are kept. Keys are chosen by the caller and only
+// contain letters, digits, "-", "_" and "/".
+export interface DocumentStorage {
+  name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
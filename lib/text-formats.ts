@@ -0,0 +1,329 @@
+// Converts the markup of text-based resume formats to plain text for the
+// parsers. Line structure matters more than fidelity: headings, paragraphs
+// and list items each end up on their own line, list items start with a
+// bullet glyph, and table cells are separated by tabs, which is what the
+// heuristic parser expects from PDF and Word text.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  bull: "•",
+  middot: "·",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+};
+
+// Decodes character references and the common named entities; unknown names
+// are left as they are
+export function decodeEntities(text: string): string {
+  return text.replace(
+    /&(?:#(\d+)|#x([\da-f]+)|(\w+));/gi,
+    (entity, decimal, hex, name) => {
+      if (decimal || hex) {
+        const codePoint = parseInt(decimal || hex, decimal ? 10 : 16);
+        return codePoint > 0 && codePoint <= 0x10ffff
+          ? String.fromCodePoint(codePoint)
+          : "";
+      }
+      const key = name.toLowerCase();
+      return Object.prototype.hasOwnProperty.call(NAMED_ENTITIES, key)
+        ? NAMED_ENTITIES[key]
+        : entity;
+    }
+  );
+}
+
+const HTML_BLOCK_TAGS =
+  /^(?:p|div|h[1-6]|ul|ol|dl|dt|dd|table|thead|tbody|tr|section|article|header|footer|aside|nav|main|blockquote|pre|hr|address|figure|figcaption)$/;
+
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|head|template)\b[\s\S]*?<\/\1\s*>/gi, "")
+    // Line breaks in the source are only spaces; the tags decide the lines
+    .replace(/\s+/g, " ")
+    .replace(/<\/?([a-z][\w-]*)\b[^>]*>/gi, (tag, name: string) => {
+      const tagName = name.toLowerCase();
+      const closing = tag.startsWith("</");
+      if (tagName === "br") return "\n";
+      if (tagName === "li") return closing ? "\n" : "\n• ";
+      if (tagName === "td" || tagName === "th") return closing ? "\t" : "";
+      return HTML_BLOCK_TAGS.test(tagName) ? "\n" : "";
+    })
+    .replace(/<[^>]*>/g, "")
+    // A list item's text is often wrapped in a paragraph of its own
+    .replace(/•[^\S\n]*\n+/g, "• ");
+  return decodeEntities(text);
+}
+
+// Line-anchored patterns use [ \t] rather than \s so they never reach into
+// the next line
+export function markdownToText(markdown: string): string {
+  return (
+    markdown
+      // Code fences and table separator rows carry no text
+      .replace(/^[ \t]*(?:```|~~~).*$/gm, "")
+      .replace(
+        /^[ \t]*\|?[ \t]*:?-{3,}:?[ \t]*(?:\|[ \t]*:?-{3,}:?[ \t]*)*\|?[ \t]*$/gm,
+        ""
+      )
+      // Setext heading underlines and horizontal rules
+      .replace(/^[ \t]*(?:={3,}|[-*_](?:[ \t]*[-*_]){2,})[ \t]*$/gm, "")
+      .replace(/^ {0,3}#{1,6}[ \t]+(.*?)[ \t]*#*[ \t]*$/gm, "$1")
+      .replace(/^ {0,3}>[ \t]?/gm, "")
+      .replace(/^([ \t]*)[-*+][ \t]+/gm, "$1• ")
+      // Table rows become tab-separated cells
+      .replace(/^[ \t]*\|(.*?)\|?[ \t]*$/gm, (row, cells: string) =>
+        cells
+          .split("|")
+          .map((cell) => cell.trim())
+          .join("\t")
+      )
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      // Links keep their address, which may be a profile or portfolio URL
+      .replace(
+        /\[([^\]]+)\]\([ \t]*(?:mailto:)?([^)\s]+)[^)]*\)/g,
+        (link, label: string, url: string) =>
+          label === url ? url : `${label} (${url})`
+      )
+      .replace(/<((?:https?:\/\/|mailto:)[^>\s]+)>/g, (link, url: string) =>
+        url.replace(/^mailto:/, "")
+      )
+      .replace(/(\*\*|__)(?=\S)([^\n]*?\S)\1/g, "$2")
+      .replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?!\w)/g, "$1$2")
+      .replace(/(^|\W)_(?=\S)([^_\n]*?\S)_(?!\w)/g, "$1$2")
+      .replace(/`([^`\n]+)`/g, "$1")
+      .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, "$1")
+  );
+}
+
+// Bytes 0x80 to 0x9f of Windows-1252, the usual code page of \'hh escapes,
+// where it differs from Latin-1
+const CP1252_HIGH: Record<number, string> = {
+  0x80: "€",
+  0x85: "…",
+  0x91: "‘",
+  0x92: "’",
+  0x93: "“",
+  0x94: "”",
+  0x95: "•",
+  0x96: "–",
+  0x97: "—",
+  0x99: "™",
+};
+
+// Groups starting with these control words hold fonts, styles, metadata,
+// pictures and the like rather than document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  "author",
+  "bkmkend",
+  "bkmkstart",
+  "colortbl",
+  "comment",
+  "datastore",
+  "filetbl",
+  "fldinst",
+  "fonttbl",
+  "footer",
+  "footerf",
+  "footerl",
+  "footerr",
+  "header",
+  "headerf",
+  "headerl",
+  "headerr",
+  "info",
+  "latentstyles",
+  "listoverridetable",
+  "listtable",
+  "object",
+  "operator",
+  "pict",
+  "revtbl",
+  "rsidtbl",
+  "stylesheet",
+  "themedata",
+  "colorschememapping",
+  "generator",
+  "xmlnsdecl",
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: "\n",
+  line: "\n",
+  sect: "\n",
+  page: "\n",
+  row: "\n",
+  tab: "\t",
+  cell: "\t",
+  emdash: "—",
+  endash: "–",
+  bullet: "•",
+  lquote: "‘",
+  rquote: "’",
+  ldblquote: "“",
+  rdblquote: "”",
+  emspace: " ",
+  enspace: " ",
+};
+
+interface RtfGroup {
+  skip: boolean;
+  // Fallback characters that follow each \uN
+  unicodeSkip: number;
+}
+
+export function rtfToText(rtf: string): string {
+  const stack: RtfGroup[] = [];
+  let group: RtfGroup = { skip: false, unicodeSkip: 1 };
+  // Fallback characters still to drop after a \uN
+  let pendingSkip = 0;
+  // Whether the current group has had any content yet, so a destination
+  // control word is only honoured at its start
+  let groupStart = false;
+  let output = "";
+
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!group.skip) output += text;
+  };
+
+  const controlWord = /\\([a-z]{1,32})(-?\d{1,10})? ?/iy;
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === "{") {
+      stack.push(group);
+      group = { ...group };
+      groupStart = true;
+      i++;
+      continue;
+    }
+    if (char === "}") {
+      group = stack.pop() ?? group;
+      groupStart = false;
+      pendingSkip = 0;
+      i++;
+      continue;
+    }
+    if (char === "\r" || char === "\n") {
+      i++;
+      continue;
+    }
+    if (char !== "\\") {
+      emit(char);
+      groupStart = false;
+      i++;
+      continue;
+    }
+
+    const next = rtf[i + 1];
+    if (next === "*") {
+      // An ignorable destination the reader does not know
+      group.skip = true;
+      i += 2;
+      continue;
+    }
+    if (next === "'") {
+      const byte = parseInt(rtf.substring(i + 2, i + 4), 16);
+      if (!isNaN(byte)) emit(CP1252_HIGH[byte] ?? String.fromCharCode(byte));
+      groupStart = false;
+      i += 4;
+      continue;
+    }
+    if (next === "\\" || next === "{" || next === "}") {
+      emit(next);
+      groupStart = false;
+      i += 2;
+      continue;
+    }
+    if (next === "\r" || next === "\n") {
+      emit("\n");
+      i += 2;
+      continue;
+    }
+    if (next === "~") emit(" ");
+    if (next === "_") emit("-");
+
+    controlWord.lastIndex = i;
+    const match = controlWord.exec(rtf);
+    if (!match) {
+      // \~, \-, \_ and control symbols with no text
+      i += 2;
+      continue;
+    }
+    i = controlWord.lastIndex;
+
+    const word = match[1].toLowerCase();
+    const parameter = match[2] === undefined ? null : parseInt(match[2]);
+    if (groupStart && RTF_SKIPPED_DESTINATIONS.has(word)) {
+      group.skip = true;
+    } else if (word === "uc" && parameter !== null) {
+      group.unicodeSkip = parameter;
+    } else if (word === "u" && parameter !== null) {
+      emit(String.fromCharCode(parameter < 0 ? parameter + 65536 : parameter));
+      pendingSkip = group.unicodeSkip;
+    } else if (Object.prototype.hasOwnProperty.call(RTF_SYMBOLS, word)) {
+      emit(RTF_SYMBOLS[word]);
+    }
+    groupStart = false;
+  }
+
+  return output;
+}
+
+// OpenDocument paragraphs, headings and list items become lines. Comments
+// and tracked deletions are left out.
+export function odtContentToText(xml: string): string {
+  // As in HTML, whitespace in the markup is only a space; spaces that matter
+  // are written as <text:s/>
+  const body = xml
+    .replace(/<\?[\s\S]*?\?>/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/<office:annotation\b[\s\S]*?<\/office:annotation>/g, "")
+    .replace(/<text:tracked-changes\b[\s\S]*?<\/text:tracked-changes>/g, "");
+
+  const text = body.replace(
+    /<(\/?)([\w:.-]+)((?:\s[^>]*?)?)(\/?)>/g,
+    (tag, closing: string, name: string, attributes: string) => {
+      switch (name) {
+        case "text:p":
+        case "text:h":
+          return closing ? "\n" : "";
+        case "text:list-item":
+          return closing ? "" : "• ";
+        case "text:tab":
+          return "\t";
+        case "text:line-break":
+          return "\n";
+        case "text:s": {
+          const count = attributes.match(/text:c="(\d+)"/);
+          return " ".repeat(count ? Math.min(parseInt(count[1]), 100) : 1);
+        }
+        case "table:table-cell":
+          return closing ? "\t" : "";
+        case "table:table-row":
+          return closing ? "\n" : "";
+        default:
+          return "";
+      }
+    }
+  );
+  return decodeEntities(text);
+}
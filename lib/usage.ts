@@ -0,0 +1,166 @@
+import { consumeRateLimit } from "./database";
+
+// Parsing a resume calls the LLM, once for each part of a long resume, so
+// every user gets a token bucket per action: a few requests can be made back
+// to back, then one more becomes available every `refillSeconds`. A daily
+// quota caps the total, and a parse counts against it once for each part,
+// and at least once even when its result comes from the parse cache. Both
+// live in the database so they hold across server instances and
+// restarts.
+
+export const USAGE_ACTIONS = ["parse", "generate"] as const;
+export type UsageAction = (typeof USAGE_ACTIONS)[number];
+
+export interface UsageLimits {
+  // Requests that can be made back to back
+  burst: number;
+  // Seconds for one more request to become available
+  refillSeconds: number;
+  // Per UTC day: resume parts parsed, or generation requests
+  dailyLimit: number;
+}
+
+const DEFAULT_LIMITS: Record<UsageAction, UsageLimits> = {
+  parse: { burst: 3, refillSeconds: 60, dailyLimit: 60 },
+  generate: { burst: 10, refillSeconds: 10, dailyLimit: 200 },
+};
+
+const DAILY_LIMIT_VARIABLES: Record<UsageAction, string> = {
+  parse: "DAILY_PARSE_LIMIT",
+  generate: "DAILY_GENERATE_LIMIT",
+};
+
+const ACTION_LABELS: Record<UsageAction, string> = {
+  parse: "resume parses",
+  generate: "resume generations",
+};
+
+// What the daily quota counts
+const QUOTA_LABELS: Record<UsageAction, string> = {
+  parse: "parsed resume parts",
+  generate: "resume generations",
+};
+
+// DAILY_PARSE_LIMIT and DAILY_GENERATE_LIMIT override the daily quotas; 0
+// turns an action off
+export function getUsageLimits(action: UsageAction): UsageLimits {
+  const variable = DAILY_LIMIT_VARIABLES[action];
+  const configured = process.env[variable]?.trim();
+  if (!configured) return DEFAULT_LIMITS[action];
+
+  const dailyLimit = Number(configured);
+  if (!Number.isInteger(dailyLimit) || dailyLimit < 0) {
+    throw new Error(`${variable} must be a whole number, got "${configured}".`);
+  }
+  return { ...DEFAULT_LIMITS[action], dailyLimit };
+}
+
+export interface UsageCheck {
+  allowed: boolean;
+  // For the Retry-After header when the request is not allowed
+  retryAfterSeconds: number;
+  error: string | null;
+}
+
+// `counted` is what the request was already charged; the message describes
+// the whole request
+function toUsageCheck(
+  action: UsageAction,
+  limits: UsageLimits,
+  cost: number,
+  state: { allowed: boolean; retry_after: number; used_today: number },
+  counted: number = 0
+): UsageCheck {
+  if (state.allowed) {
+    return { allowed: true, retryAfterSeconds: 0, error: null };
+  }
+
+  const retryAfterSeconds = Math.max(1, state.retry_after);
+  const remaining = limits.dailyLimit - state.used_today + counted;
+  const total = cost + counted;
+  let error = `Too many ${ACTION_LABELS[action]}. Please wait ${retryAfterSeconds} seconds and try again.`;
+  if (remaining <= 0) {
+    error = `Daily limit of ${limits.dailyLimit} ${QUOTA_LABELS[action]} reached. Please try again tomorrow.`;
+  } else if (total > remaining) {
+    error = `This request counts as ${total} ${QUOTA_LABELS[action]}, but only ${remaining} of your daily limit of ${limits.dailyLimit} are left. Please try again tomorrow.`;
+  }
+  return { allowed: false, retryAfterSeconds, error };
+}
+
+// Counts a request against the user's limits for an action: one request
+// against the rate limit, and `cost` against the daily quota. Requests that
+// are turned away are not counted.
+export async function consumeUsage(
+  userId: number,
+  action: UsageAction,
+  cost: number = 1
+): Promise<UsageCheck> {
+  const limits = getUsageLimits(action);
+  const state = await consumeRateLimit(userId, action, limits, true, cost);
+  return toUsageCheck(action, limits, cost, state);
+}
+
+// Counts the rest of a request that consumeUsage already counted `counted`
+// of, against the daily quota only: the request has taken its rate limit
+// token. Parses are counted once when they are accepted, so concurrent
+// uploads cannot all be accepted, and the extra parts of a long resume once
+// it is known how many the LLM is asked to parse.
+export async function consumeRemainingUsage(
+  userId: number,
+  action: UsageAction,
+  cost: number,
+  counted: number
+): Promise<UsageCheck> {
+  const limits = getUsageLimits(action);
+  const state = await consumeRateLimit(
+    userId,
+    action,
+    limits,
+    true,
+    cost,
+    false
+  );
+  return toUsageCheck(action, limits, cost, state, counted);
+}
+
+export interface UsageReport {
+  action: UsageAction;
+  daily_limit: number;
+  used_today: number;
+  remaining_today: number;
+  // Requests that can be made right now without waiting
+  available_now: number;
+  burst: number;
+  // Seconds until the next request is allowed; 0 when one is allowed now
+  retry_after: number;
+  // When the daily count starts over (the next UTC midnight)
+  resets_at: string;
+}
+
+function nextUtcMidnight(): string {
+  const now = new Date();
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+  ).toISOString();
+}
+
+// How much of each quota the user has left, without counting a request
+export async function getUsage(userId: number): Promise<UsageReport[]> {
+  return Promise.all(
+    USAGE_ACTIONS.map(async (action) => {
+      const limits = getUsageLimits(action);
+      const state = await consumeRateLimit(userId, action, limits, false);
+      const remainingToday = Math.max(0, limits.dailyLimit - state.used_today);
+      return {
+        action,
+        daily_limit: limits.dailyLimit,
+        used_today: state.used_today,
+        remaining_today: remainingToday,
+        available_now: Math.min(Math.floor(state.tokens), remainingToday),
+        burst: limits.burst,
+        retry_after: state.allowed ? 0 : state.retry_after,
+        resets_at: nextUtcMidnight(),
+      };
+    })
+  );
+}
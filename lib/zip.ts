@@ -0,0 +1,67 @@
+import JSZip from "jszip";
+
+// Security: Limit how much of a single archive entry is inflated so a small
+// compressed upload cannot expand into gigabytes of text
+const MAX_ENTRY_SIZE = 20 * 1024 * 1024; // 20MB
+
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+export function isZipFile(buffer: Buffer): boolean {
+  return buffer.subarray(0, ZIP_SIGNATURE.length).equals(ZIP_SIGNATURE);
+}
+
+export async function loadZip(buffer: Buffer): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(buffer);
+  } catch (error) {
+    console.error("Error reading zip archive:", error);
+    throw new Error("Failed to read zip archive");
+  }
+}
+
+// Finds an entry by file name regardless of the folder it sits in or its case
+export function findZipEntry(
+  zip: JSZip,
+  fileName: string
+): JSZip.JSZipObject | null {
+  const target = fileName.toLowerCase();
+  return (
+    Object.values(zip.files).find(
+      (entry) =>
+        !entry.dir && entry.name.toLowerCase().split("/").pop() === target
+    ) || null
+  );
+}
+
+// The web page in a zipped HTML export, such as Google Docs' "Web page"
+// download: the only .html file, next to a folder of images
+export function findHtmlEntry(zip: JSZip): JSZip.JSZipObject | null {
+  const pages = Object.values(zip.files).filter(
+    (entry) => !entry.dir && /\.html?$/i.test(entry.name)
+  );
+  return pages.length === 1 ? pages[0] : null;
+}
+
+export async function readZipEntryText(
+  entry: JSZip.JSZipObject,
+  maxSize: number = MAX_ENTRY_SIZE
+): Promise<string> {
+  const stream = entry.nodeStream("nodebuffer");
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  return await new Promise<string>((resolve, reject) => {
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxSize) {
+        stream.pause();
+        stream.removeAllListeners("data");
+        reject(new Error(`${entry.name} is too large to import`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    stream.on("error", reject);
+  });
+}
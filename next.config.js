@@ -5,6 +5,15 @@ const nextConfig = {
     serverActions: {
       bodySizeLimit: "10mb",
     },
+    // pdfkit reads its standard font metrics from disk at runtime
+    serverComponentsExternalPackages: ["pdfkit", "fontkit"],
+    // So are the fonts PDF exports embed; see lib/exporters/pdf-fonts.ts
+    outputFileTracingIncludes: {
+      "/api/resumes/export": [
+        "./node_modules/@expo-google-fonts/noto-{sans,serif}/{400Regular,400Regular_Italic,700Bold}/*.ttf",
+        "./node_modules/@expo-google-fonts/noto-sans-{jp,sc,kr}/{400Regular,700Bold}/*.ttf",
+      ],
+    },
   },
 };
 
@@ -0,0 +1,189 @@
+// Exports a fixture resume with every PDF template, reads each file back with
+// extractTextFromPDF and checks that every bullet point, in jobs and in the
+// other sections, comes back intact.
+// Applicant tracking systems read the same text layer, so a bullet that does
+// not survive this round trip does not survive them either.
+//
+// Run with `npm run check:pdf`. Exits non-zero and lists the missing bullets
+// when any template loses one.
+
+import type { Resume } from "../lib/resume";
+
+// lib/resume-parser.ts loads the database client, which requires these even
+// though nothing here connects to it
+if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
+  process.env.NEXT_PUBLIC_SUPABASE_URL = "http://localhost";
+}
+if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+  process.env.SUPABASE_SERVICE_ROLE_KEY = "unused";
+}
+
+// Plain ASCII, Windows-1252 punctuation, characters outside Windows-1252,
+// other scripts, and bullets long enough to wrap
+const BULLETS = [
+  "Cut p95 API latency from 800ms to 120ms by moving hot paths to Redis",
+  "Led a team of 5 engineers “end to end” – design, rollout and on-call",
+  "Raised uptime to ≥ 99.9% → fewer incidents for offices in Łódź and İzmir",
+  "Shipped 決済 service handling ¥2B in monthly transactions",
+  "決済基盤をマイクロサービスに移行し、障害件数を半減",
+  "Запустил систему мониторинга для 40 сервисов",
+  "搭建了数据管道，每日处理十亿条事件",
+  "결제 시스템의 응답 시간을 40% 단축",
+  "Μείωσα το κόστος υποδομής κατά 30%",
+  "Rebuilt the onboarding flow end to end, from the signup form through email verification, workspace setup and the first-run tutorial, which raised week-one retention from 41% to 58% across every plan",
+];
+
+function sectionBullets(firstId: number) {
+  return BULLETS.slice(1, 5).map((content, index) => ({
+    section_bullet_point_id: firstId + index + 1,
+    content,
+    skills: ["Go"],
+  }));
+}
+
+function fixtureResume(): Resume {
+  // Enough jobs to run onto a second page
+  const jobs = Array.from({ length: 4 }, (_, index) => ({
+    job_id: index + 1,
+    title: index === 0 ? "シニアエンジニア" : `Software Engineer ${index}`,
+    start_date: `${2015 + index * 2}-04`,
+    end_date: index === 0 ? null : `${2017 + index * 2}`,
+    is_current: index === 0,
+    bullet_points: BULLETS.map((content, bulletIndex) => ({
+      bullet_point_id: index * BULLETS.length + bulletIndex + 1,
+      content,
+      skills: ["TypeScript", "Go", "決済"],
+    })),
+  }));
+
+  return {
+    name: "山田 太郎",
+    profile: {
+      display_name: "山田 太郎 (Taro Yamada)",
+      headline: "Ingénieur logiciel — バックエンド",
+      email: "taro@example.com",
+      phone: "+81 90-1234-5678",
+      location: "東京, Japan",
+      github_url: "https://github.com/example",
+      linkedin_url: null,
+      portfolio_url: null,
+      summary: "Backend engineer working on payments. 決済と検索の経験。",
+    },
+    companies: [
+      {
+        company_id: 1,
+        name: "株式会社メルカリ",
+        city: "東京",
+        state: null,
+        is_remote: false,
+        jobs,
+      },
+    ],
+    education: [
+      {
+        education_id: 1,
+        institution: "Uniwersytet Łódzki",
+        degree: "Magister",
+        field: "Informatyka",
+        start_date: "2010",
+        end_date: "2015",
+        gpa: null,
+        honors: null,
+      },
+    ],
+    projects: [
+      {
+        project_id: 1,
+        name: "決済 SDK",
+        role: "Maintainer",
+        url: "https://github.com/example/sdk",
+        start_date: "2021-01-01",
+        end_date: null,
+        bullet_points: sectionBullets(0),
+      },
+    ],
+    certifications: [
+      {
+        certification_id: 1,
+        name: "AWS Certified Solutions Architect – Associate",
+        issuer: "Amazon Web Services",
+        credential_id: "ABC-123",
+        url: null,
+        issue_date: "2022-03-01",
+        expiry_date: "2025-03-01",
+        bullet_points: [],
+      },
+    ],
+    publications: [
+      {
+        publication_id: 1,
+        kind: "talk",
+        title: "Idempotent payments at scale",
+        venue: "Go Conference 東京",
+        url: null,
+        published_on: "2023-06-01",
+        bullet_points: sectionBullets(100),
+      },
+    ],
+  };
+}
+
+// pdf.js, which extractTextFromPDF uses, expands compatibility characters
+// such as "…" and ligatures, and lines wrap wherever the template breaks them
+function normalize(text: string): string {
+  return text.normalize("NFKC").replace(/\s+/g, " ").trim();
+}
+
+// Every job repeats the same bullets, so each must appear as many times as
+// the resume has it
+function findMissingBullets(bullets: string[], text: string): string[] {
+  const expected = new Map<string, number>();
+  for (const bullet of bullets) {
+    expected.set(bullet, (expected.get(bullet) || 0) + 1);
+  }
+  return Array.from(expected.entries())
+    .filter(
+      ([bullet, count]) => text.split(normalize(bullet)).length - 1 < count
+    )
+    .map(([bullet]) => bullet);
+}
+
+async function main() {
+  const { PDF_TEMPLATES, renderResumePdf } =
+    await import("../lib/exporters/pdf");
+  const { extractTextFromPDF } = await import("../lib/resume-parser");
+
+  const resume = fixtureResume();
+  const bullets = [
+    ...resume.companies.flatMap((company) => company.jobs),
+    ...resume.projects,
+    ...resume.certifications,
+    ...resume.publications,
+  ].flatMap((entry) => entry.bullet_points.map((bp) => bp.content));
+
+  let failed = false;
+  for (const templateId of Object.keys(
+    PDF_TEMPLATES
+  ) as (keyof typeof PDF_TEMPLATES)[]) {
+    const pdf = await renderResumePdf(resume, templateId);
+    const text = normalize(await extractTextFromPDF(pdf));
+    const missing = findMissingBullets(bullets, text);
+
+    if (missing.length === 0) {
+      console.log(`${templateId}: all ${bullets.length} bullets intact`);
+      continue;
+    }
+    failed = true;
+    console.error(`${templateId}: bullets missing or changed:`);
+    for (const bullet of missing) {
+      console.error(`  - ${bullet}`);
+    }
+  }
+
+  if (failed) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
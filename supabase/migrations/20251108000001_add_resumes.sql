@@ -0,0 +1,107 @@
+-- Migration: Add saved resume variants
+-- Date: 2025-11-08
+
+-- Create resumes table
+CREATE TABLE IF NOT EXISTS "public"."resumes" (
+    "id" SERIAL PRIMARY KEY,
+    "user_id" INTEGER NOT NULL REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    "name" VARCHAR(255) NOT NULL,
+    "created_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create junction table for the jobs shown on a resume, with per-resume overrides
+CREATE TABLE IF NOT EXISTS "public"."resume_jobs" (
+    "resume_id" INTEGER NOT NULL REFERENCES "public"."resumes"("id") ON DELETE CASCADE,
+    "job_id" INTEGER NOT NULL REFERENCES "public"."jobs"("id") ON DELETE CASCADE,
+    "position" INTEGER NOT NULL,
+    "is_hidden" BOOLEAN DEFAULT false,
+    "title_override" VARCHAR(255),
+    "created_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY ("resume_id", "job_id")
+);
+
+-- Create junction table for the bullet points chosen for a resume, with per-resume overrides
+CREATE TABLE IF NOT EXISTS "public"."resume_bullet_points" (
+    "resume_id" INTEGER NOT NULL REFERENCES "public"."resumes"("id") ON DELETE CASCADE,
+    "bullet_point_id" INTEGER NOT NULL REFERENCES "public"."bullet_points"("id") ON DELETE CASCADE,
+    "position" INTEGER NOT NULL,
+    "content_override" TEXT,
+    "created_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY ("resume_id", "bullet_point_id")
+);
+
+-- Create indexes for better query performance
+CREATE INDEX "idx_resumes_user_id" ON "public"."resumes" USING btree ("user_id");
+CREATE INDEX "idx_resume_jobs_job_id" ON "public"."resume_jobs" USING btree ("job_id");
+CREATE INDEX "idx_resume_bullet_points_bullet_point_id" ON "public"."resume_bullet_points" USING btree ("bullet_point_id");
+
+-- Add triggers for updated_at columns
+CREATE TRIGGER "update_resumes_updated_at"
+    BEFORE UPDATE ON "public"."resumes"
+    FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+-- Enable Row Level Security
+ALTER TABLE "public"."resumes" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."resume_jobs" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."resume_bullet_points" ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for resumes
+CREATE POLICY "Enable insert for authenticated users only"
+    ON "public"."resumes" FOR INSERT
+    TO "authenticated" WITH CHECK (true);
+
+CREATE POLICY "Enable read access for all users"
+    ON "public"."resumes" FOR SELECT
+    USING (true);
+
+CREATE POLICY "Enable update for authenticated users only"
+    ON "public"."resumes" FOR UPDATE
+    TO "authenticated" USING (true);
+
+CREATE POLICY "Enable delete for authenticated users only"
+    ON "public"."resumes" FOR DELETE
+    TO "authenticated" USING (true);
+
+-- Create RLS policies for resume_jobs
+CREATE POLICY "Enable insert for authenticated users only"
+    ON "public"."resume_jobs" FOR INSERT
+    TO "authenticated" WITH CHECK (true);
+
+CREATE POLICY "Enable read access for all users"
+    ON "public"."resume_jobs" FOR SELECT
+    USING (true);
+
+CREATE POLICY "Enable delete for authenticated users only"
+    ON "public"."resume_jobs" FOR DELETE
+    TO "authenticated" USING (true);
+
+-- Create RLS policies for resume_bullet_points
+CREATE POLICY "Enable insert for authenticated users only"
+    ON "public"."resume_bullet_points" FOR INSERT
+    TO "authenticated" WITH CHECK (true);
+
+CREATE POLICY "Enable read access for all users"
+    ON "public"."resume_bullet_points" FOR SELECT
+    USING (true);
+
+CREATE POLICY "Enable delete for authenticated users only"
+    ON "public"."resume_bullet_points" FOR DELETE
+    TO "authenticated" USING (true);
+
+-- Grant permissions
+GRANT ALL ON TABLE "public"."resumes" TO "anon";
+GRANT ALL ON TABLE "public"."resumes" TO "authenticated";
+GRANT ALL ON TABLE "public"."resumes" TO "service_role";
+
+GRANT ALL ON SEQUENCE "public"."resumes_id_seq" TO "anon";
+GRANT ALL ON SEQUENCE "public"."resumes_id_seq" TO "authenticated";
+GRANT ALL ON SEQUENCE "public"."resumes_id_seq" TO "service_role";
+
+GRANT ALL ON TABLE "public"."resume_jobs" TO "anon";
+GRANT ALL ON TABLE "public"."resume_jobs" TO "authenticated";
+GRANT ALL ON TABLE "public"."resume_jobs" TO "service_role";
+
+GRANT ALL ON TABLE "public"."resume_bullet_points" TO "anon";
+GRANT ALL ON TABLE "public"."resume_bullet_points" TO "authenticated";
+GRANT ALL ON TABLE "public"."resume_bullet_points" TO "service_role";
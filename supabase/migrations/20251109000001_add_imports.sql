@@ -0,0 +1,54 @@
+-- Migration: Add pending resume imports for the review-before-commit upload flow
+-- Date: 2025-11-09
+
+-- Create imports table. An upload is parsed into a pending import; nothing is
+-- written to companies, jobs or bullet_points until the user commits it.
+CREATE TABLE IF NOT EXISTS "public"."imports" (
+    "id" SERIAL PRIMARY KEY,
+    "user_id" INTEGER NOT NULL REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "file_name" VARCHAR(255),
+    "parsed_resume" JSONB NOT NULL,
+    "expires_at" TIMESTAMP WITHOUT TIME ZONE NOT NULL,
+    "created_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK ("status" IN ('pending', 'committed'))
+);
+
+-- Create indexes for better query performance
+CREATE INDEX "idx_imports_user_id" ON "public"."imports" USING btree ("user_id");
+CREATE INDEX "idx_imports_expires_at" ON "public"."imports" USING btree ("expires_at");
+
+-- Add triggers for updated_at columns
+CREATE TRIGGER "update_imports_updated_at"
+    BEFORE UPDATE ON "public"."imports"
+    FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+-- Enable Row Level Security
+ALTER TABLE "public"."imports" ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for imports
+CREATE POLICY "Enable insert for authenticated users only"
+    ON "public"."imports" FOR INSERT
+    TO "authenticated" WITH CHECK (true);
+
+CREATE POLICY "Enable read access for all users"
+    ON "public"."imports" FOR SELECT
+    USING (true);
+
+CREATE POLICY "Enable update for authenticated users only"
+    ON "public"."imports" FOR UPDATE
+    TO "authenticated" USING (true);
+
+CREATE POLICY "Enable delete for authenticated users only"
+    ON "public"."imports" FOR DELETE
+    TO "authenticated" USING (true);
+
+-- Grant permissions
+GRANT ALL ON TABLE "public"."imports" TO "anon";
+GRANT ALL ON TABLE "public"."imports" TO "authenticated";
+GRANT ALL ON TABLE "public"."imports" TO "service_role";
+
+GRANT ALL ON SEQUENCE "public"."imports_id_seq" TO "anon";
+GRANT ALL ON SEQUENCE "public"."imports_id_seq" TO "authenticated";
+GRANT ALL ON SEQUENCE "public"."imports_id_seq" TO "service_role";
@@ -0,0 +1,17 @@
+-- Migration: Track upload parsing and saving as background import jobs
+-- Date: 2025-11-10
+
+-- Uploads now create the import row before parsing starts, so the parsed
+-- resume is only filled in once the "parsing" stage finishes
+ALTER TABLE "public"."imports" ALTER COLUMN "parsed_resume" DROP NOT NULL;
+
+-- Stages: extracting -> parsing -> pending (awaiting review) -> saving ->
+-- committed. Failed imports keep the error for the status endpoint.
+ALTER TABLE "public"."imports" DROP CONSTRAINT IF EXISTS "imports_status_check";
+ALTER TABLE "public"."imports" ADD CONSTRAINT "imports_status_check"
+    CHECK ("status" IN ('extracting', 'parsing', 'pending', 'saving', 'committed', 'failed'));
+
+-- Counts reported while the import runs, and the result once it is saved
+ALTER TABLE "public"."imports" ADD COLUMN IF NOT EXISTS "progress" JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE "public"."imports" ADD COLUMN IF NOT EXISTS "error" TEXT;
+ALTER TABLE "public"."imports" ADD COLUMN IF NOT EXISTS "summary" JSONB;
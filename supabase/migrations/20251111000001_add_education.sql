@@ -0,0 +1,56 @@
+-- Migration: Add education entries
+-- Date: 2025-11-11
+
+-- Create education table. Only the institution is required; resumes often
+-- leave out the field, dates or GPA.
+CREATE TABLE IF NOT EXISTS "public"."education" (
+    "id" SERIAL PRIMARY KEY,
+    "user_id" INTEGER NOT NULL REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    "institution" VARCHAR(255) NOT NULL,
+    "degree" VARCHAR(255),
+    "field" VARCHAR(255),
+    "start_date" DATE,
+    "end_date" DATE,
+    "gpa" VARCHAR(20),
+    "honors" VARCHAR(500),
+    "created_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK ("end_date" IS NULL OR "start_date" IS NULL OR "end_date" >= "start_date")
+);
+
+-- Create indexes for better query performance
+CREATE INDEX "idx_education_user_id" ON "public"."education" USING btree ("user_id");
+
+-- Add triggers for updated_at columns
+CREATE TRIGGER "update_education_updated_at"
+    BEFORE UPDATE ON "public"."education"
+    FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+-- Enable Row Level Security
+ALTER TABLE "public"."education" ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for education
+CREATE POLICY "Enable insert for authenticated users only"
+    ON "public"."education" FOR INSERT
+    TO "authenticated" WITH CHECK (true);
+
+CREATE POLICY "Enable read access for all users"
+    ON "public"."education" FOR SELECT
+    USING (true);
+
+CREATE POLICY "Enable update for authenticated users only"
+    ON "public"."education" FOR UPDATE
+    TO "authenticated" USING (true);
+
+CREATE POLICY "Enable delete for authenticated users only"
+    ON "public"."education" FOR DELETE
+    TO "authenticated" USING (true);
+
+-- Grant permissions
+GRANT ALL ON TABLE "public"."education" TO "anon";
+GRANT ALL ON TABLE "public"."education" TO "authenticated";
+GRANT ALL ON TABLE "public"."education" TO "service_role";
+
+GRANT ALL ON SEQUENCE "public"."education_id_seq" TO "anon";
+GRANT ALL ON SEQUENCE "public"."education_id_seq" TO "authenticated";
+GRANT ALL ON SEQUENCE "public"."education_id_seq" TO "service_role";
@@ -0,0 +1,218 @@
+-- Migration: Add projects, certifications and publications
+-- Date: 2025-11-12
+
+-- Side projects. Only the name is required.
+CREATE TABLE IF NOT EXISTS "public"."projects" (
+    "id" SERIAL PRIMARY KEY,
+    "user_id" INTEGER NOT NULL REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    "name" VARCHAR(255) NOT NULL,
+    "role" VARCHAR(255),
+    "url" VARCHAR(500),
+    "start_date" DATE,
+    "end_date" DATE,
+    "created_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK ("end_date" IS NULL OR "start_date" IS NULL OR "end_date" >= "start_date")
+);
+
+-- Certifications and licenses. A null expiry date means it does not expire.
+CREATE TABLE IF NOT EXISTS "public"."certifications" (
+    "id" SERIAL PRIMARY KEY,
+    "user_id" INTEGER NOT NULL REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    "name" VARCHAR(255) NOT NULL,
+    "issuer" VARCHAR(255),
+    "credential_id" VARCHAR(255),
+    "url" VARCHAR(500),
+    "issue_date" DATE,
+    "expiry_date" DATE,
+    "created_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK ("expiry_date" IS NULL OR "issue_date" IS NULL OR "expiry_date" >= "issue_date")
+);
+
+-- Papers, articles and talks. The venue is the journal, publisher or
+-- conference.
+CREATE TABLE IF NOT EXISTS "public"."publications" (
+    "id" SERIAL PRIMARY KEY,
+    "user_id" INTEGER NOT NULL REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    "kind" VARCHAR(20) NOT NULL DEFAULT 'publication' CHECK ("kind" IN ('publication', 'talk')),
+    "title" VARCHAR(500) NOT NULL,
+    "venue" VARCHAR(255),
+    "url" VARCHAR(500),
+    "published_on" DATE,
+    "created_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Bullet points of a project, certification or publication. Exactly one of
+-- the three references is set.
+CREATE TABLE IF NOT EXISTS "public"."section_bullet_points" (
+    "id" SERIAL PRIMARY KEY,
+    "user_id" INTEGER NOT NULL REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    "project_id" INTEGER REFERENCES "public"."projects"("id") ON DELETE CASCADE,
+    "certification_id" INTEGER REFERENCES "public"."certifications"("id") ON DELETE CASCADE,
+    "publication_id" INTEGER REFERENCES "public"."publications"("id") ON DELETE CASCADE,
+    "content" TEXT NOT NULL,
+    "created_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (num_nonnulls("project_id", "certification_id", "publication_id") = 1)
+);
+
+CREATE TABLE IF NOT EXISTS "public"."section_bullet_point_skills" (
+    "section_bullet_point_id" INTEGER NOT NULL REFERENCES "public"."section_bullet_points"("id") ON DELETE CASCADE,
+    "skill_id" INTEGER NOT NULL REFERENCES "public"."skills"("id") ON DELETE CASCADE,
+    "created_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY ("section_bullet_point_id", "skill_id")
+);
+
+-- Create indexes for better query performance
+CREATE INDEX "idx_projects_user_id" ON "public"."projects" USING btree ("user_id");
+CREATE INDEX "idx_certifications_user_id" ON "public"."certifications" USING btree ("user_id");
+CREATE INDEX "idx_publications_user_id" ON "public"."publications" USING btree ("user_id");
+CREATE INDEX "idx_section_bullet_points_user_id" ON "public"."section_bullet_points" USING btree ("user_id");
+CREATE INDEX "idx_section_bullet_points_project_id" ON "public"."section_bullet_points" USING btree ("project_id");
+CREATE INDEX "idx_section_bullet_points_certification_id" ON "public"."section_bullet_points" USING btree ("certification_id");
+CREATE INDEX "idx_section_bullet_points_publication_id" ON "public"."section_bullet_points" USING btree ("publication_id");
+CREATE INDEX "idx_section_bullet_point_skills_skill_id" ON "public"."section_bullet_point_skills" USING btree ("skill_id");
+
+-- Add triggers for updated_at columns
+CREATE TRIGGER "update_projects_updated_at"
+    BEFORE UPDATE ON "public"."projects"
+    FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+CREATE TRIGGER "update_certifications_updated_at"
+    BEFORE UPDATE ON "public"."certifications"
+    FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+CREATE TRIGGER "update_publications_updated_at"
+    BEFORE UPDATE ON "public"."publications"
+    FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+CREATE TRIGGER "update_section_bullet_points_updated_at"
+    BEFORE UPDATE ON "public"."section_bullet_points"
+    FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+-- Enable Row Level Security
+ALTER TABLE "public"."projects" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."certifications" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."publications" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."section_bullet_points" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."section_bullet_point_skills" ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for projects
+CREATE POLICY "Enable insert for authenticated users only"
+    ON "public"."projects" FOR INSERT
+    TO "authenticated" WITH CHECK (true);
+
+CREATE POLICY "Enable read access for all users"
+    ON "public"."projects" FOR SELECT
+    USING (true);
+
+CREATE POLICY "Enable update for authenticated users only"
+    ON "public"."projects" FOR UPDATE
+    TO "authenticated" USING (true);
+
+CREATE POLICY "Enable delete for authenticated users only"
+    ON "public"."projects" FOR DELETE
+    TO "authenticated" USING (true);
+
+-- Create RLS policies for certifications
+CREATE POLICY "Enable insert for authenticated users only"
+    ON "public"."certifications" FOR INSERT
+    TO "authenticated" WITH CHECK (true);
+
+CREATE POLICY "Enable read access for all users"
+    ON "public"."certifications" FOR SELECT
+    USING (true);
+
+CREATE POLICY "Enable update for authenticated users only"
+    ON "public"."certifications" FOR UPDATE
+    TO "authenticated" USING (true);
+
+CREATE POLICY "Enable delete for authenticated users only"
+    ON "public"."certifications" FOR DELETE
+    TO "authenticated" USING (true);
+
+-- Create RLS policies for publications
+CREATE POLICY "Enable insert for authenticated users only"
+    ON "public"."publications" FOR INSERT
+    TO "authenticated" WITH CHECK (true);
+
+CREATE POLICY "Enable read access for all users"
+    ON "public"."publications" FOR SELECT
+    USING (true);
+
+CREATE POLICY "Enable update for authenticated users only"
+    ON "public"."publications" FOR UPDATE
+    TO "authenticated" USING (true);
+
+CREATE POLICY "Enable delete for authenticated users only"
+    ON "public"."publications" FOR DELETE
+    TO "authenticated" USING (true);
+
+-- Create RLS policies for section_bullet_points
+CREATE POLICY "Enable insert for authenticated users only"
+    ON "public"."section_bullet_points" FOR INSERT
+    TO "authenticated" WITH CHECK (true);
+
+CREATE POLICY "Enable read access for all users"
+    ON "public"."section_bullet_points" FOR SELECT
+    USING (true);
+
+CREATE POLICY "Enable update for authenticated users only"
+    ON "public"."section_bullet_points" FOR UPDATE
+    TO "authenticated" USING (true);
+
+CREATE POLICY "Enable delete for authenticated users only"
+    ON "public"."section_bullet_points" FOR DELETE
+    TO "authenticated" USING (true);
+
+-- Create RLS policies for section_bullet_point_skills
+CREATE POLICY "Enable insert for authenticated users only"
+    ON "public"."section_bullet_point_skills" FOR INSERT
+    TO "authenticated" WITH CHECK (true);
+
+CREATE POLICY "Enable read access for all users"
+    ON "public"."section_bullet_point_skills" FOR SELECT
+    USING (true);
+
+CREATE POLICY "Enable delete for authenticated users only"
+    ON "public"."section_bullet_point_skills" FOR DELETE
+    TO "authenticated" USING (true);
+
+-- Grant permissions
+GRANT ALL ON TABLE "public"."projects" TO "anon";
+GRANT ALL ON TABLE "public"."projects" TO "authenticated";
+GRANT ALL ON TABLE "public"."projects" TO "service_role";
+
+GRANT ALL ON SEQUENCE "public"."projects_id_seq" TO "anon";
+GRANT ALL ON SEQUENCE "public"."projects_id_seq" TO "authenticated";
+GRANT ALL ON SEQUENCE "public"."projects_id_seq" TO "service_role";
+
+GRANT ALL ON TABLE "public"."certifications" TO "anon";
+GRANT ALL ON TABLE "public"."certifications" TO "authenticated";
+GRANT ALL ON TABLE "public"."certifications" TO "service_role";
+
+GRANT ALL ON SEQUENCE "public"."certifications_id_seq" TO "anon";
+GRANT ALL ON SEQUENCE "public"."certifications_id_seq" TO "authenticated";
+GRANT ALL ON SEQUENCE "public"."certifications_id_seq" TO "service_role";
+
+GRANT ALL ON TABLE "public"."publications" TO "anon";
+GRANT ALL ON TABLE "public"."publications" TO "authenticated";
+GRANT ALL ON TABLE "public"."publications" TO "service_role";
+
+GRANT ALL ON SEQUENCE "public"."publications_id_seq" TO "anon";
+GRANT ALL ON SEQUENCE "public"."publications_id_seq" TO "authenticated";
+GRANT ALL ON SEQUENCE "public"."publications_id_seq" TO "service_role";
+
+GRANT ALL ON TABLE "public"."section_bullet_points" TO "anon";
+GRANT ALL ON TABLE "public"."section_bullet_points" TO "authenticated";
+GRANT ALL ON TABLE "public"."section_bullet_points" TO "service_role";
+
+GRANT ALL ON SEQUENCE "public"."section_bullet_points_id_seq" TO "anon";
+GRANT ALL ON SEQUENCE "public"."section_bullet_points_id_seq" TO "authenticated";
+GRANT ALL ON SEQUENCE "public"."section_bullet_points_id_seq" TO "service_role";
+
+GRANT ALL ON TABLE "public"."section_bullet_point_skills" TO "anon";
+GRANT ALL ON TABLE "public"."section_bullet_point_skills" TO "authenticated";
+GRANT ALL ON TABLE "public"."section_bullet_point_skills" TO "service_role";
@@ -0,0 +1,55 @@
+-- Migration: Add profiles for resume headers
+-- Date: 2025-11-13
+
+-- Create profiles table. Each user has at most one profile holding the name
+-- and contact details shown at the top of their resumes; every field is
+-- optional.
+CREATE TABLE IF NOT EXISTS "public"."profiles" (
+    "id" SERIAL PRIMARY KEY,
+    "user_id" INTEGER NOT NULL UNIQUE REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    "display_name" VARCHAR(255),
+    "headline" VARCHAR(255),
+    "email" VARCHAR(255),
+    "phone" VARCHAR(50),
+    "location" VARCHAR(255),
+    "github_url" VARCHAR(500),
+    "linkedin_url" VARCHAR(500),
+    "portfolio_url" VARCHAR(500),
+    "summary" TEXT,
+    "created_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Add triggers for updated_at columns
+CREATE TRIGGER "update_profiles_updated_at"
+    BEFORE UPDATE ON "public"."profiles"
+    FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+-- Enable Row Level Security
+ALTER TABLE "public"."profiles" ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for profiles
+CREATE POLICY "Enable insert for authenticated users only"
+    ON "public"."profiles" FOR INSERT
+    TO "authenticated" WITH CHECK (true);
+
+CREATE POLICY "Enable read access for all users"
+    ON "public"."profiles" FOR SELECT
+    USING (true);
+
+CREATE POLICY "Enable update for authenticated users only"
+    ON "public"."profiles" FOR UPDATE
+    TO "authenticated" USING (true);
+
+CREATE POLICY "Enable delete for authenticated users only"
+    ON "public"."profiles" FOR DELETE
+    TO "authenticated" USING (true);
+
+-- Grant permissions
+GRANT ALL ON TABLE "public"."profiles" TO "anon";
+GRANT ALL ON TABLE "public"."profiles" TO "authenticated";
+GRANT ALL ON TABLE "public"."profiles" TO "service_role";
+
+GRANT ALL ON SEQUENCE "public"."profiles_id_seq" TO "anon";
+GRANT ALL ON SEQUENCE "public"."profiles_id_seq" TO "authenticated";
+GRANT ALL ON SEQUENCE "public"."profiles_id_seq" TO "service_role";
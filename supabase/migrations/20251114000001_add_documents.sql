@@ -0,0 +1,101 @@
+-- Migration: Keep uploaded documents and record where imported rows came from
+-- Date: 2025-11-14
+
+-- Create documents table. The file itself lives in document storage under
+-- "storage_key"; the same file uploaded twice by a user is stored once.
+CREATE TABLE IF NOT EXISTS "public"."documents" (
+    "id" SERIAL PRIMARY KEY,
+    "user_id" INTEGER NOT NULL REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    "file_name" VARCHAR(255) NOT NULL,
+    "content_type" VARCHAR(255) NOT NULL,
+    "byte_size" INTEGER NOT NULL,
+    "content_hash" CHAR(64) NOT NULL,
+    "storage_backend" VARCHAR(20) NOT NULL CHECK ("storage_backend" IN ('supabase', 'local')),
+    "storage_key" VARCHAR(500) NOT NULL,
+    "extracted_text" TEXT,
+    "created_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE ("user_id", "content_hash")
+);
+
+-- Create indexes for better query performance
+CREATE INDEX "idx_documents_user_id" ON "public"."documents" USING btree ("user_id");
+
+-- Add triggers for updated_at columns
+CREATE TRIGGER "update_documents_updated_at"
+    BEFORE UPDATE ON "public"."documents"
+    FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+-- Enable Row Level Security
+ALTER TABLE "public"."documents" ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for documents
+CREATE POLICY "Enable insert for authenticated users only"
+    ON "public"."documents" FOR INSERT
+    TO "authenticated" WITH CHECK (true);
+
+CREATE POLICY "Enable read access for all users"
+    ON "public"."documents" FOR SELECT
+    USING (true);
+
+CREATE POLICY "Enable update for authenticated users only"
+    ON "public"."documents" FOR UPDATE
+    TO "authenticated" USING (true);
+
+CREATE POLICY "Enable delete for authenticated users only"
+    ON "public"."documents" FOR DELETE
+    TO "authenticated" USING (true);
+
+-- Grant permissions
+GRANT ALL ON TABLE "public"."documents" TO "anon";
+GRANT ALL ON TABLE "public"."documents" TO "authenticated";
+GRANT ALL ON TABLE "public"."documents" TO "service_role";
+
+GRANT ALL ON SEQUENCE "public"."documents_id_seq" TO "anon";
+GRANT ALL ON SEQUENCE "public"."documents_id_seq" TO "authenticated";
+GRANT ALL ON SEQUENCE "public"."documents_id_seq" TO "service_role";
+
+-- Private bucket for the Supabase Storage backend. Only the service role key
+-- used by the server reads or writes it.
+INSERT INTO "storage"."buckets" ("id", "name", "public")
+VALUES ('documents', 'documents', false)
+ON CONFLICT ("id") DO NOTHING;
+
+-- Imports record the document they parsed and which parser and model
+-- produced the parsed resume
+ALTER TABLE "public"."imports" ADD COLUMN IF NOT EXISTS "document_id" INTEGER
+    REFERENCES "public"."documents"("id") ON DELETE SET NULL;
+ALTER TABLE "public"."imports" ADD COLUMN IF NOT EXISTS "parser" VARCHAR(20)
+    CHECK ("parser" IN ('llm', 'heuristic', 'mixed'));
+ALTER TABLE "public"."imports" ADD COLUMN IF NOT EXISTS "model" VARCHAR(255);
+
+CREATE INDEX "idx_imports_document_id" ON "public"."imports" USING btree ("document_id");
+
+-- Rows written by an import point back at it. Rows added by hand, or by
+-- imports that do not create an imports row (JSON Resume, LinkedIn), have
+-- no import.
+ALTER TABLE "public"."companies" ADD COLUMN IF NOT EXISTS "import_id" INTEGER
+    REFERENCES "public"."imports"("id") ON DELETE SET NULL;
+ALTER TABLE "public"."jobs" ADD COLUMN IF NOT EXISTS "import_id" INTEGER
+    REFERENCES "public"."imports"("id") ON DELETE SET NULL;
+ALTER TABLE "public"."bullet_points" ADD COLUMN IF NOT EXISTS "import_id" INTEGER
+    REFERENCES "public"."imports"("id") ON DELETE SET NULL;
+ALTER TABLE "public"."education" ADD COLUMN IF NOT EXISTS "import_id" INTEGER
+    REFERENCES "public"."imports"("id") ON DELETE SET NULL;
+ALTER TABLE "public"."projects" ADD COLUMN IF NOT EXISTS "import_id" INTEGER
+    REFERENCES "public"."imports"("id") ON DELETE SET NULL;
+ALTER TABLE "public"."certifications" ADD COLUMN IF NOT EXISTS "import_id" INTEGER
+    REFERENCES "public"."imports"("id") ON DELETE SET NULL;
+ALTER TABLE "public"."publications" ADD COLUMN IF NOT EXISTS "import_id" INTEGER
+    REFERENCES "public"."imports"("id") ON DELETE SET NULL;
+ALTER TABLE "public"."section_bullet_points" ADD COLUMN IF NOT EXISTS "import_id" INTEGER
+    REFERENCES "public"."imports"("id") ON DELETE SET NULL;
+
+CREATE INDEX "idx_companies_import_id" ON "public"."companies" USING btree ("import_id");
+CREATE INDEX "idx_jobs_import_id" ON "public"."jobs" USING btree ("import_id");
+CREATE INDEX "idx_bullet_points_import_id" ON "public"."bullet_points" USING btree ("import_id");
+CREATE INDEX "idx_education_import_id" ON "public"."education" USING btree ("import_id");
+CREATE INDEX "idx_projects_import_id" ON "public"."projects" USING btree ("import_id");
+CREATE INDEX "idx_certifications_import_id" ON "public"."certifications" USING btree ("import_id");
+CREATE INDEX "idx_publications_import_id" ON "public"."publications" USING btree ("import_id");
+CREATE INDEX "idx_section_bullet_points_import_id" ON "public"."section_bullet_points" USING btree ("import_id");
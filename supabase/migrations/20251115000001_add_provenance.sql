@@ -0,0 +1,35 @@
+-- Migration: Record where imported jobs, bullet points and skills came from
+-- Date: 2025-11-15
+
+-- The span is a pair of character offsets into the extracted text of the
+-- import's document (end exclusive); confidence runs from 0 to 1. All three
+-- are null for rows that were not imported from a document.
+ALTER TABLE "public"."jobs" ADD COLUMN IF NOT EXISTS "source_start" INTEGER;
+ALTER TABLE "public"."jobs" ADD COLUMN IF NOT EXISTS "source_end" INTEGER;
+ALTER TABLE "public"."jobs" ADD COLUMN IF NOT EXISTS "confidence" REAL;
+ALTER TABLE "public"."jobs" ADD CONSTRAINT "jobs_source_span_check"
+    CHECK ("source_end" IS NULL OR "source_start" IS NULL OR "source_end" >= "source_start");
+ALTER TABLE "public"."jobs" ADD CONSTRAINT "jobs_confidence_check"
+    CHECK ("confidence" IS NULL OR ("confidence" >= 0 AND "confidence" <= 1));
+
+ALTER TABLE "public"."bullet_points" ADD COLUMN IF NOT EXISTS "source_start" INTEGER;
+ALTER TABLE "public"."bullet_points" ADD COLUMN IF NOT EXISTS "source_end" INTEGER;
+ALTER TABLE "public"."bullet_points" ADD COLUMN IF NOT EXISTS "confidence" REAL;
+ALTER TABLE "public"."bullet_points" ADD CONSTRAINT "bullet_points_source_span_check"
+    CHECK ("source_end" IS NULL OR "source_start" IS NULL OR "source_end" >= "source_start");
+ALTER TABLE "public"."bullet_points" ADD CONSTRAINT "bullet_points_confidence_check"
+    CHECK ("confidence" IS NULL OR ("confidence" >= 0 AND "confidence" <= 1));
+
+-- Skills are shared by every row that mentions them, so a skill keeps the
+-- provenance of the import that created it
+ALTER TABLE "public"."skills" ADD COLUMN IF NOT EXISTS "import_id" INTEGER
+    REFERENCES "public"."imports"("id") ON DELETE SET NULL;
+ALTER TABLE "public"."skills" ADD COLUMN IF NOT EXISTS "source_start" INTEGER;
+ALTER TABLE "public"."skills" ADD COLUMN IF NOT EXISTS "source_end" INTEGER;
+ALTER TABLE "public"."skills" ADD COLUMN IF NOT EXISTS "confidence" REAL;
+ALTER TABLE "public"."skills" ADD CONSTRAINT "skills_source_span_check"
+    CHECK ("source_end" IS NULL OR "source_start" IS NULL OR "source_end" >= "source_start");
+ALTER TABLE "public"."skills" ADD CONSTRAINT "skills_confidence_check"
+    CHECK ("confidence" IS NULL OR ("confidence" >= 0 AND "confidence" <= 1));
+
+CREATE INDEX "idx_skills_import_id" ON "public"."skills" USING btree ("import_id");
@@ -0,0 +1,21 @@
+-- Migration: Record how precise job dates are
+-- Date: 2025-11-16
+
+-- Resumes give job dates as a year, a month or a full date. The date columns
+-- hold the first day of the year or month, and these columns say which of
+-- the three was given. Existing jobs were entered by month.
+ALTER TABLE "public"."jobs" ADD COLUMN IF NOT EXISTS "start_date_precision" VARCHAR(5)
+    NOT NULL DEFAULT 'month';
+ALTER TABLE "public"."jobs" ADD COLUMN IF NOT EXISTS "end_date_precision" VARCHAR(5);
+
+UPDATE "public"."jobs"
+    SET "end_date_precision" = 'month'
+    WHERE "end_date" IS NOT NULL AND "end_date_precision" IS NULL;
+
+ALTER TABLE "public"."jobs" ADD CONSTRAINT "jobs_start_date_precision_check"
+    CHECK ("start_date_precision" IN ('year', 'month', 'day'));
+ALTER TABLE "public"."jobs" ADD CONSTRAINT "jobs_end_date_precision_check"
+    CHECK (
+        ("end_date" IS NULL AND "end_date_precision" IS NULL) OR
+        ("end_date" IS NOT NULL AND "end_date_precision" IN ('year', 'month', 'day'))
+    );
@@ -0,0 +1,112 @@
+-- Migration: Add per-user rate limits and daily quotas
+-- Date: 2025-11-17
+
+-- One row per user and action ("parse" for uploads and re-parses, "generate"
+-- for resume generation). Each row is a token bucket holding up to the
+-- action's burst size, refilled continuously, plus a count of the day's
+-- requests. Days are UTC.
+CREATE TABLE IF NOT EXISTS "public"."rate_limits" (
+    "id" SERIAL PRIMARY KEY,
+    "user_id" INTEGER NOT NULL REFERENCES "public"."users"("id") ON DELETE CASCADE,
+    "action" VARCHAR(20) NOT NULL CHECK ("action" IN ('parse', 'generate')),
+    "tokens" REAL NOT NULL CHECK ("tokens" >= 0),
+    "refilled_at" TIMESTAMP WITHOUT TIME ZONE NOT NULL,
+    "day" DATE NOT NULL,
+    "used_today" INTEGER NOT NULL DEFAULT 0 CHECK ("used_today" >= 0),
+    "created_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE ("user_id", "action")
+);
+
+-- Add triggers for updated_at columns
+CREATE TRIGGER "update_rate_limits_updated_at"
+    BEFORE UPDATE ON "public"."rate_limits"
+    FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+-- Takes one token from the user's bucket for an action and counts the request
+-- against the day's quota. The row is locked while it is checked, so
+-- concurrent requests from one user cannot both take the last token. With
+-- p_consume false nothing is taken and the current state is reported.
+--
+-- Returns whether the request is allowed, how many seconds to wait before
+-- retrying when it is not, the day's count and the tokens left.
+CREATE OR REPLACE FUNCTION "public"."consume_rate_limit"(
+    "p_user_id" INTEGER,
+    "p_action" VARCHAR,
+    "p_burst" INTEGER,
+    "p_refill_seconds" REAL,
+    "p_daily_limit" INTEGER,
+    "p_consume" BOOLEAN DEFAULT true
+) RETURNS TABLE (
+    "allowed" BOOLEAN,
+    "retry_after" INTEGER,
+    "used_today" INTEGER,
+    "tokens" REAL
+)
+    LANGUAGE "plpgsql"
+    AS $$
+DECLARE
+    v_now TIMESTAMP WITHOUT TIME ZONE := timezone('utc', now());
+    v_today DATE := timezone('utc', now())::DATE;
+    v_row "public"."rate_limits"%ROWTYPE;
+    v_tokens REAL;
+    v_used INTEGER;
+BEGIN
+    INSERT INTO "public"."rate_limits" ("user_id", "action", "tokens", "refilled_at", "day")
+    VALUES (p_user_id, p_action, p_burst, v_now, v_today)
+    ON CONFLICT ("user_id", "action") DO NOTHING;
+
+    SELECT * INTO v_row FROM "public"."rate_limits"
+    WHERE "rate_limits"."user_id" = p_user_id AND "rate_limits"."action" = p_action
+    FOR UPDATE;
+
+    v_tokens := LEAST(
+        p_burst,
+        v_row.tokens + EXTRACT(EPOCH FROM (v_now - v_row.refilled_at)) / p_refill_seconds
+    );
+    v_used := CASE WHEN v_row.day = v_today THEN v_row.used_today ELSE 0 END;
+
+    -- Over the daily quota: wait until the next UTC day
+    IF v_used >= p_daily_limit THEN
+        RETURN QUERY SELECT false,
+            CEIL(EXTRACT(EPOCH FROM ((v_today + 1)::TIMESTAMP - v_now)))::INTEGER,
+            v_used, v_tokens;
+        RETURN;
+    END IF;
+
+    -- Bucket empty: wait for the next token
+    IF v_tokens < 1 THEN
+        RETURN QUERY SELECT false,
+            CEIL((1 - v_tokens) * p_refill_seconds)::INTEGER,
+            v_used, v_tokens;
+        RETURN;
+    END IF;
+
+    IF NOT p_consume THEN
+        RETURN QUERY SELECT true, 0, v_used, v_tokens;
+        RETURN;
+    END IF;
+
+    UPDATE "public"."rate_limits"
+    SET "tokens" = v_tokens - 1,
+        "refilled_at" = v_now,
+        "day" = v_today,
+        "used_today" = v_used + 1
+    WHERE "id" = v_row.id;
+
+    RETURN QUERY SELECT true, 0, v_used + 1, v_tokens - 1;
+END;
+$$;
+
+-- Enable Row Level Security. Limits are only read and written by the server
+-- through consume_rate_limit.
+ALTER TABLE "public"."rate_limits" ENABLE ROW LEVEL SECURITY;
+
+-- Grant permissions
+GRANT ALL ON TABLE "public"."rate_limits" TO "service_role";
+GRANT ALL ON SEQUENCE "public"."rate_limits_id_seq" TO "service_role";
+
+REVOKE ALL ON FUNCTION "public"."consume_rate_limit"(INTEGER, VARCHAR, INTEGER, REAL, INTEGER, BOOLEAN) FROM PUBLIC;
+REVOKE ALL ON FUNCTION "public"."consume_rate_limit"(INTEGER, VARCHAR, INTEGER, REAL, INTEGER, BOOLEAN) FROM "anon";
+REVOKE ALL ON FUNCTION "public"."consume_rate_limit"(INTEGER, VARCHAR, INTEGER, REAL, INTEGER, BOOLEAN) FROM "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."consume_rate_limit"(INTEGER, VARCHAR, INTEGER, REAL, INTEGER, BOOLEAN) TO "service_role";
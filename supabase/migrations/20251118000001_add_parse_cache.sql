@@ -0,0 +1,32 @@
+-- Migration: Cache LLM parse results
+-- Date: 2025-11-18
+
+-- Parsed resumes keyed by a SHA-256 hash of the sanitized text, the prompt
+-- and schema, and the model. Parsing the same text again with the same prompt
+-- and model reuses the result instead of calling the LLM. Entries are not tied
+-- to a user: a hit needs the exact same text, so it reveals nothing new.
+CREATE TABLE IF NOT EXISTS "public"."parse_cache" (
+    "id" SERIAL PRIMARY KEY,
+    "cache_key" CHAR(64) NOT NULL UNIQUE,
+    "model" VARCHAR(255) NOT NULL,
+    "parsed_resume" JSONB NOT NULL,
+    "expires_at" TIMESTAMP WITHOUT TIME ZONE NOT NULL,
+    "created_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for better query performance
+CREATE INDEX "idx_parse_cache_expires_at" ON "public"."parse_cache" USING btree ("expires_at");
+
+-- Add triggers for updated_at columns
+CREATE TRIGGER "update_parse_cache_updated_at"
+    BEFORE UPDATE ON "public"."parse_cache"
+    FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+-- Enable Row Level Security. The cache is only read and written by the
+-- server.
+ALTER TABLE "public"."parse_cache" ENABLE ROW LEVEL SECURITY;
+
+-- Grant permissions
+GRANT ALL ON TABLE "public"."parse_cache" TO "service_role";
+GRANT ALL ON SEQUENCE "public"."parse_cache_id_seq" TO "service_role";
@@ -0,0 +1,43 @@
+-- Migration: Replace a saved resume's selection in one transaction
+-- Date: 2025-11-19
+
+-- Deletes the jobs and bullet points chosen for a resume and inserts the new
+-- selection. Runs as one statement, so a failure leaves the old selection in
+-- place rather than a partial one.
+--
+-- p_jobs is a JSON array of {job_id, position, is_hidden, title_override};
+-- p_bullet_points of {bullet_point_id, position, content_override}.
+CREATE OR REPLACE FUNCTION "public"."replace_resume_selection"(
+    "p_resume_id" INTEGER,
+    "p_jobs" JSONB,
+    "p_bullet_points" JSONB
+) RETURNS VOID
+    LANGUAGE "plpgsql"
+    AS $$
+BEGIN
+    DELETE FROM "public"."resume_bullet_points" WHERE "resume_id" = p_resume_id;
+    DELETE FROM "public"."resume_jobs" WHERE "resume_id" = p_resume_id;
+
+    INSERT INTO "public"."resume_jobs" ("resume_id", "job_id", "position", "is_hidden", "title_override")
+    SELECT p_resume_id, j.job_id, j.position, COALESCE(j.is_hidden, false), j.title_override
+    FROM jsonb_to_recordset(p_jobs) AS j(
+        "job_id" INTEGER,
+        "position" INTEGER,
+        "is_hidden" BOOLEAN,
+        "title_override" VARCHAR(255)
+    );
+
+    INSERT INTO "public"."resume_bullet_points" ("resume_id", "bullet_point_id", "position", "content_override")
+    SELECT p_resume_id, b.bullet_point_id, b.position, b.content_override
+    FROM jsonb_to_recordset(p_bullet_points) AS b(
+        "bullet_point_id" INTEGER,
+        "position" INTEGER,
+        "content_override" TEXT
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION "public"."replace_resume_selection"(INTEGER, JSONB, JSONB) FROM PUBLIC;
+REVOKE ALL ON FUNCTION "public"."replace_resume_selection"(INTEGER, JSONB, JSONB) FROM "anon";
+REVOKE ALL ON FUNCTION "public"."replace_resume_selection"(INTEGER, JSONB, JSONB) FROM "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."replace_resume_selection"(INTEGER, JSONB, JSONB) TO "service_role";
@@ -0,0 +1,93 @@
+-- Migration: Count each part of a long resume against the daily parse quota
+-- Date: 2025-11-20
+
+-- A long resume is parsed in up to 30 parts, each its own LLM request, so a
+-- parse now counts against the daily quota by how many parts it has. The
+-- token bucket still limits how often requests are made and takes one token
+-- per request whatever it costs.
+DROP FUNCTION IF EXISTS "public"."consume_rate_limit"(INTEGER, VARCHAR, INTEGER, REAL, INTEGER, BOOLEAN);
+
+-- Takes one token from the user's bucket for an action and counts p_cost
+-- against the day's quota. The row is locked while it is checked, so
+-- concurrent requests from one user cannot both take the last token. With
+-- p_consume false nothing is taken and the current state is reported.
+--
+-- Returns whether the request is allowed, how many seconds to wait before
+-- retrying when it is not, the day's count and the tokens left.
+CREATE OR REPLACE FUNCTION "public"."consume_rate_limit"(
+    "p_user_id" INTEGER,
+    "p_action" VARCHAR,
+    "p_burst" INTEGER,
+    "p_refill_seconds" REAL,
+    "p_daily_limit" INTEGER,
+    "p_consume" BOOLEAN DEFAULT true,
+    "p_cost" INTEGER DEFAULT 1
+) RETURNS TABLE (
+    "allowed" BOOLEAN,
+    "retry_after" INTEGER,
+    "used_today" INTEGER,
+    "tokens" REAL
+)
+    LANGUAGE "plpgsql"
+    AS $$
+DECLARE
+    v_now TIMESTAMP WITHOUT TIME ZONE := timezone('utc', now());
+    v_today DATE := timezone('utc', now())::DATE;
+    v_row "public"."rate_limits"%ROWTYPE;
+    v_tokens REAL;
+    v_used INTEGER;
+BEGIN
+    IF p_cost < 1 THEN
+        RAISE EXCEPTION 'p_cost must be at least 1, got %', p_cost;
+    END IF;
+
+    INSERT INTO "public"."rate_limits" ("user_id", "action", "tokens", "refilled_at", "day")
+    VALUES (p_user_id, p_action, p_burst, v_now, v_today)
+    ON CONFLICT ("user_id", "action") DO NOTHING;
+
+    SELECT * INTO v_row FROM "public"."rate_limits"
+    WHERE "rate_limits"."user_id" = p_user_id AND "rate_limits"."action" = p_action
+    FOR UPDATE;
+
+    v_tokens := LEAST(
+        p_burst,
+        v_row.tokens + EXTRACT(EPOCH FROM (v_now - v_row.refilled_at)) / p_refill_seconds
+    );
+    v_used := CASE WHEN v_row.day = v_today THEN v_row.used_today ELSE 0 END;
+
+    -- Not enough of the daily quota left: wait until the next UTC day
+    IF v_used + p_cost > p_daily_limit THEN
+        RETURN QUERY SELECT false,
+            CEIL(EXTRACT(EPOCH FROM ((v_today + 1)::TIMESTAMP - v_now)))::INTEGER,
+            v_used, v_tokens;
+        RETURN;
+    END IF;
+
+    -- Bucket empty: wait for the next token
+    IF v_tokens < 1 THEN
+        RETURN QUERY SELECT false,
+            CEIL((1 - v_tokens) * p_refill_seconds)::INTEGER,
+            v_used, v_tokens;
+        RETURN;
+    END IF;
+
+    IF NOT p_consume THEN
+        RETURN QUERY SELECT true, 0, v_used, v_tokens;
+        RETURN;
+    END IF;
+
+    UPDATE "public"."rate_limits"
+    SET "tokens" = v_tokens - 1,
+        "refilled_at" = v_now,
+        "day" = v_today,
+        "used_today" = v_used + p_cost
+    WHERE "id" = v_row.id;
+
+    RETURN QUERY SELECT true, 0, v_used + p_cost, v_tokens - 1;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION "public"."consume_rate_limit"(INTEGER, VARCHAR, INTEGER, REAL, INTEGER, BOOLEAN, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION "public"."consume_rate_limit"(INTEGER, VARCHAR, INTEGER, REAL, INTEGER, BOOLEAN, INTEGER) FROM "anon";
+REVOKE ALL ON FUNCTION "public"."consume_rate_limit"(INTEGER, VARCHAR, INTEGER, REAL, INTEGER, BOOLEAN, INTEGER) FROM "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."consume_rate_limit"(INTEGER, VARCHAR, INTEGER, REAL, INTEGER, BOOLEAN, INTEGER) TO "service_role";
@@ -0,0 +1,15 @@
+-- Migration: Keep the text each import was parsed from
+-- Date: 2025-11-21
+
+-- Provenance spans are character offsets into the text an import was parsed
+-- from. The document's extracted_text is replaced each time it is parsed
+-- again, so each import keeps its own copy for its spans to point into.
+ALTER TABLE "public"."imports" ADD COLUMN IF NOT EXISTS "extracted_text" TEXT;
+
+-- Existing imports were parsed from their document's current text, as long
+-- as it has not been parsed again since
+UPDATE "public"."imports"
+SET "extracted_text" = "documents"."extracted_text"
+FROM "public"."documents"
+WHERE "imports"."document_id" = "documents"."id"
+  AND "imports"."extracted_text" IS NULL;
@@ -0,0 +1,72 @@
+-- Migration: Save a resume and its selection in one transaction
+-- Date: 2025-11-22
+
+-- Creating a resume, or renaming one, used to be a separate request from
+-- replacing its selection, so a failed selection left an empty resume
+-- behind or a renamed one with its old selection. These functions do both
+-- in one statement. Both take the selection in the same JSON shape as
+-- replace_resume_selection.
+
+-- Creates a resume with its selection and returns its id
+CREATE OR REPLACE FUNCTION "public"."create_resume"(
+    "p_user_id" INTEGER,
+    "p_name" VARCHAR(255),
+    "p_jobs" JSONB,
+    "p_bullet_points" JSONB
+) RETURNS INTEGER
+    LANGUAGE "plpgsql"
+    AS $$
+DECLARE
+    v_resume_id INTEGER;
+BEGIN
+    INSERT INTO "public"."resumes" ("user_id", "name")
+    VALUES (p_user_id, p_name)
+    RETURNING "id" INTO v_resume_id;
+
+    PERFORM "public"."replace_resume_selection"(v_resume_id, p_jobs, p_bullet_points);
+
+    RETURN v_resume_id;
+END;
+$$;
+
+-- Renames a resume and, unless p_jobs is null, replaces its selection.
+-- Returns false when the resume does not exist or belongs to another user.
+CREATE OR REPLACE FUNCTION "public"."update_resume"(
+    "p_resume_id" INTEGER,
+    "p_user_id" INTEGER,
+    "p_name" VARCHAR(255),
+    "p_jobs" JSONB,
+    "p_bullet_points" JSONB
+) RETURNS BOOLEAN
+    LANGUAGE "plpgsql"
+    AS $$
+BEGIN
+    UPDATE "public"."resumes"
+    SET "name" = p_name
+    WHERE "id" = p_resume_id AND "user_id" = p_user_id;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    IF p_jobs IS NOT NULL THEN
+        PERFORM "public"."replace_resume_selection"(
+            p_resume_id,
+            p_jobs,
+            COALESCE(p_bullet_points, '[]'::JSONB)
+        );
+    END IF;
+
+    RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION "public"."create_resume"(INTEGER, VARCHAR, JSONB, JSONB) FROM PUBLIC;
+REVOKE ALL ON FUNCTION "public"."create_resume"(INTEGER, VARCHAR, JSONB, JSONB) FROM "anon";
+REVOKE ALL ON FUNCTION "public"."create_resume"(INTEGER, VARCHAR, JSONB, JSONB) FROM "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."create_resume"(INTEGER, VARCHAR, JSONB, JSONB) TO "service_role";
+
+REVOKE ALL ON FUNCTION "public"."update_resume"(INTEGER, INTEGER, VARCHAR, JSONB, JSONB) FROM PUBLIC;
+REVOKE ALL ON FUNCTION "public"."update_resume"(INTEGER, INTEGER, VARCHAR, JSONB, JSONB) FROM "anon";
+REVOKE ALL ON FUNCTION "public"."update_resume"(INTEGER, INTEGER, VARCHAR, JSONB, JSONB) FROM "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."update_resume"(INTEGER, INTEGER, VARCHAR, JSONB, JSONB) TO "service_role";